@@ -1,66 +1,128 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useReducer, useRef } from 'react';
 import { TreeVisualizer } from './components/TreeVisualizer';
+import { FishboneVisualizer } from './components/FishboneVisualizer';
+import { NewInvestigationDialog } from './components/NewInvestigationDialog';
+import { CutSetDialog } from './components/CutSetDialog';
+import { SensitivityDialog } from './components/SensitivityDialog';
+import { RiskTableView } from './components/RiskTableView';
+import { instantiateTemplate, createTemplateFromBranch } from './templates';
 import { InspectorPanel } from './components/InspectorPanel';
 import { TreeManager } from './components/TreeManager';
 import { ProjectSelector } from './components/ProjectSelector';
 import { DashboardView } from './components/DashboardView';
 import { ResolutionsSummary } from './components/ResolutionsSummary';
 import { InvestigationActionsSummary } from './components/InvestigationActionsSummary';
-import { CauseNode, ActionItem, Note, NodeStatus, NodeType, SavedTree, SavedTreeV2, AppSettings, ResolutionItem, Project } from './types';
+import { CauseNode, ActionItem, Note, NodeStatus, NodeType, SavedTree, SavedTreeV2, AppSettings, AppStateV2, ResolutionItem, Project, InvestigationTemplate, ActionChecklist, WorkflowDefinition } from './types';
 import { createInitialTree } from './constants';
-import { loadAppState, saveAppState, exportTreeAsJson, exportAllTreesAsJson, parseImportFile, loadSettings, saveSettings, getLastExportTimestamp, setLastExportTimestamp, DEFAULT_SETTINGS, createDefaultProject, exportProjectAsJson, parseProjectImportFile, ProjectImportData } from './persistence';
-import { generateSingleReport, generateBulkReport, openReportInNewTab } from './reportGenerator';
+import { exportTreeAsJson, exportAllTreesAsJson, exportTreeAsFmeaCsv, exportTreesAsFmeaXlsx, exportActionsAsCsv, exportMinutesAsMarkdown, parseCsvFile, parseImportFile, loadSettings, saveSettings, getLastExportTimestamp, setLastExportTimestamp, DEFAULT_SETTINGS, createDefaultProject, exportProjectAsJson, parseProjectImportFile, ProjectImportData } from './persistence';
+import { validateMove, moveSubtree, getAncestorIds, insertSubtree, removeSubtree, isSameOrDescendant, buildCauseChain, CauseChainStep } from './treeUtils';
+import { SubtreeClipboard, copySubtree, clipboardEntityIds, instantiateClipboard, writeSystemClipboard, readSystemClipboard } from './clipboard';
+import { generateSingleReport, generateBulkReport, generateTagupMinutes, generateSessionMinutes, openReportInNewTab, openPendingReportInNewTab } from './reportGenerator';
+import { CURRENT_TREE_SCHEMA_VERSION, validateTree, validateProject } from './schema';
+import { loadStoredState, saveStateIncremental, requestPersistentStorage } from './storage';
+import { DatabaseBlockedError } from './idb';
+import { loadAttachmentDataUrls, saveAttachmentDataUrls, pruneOrphanedAttachments } from './attachments';
 import { SettingsModal } from './components/SettingsModal';
 import { ImportDialog } from './components/ImportDialog';
-import { GitBranch, LayoutDashboard, FileText, Settings, Moon, Sun, Shield, ClipboardList, PanelRightOpen } from 'lucide-react';
+import { ActionCsvImportDialog } from './components/ActionCsvImportDialog';
+import { TagupView } from './components/TagupView';
+import { TagupSession, createTagupSession } from './tagup';
+import { TimelineView } from './components/TimelineView';
+import { WorkloadView } from './components/WorkloadView';
+import { openPredecessors, applyCompletionOverride, removeDependenciesOn, remapDependencyTrees, isActionDone } from './dependencies';
+import { applyChecklist, isChecklistSuggested } from './checklists';
+import { getProjectWorkflow } from './workflow';
+import { RescheduleChange, applyReschedule, describeReschedule } from './timeline';
+import { SessionRecorder } from './components/SessionRecorder';
+import { MinutesDialog } from './components/MinutesDialog';
+import { RecordingSession, TreeChanges, startRecording, diffSession, generateMinutesMarkdown } from './minutes';
+import { HistoryPanel } from './components/HistoryPanel';
+import { SearchPalette } from './components/SearchPalette';
+import { SearchResult } from './search';
+import { HistoryState, HistoryLabel, getTreeHistory, clearTreeHistory, describeNodeChange, treesReducer } from './history';
+import { withAuditTrail, DEFAULT_AUDIT_AUTHOR } from './audit';
+import { GitBranch, LayoutDashboard, FileText, Settings, Moon, Sun, Shield, ClipboardList, PanelRightOpen, Search, Fish, Sigma, Percent, Flame, Timer, CalendarRange, Users } from 'lucide-react';
 
 const App: React.FC = () => {
   const [projects, setProjects] = useState<Project[]>([]);
   const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
-  const [trees, setTrees] = useState<SavedTreeV2[]>([]);
+  const [{ trees, history }, dispatchTrees] = useReducer(treesReducer, { trees: [], history: {} });
+  const setTrees = useCallback((update: SavedTreeV2[] | ((prev: SavedTreeV2[]) => SavedTreeV2[])) =>
+    dispatchTrees({ type: 'setTrees', update }), []);
+  const setHistory = useCallback((update: (prev: HistoryState) => HistoryState) =>
+    dispatchTrees({ type: 'setHistory', update }), []);
   const [activeTreeId, setActiveTreeId] = useState<string | null>(null);
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
   const [initialized, setInitialized] = useState(false);
-  const [currentView, setCurrentView] = useState<'tree' | 'dashboard' | 'investigate' | 'resolutions'>('tree');
+  const [currentView, setCurrentView] = useState<'tree' | 'dashboard' | 'investigate' | 'resolutions' | 'risk' | 'tagup' | 'timeline' | 'workload'>('tree');
+  const [tagupSession, setTagupSession] = useState<TagupSession | null>(null);
+  const [recording, setRecording] = useState<RecordingSession | null>(null);
+  const [finishedRecording, setFinishedRecording] = useState<{ session: RecordingSession; changes: TreeChanges[] } | null>(null);
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [showSettings, setShowSettings] = useState(false);
   const [lastExportTimestamp, setLastExportTs] = useState<string | null>(null);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [inspectorOpen, setInspectorOpen] = useState(true);
+  const [treeLayout, setTreeLayout] = useState<'tree' | 'fishbone'>('tree');
   const [inspectorWidth, setInspectorWidth] = useState(450);
   const [importCandidates, setImportCandidates] = useState<SavedTree[] | null>(null);
-
-  // Load from localStorage on mount
+  const [actionCsvImport, setActionCsvImport] = useState<{ fileName: string; rows: string[][] } | null>(null);
+  const [showSearch, setShowSearch] = useState(false);
+  const [showNewTree, setShowNewTree] = useState(false);
+  const [clipboard, setClipboard] = useState<SubtreeClipboard | null>(null);
+  const [showCutSets, setShowCutSets] = useState(false);
+  const [showSensitivity, setShowSensitivity] = useState(false);
+
+  // False when the local database could not be read; saving is then disabled so a
+  // fresh default state never overwrites data we failed to load
+  const storageReadyRef = useRef(true);
+  const saveErrorShownRef = useRef(false);
+
+  // Load from IndexedDB on mount
   useEffect(() => {
-    const saved = loadAppState();
-    if (saved && saved.projects.length > 0) {
-      setProjects(saved.projects);
-      setTrees(saved.trees);
-      setActiveProjectId(saved.activeProjectId ?? saved.projects[0].id);
-      setActiveTreeId(saved.activeTreeId);
-    } else {
-      // First time: create default project with one investigation
-      const defaultProject = createDefaultProject();
-      const defaultTree: SavedTreeV2 = {
-        id: crypto.randomUUID(),
-        projectId: defaultProject.id,
-        name: 'New Investigation',
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        treeData: createInitialTree(),
-        actions: [],
-        notes: [],
-        resolutions: []
-      };
-      setProjects([defaultProject]);
-      setTrees([defaultTree]);
-      setActiveProjectId(defaultProject.id);
-      setActiveTreeId(defaultTree.id);
-    }
-    const savedSettings = loadSettings();
-    setSettings(savedSettings);
-    setLastExportTs(getLastExportTimestamp());
-    setInitialized(true);
+    const init = async () => {
+      let saved: AppStateV2 | null = null;
+      try {
+        saved = await loadStoredState();
+        requestPersistentStorage().catch(() => { /* best-effort */ });
+      } catch (err) {
+        storageReadyRef.current = false;
+        alert(err instanceof DatabaseBlockedError
+          ? `${err.message} Until then, changes made in this session will not be saved.`
+          : 'Could not open the local database. Changes made in this session will not be saved; export your work before closing.');
+      }
+      if (saved && saved.projects.length > 0) {
+        setProjects(saved.projects);
+        setTrees(saved.trees);
+        setActiveProjectId(saved.activeProjectId ?? saved.projects[0].id);
+        setActiveTreeId(saved.activeTreeId);
+        pruneOrphanedAttachments(saved.trees).catch(() => { /* cleanup is best-effort */ });
+      } else {
+        // First time: create default project with one investigation
+        const defaultProject = createDefaultProject();
+        const defaultTree: SavedTreeV2 = {
+          id: crypto.randomUUID(),
+          projectId: defaultProject.id,
+          name: 'New Investigation',
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+          treeData: createInitialTree(),
+          actions: [],
+          notes: [],
+          resolutions: [],
+          schemaVersion: CURRENT_TREE_SCHEMA_VERSION
+        };
+        setProjects([defaultProject]);
+        setTrees([defaultTree]);
+        setActiveProjectId(defaultProject.id);
+        setActiveTreeId(defaultTree.id);
+      }
+      const savedSettings = loadSettings();
+      setSettings(savedSettings);
+      setLastExportTs(getLastExportTimestamp());
+      setInitialized(true);
+    };
+    init();
   }, []);
 
   // Apply theme class to <html>
@@ -101,16 +163,24 @@ const App: React.FC = () => {
     return () => clearInterval(timer);
   }, [settings.autoBackupEnabled, settings.autoBackupIntervalMinutes, settings.projectFileName, initialized, trees, hasUnsavedChanges]);
 
-  // Note: No beforeunload warning needed since data is auto-saved to localStorage.
+  // Note: No beforeunload warning needed since data is auto-saved to IndexedDB.
   // Users can export to JSON files for sharing or backup purposes.
 
-  // Debounced auto-save to localStorage
+  // Debounced auto-save to IndexedDB. Only changed projects/investigations are written.
   const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   useEffect(() => {
-    if (!initialized || projects.length === 0) return;
+    if (!initialized || projects.length === 0 || !storageReadyRef.current) return;
     if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
     saveTimerRef.current = setTimeout(() => {
-      saveAppState({ version: 2, activeProjectId, activeTreeId, projects, trees });
+      saveStateIncremental({ version: 2, activeProjectId, activeTreeId, projects, trees })
+        .then(() => { saveErrorShownRef.current = false; })
+        .catch((err) => {
+          if (saveErrorShownRef.current) return;
+          saveErrorShownRef.current = true;
+          alert(err instanceof DOMException && err.name === 'QuotaExceededError'
+            ? 'Local storage is full, so recent changes were not saved. Export and remove old projects or attachments to free space.'
+            : 'Failed to save changes to the local database. Export your work to avoid losing it.');
+        });
     }, 500);
     return () => {
       if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
@@ -120,6 +190,13 @@ const App: React.FC = () => {
   // Derive active project and its trees
   const activeProject = projects.find(p => p.id === activeProjectId) ?? null;
   const projectTrees = trees.filter(t => t.projectId === activeProjectId);
+  const workflow = getProjectWorkflow(activeProject);
+
+  // Current user identity and the people offered by the assignee/owner pickers
+  const currentUser = settings.userName.trim();
+  const auditAuthor = currentUser || DEFAULT_AUDIT_AUTHOR;
+  const people = [...new Set([...(activeProject?.members ?? []), ...(currentUser ? [currentUser] : [])])]
+    .sort((a, b) => a.localeCompare(b));
 
   // Derive active tree data
   const activeTree = projectTrees.find(t => t.id === activeTreeId) ?? null;
@@ -141,14 +218,94 @@ const App: React.FC = () => {
   const allNodes = treeData ? flattenTree(treeData) : [];
   const allRootCauses = allNodes.filter(n => n.isRootCause === true);
 
-  // Helper to update the active tree within the trees array
-  const updateActiveTree = useCallback((updater: (tree: SavedTree) => SavedTree) => {
-    setTrees(prev => prev.map(t =>
-      t.id === activeTreeId
-        ? { ...updater(t), updatedAt: new Date().toISOString() }
-        : t
-    ));
-  }, [activeTreeId]);
+  // Helper to update a tree within the trees array. Every call is recorded on the
+  // tree's undo stack under the given label and in the tree's audit log.
+  const updateTreeById = useCallback((treeId: string, updater: (tree: SavedTree) => SavedTree, change: HistoryLabel) => {
+    dispatchTrees({
+      type: 'update',
+      treeId,
+      apply: t => ({ ...withAuditTrail(t, updater(t), auditAuthor), updatedAt: new Date().toISOString() }),
+      change,
+    });
+  }, [auditAuthor]);
+
+  const updateActiveTree = useCallback((updater: (tree: SavedTree) => SavedTree, change: HistoryLabel) => {
+    if (!activeTreeId) return;
+    updateTreeById(activeTreeId, updater, change);
+  }, [activeTreeId, updateTreeById]);
+
+  // Replace a tree with a snapshot from the history stacks. The audit log is
+  // append-only, so the restore is logged on top of the current log.
+  const restoreTree = useCallback((current: SavedTreeV2, restored: SavedTree): SavedTreeV2 => ({
+    ...withAuditTrail(current, { ...current, ...restored }, auditAuthor),
+    collapsedNodeIds: current.collapsedNodeIds,
+    updatedAt: new Date().toISOString(),
+  }), [auditAuthor]);
+
+  const handleUndo = useCallback((steps: number = 1) => {
+    if (!activeTreeId) return;
+    dispatchTrees({ type: 'undo', treeId: activeTreeId, steps, restore: restoreTree });
+  }, [activeTreeId, restoreTree]);
+
+  const handleRedo = useCallback(() => {
+    if (!activeTreeId) return;
+    dispatchTrees({ type: 'redo', treeId: activeTreeId, restore: restoreTree });
+  }, [activeTreeId, restoreTree]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on Mac). Text fields keep their native undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      if (e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setShowSearch(true);
+        return;
+      }
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  // Ctrl+C / Ctrl+X / Ctrl+V / Ctrl+D on the selected node in the tree view.
+  // Re-registered every render because the handlers close over the active tree.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.shiftKey || e.altKey) return;
+      if (currentView !== 'tree' || !selectedNodeId) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) return;
+      // Leave copying of selected page text alone
+      if (window.getSelection()?.toString()) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'c') {
+        e.preventDefault();
+        handleCopyNode(selectedNodeId);
+      } else if (key === 'x') {
+        e.preventDefault();
+        handleCutNode(selectedNodeId);
+      } else if (key === 'v') {
+        e.preventDefault();
+        handlePasteNode(selectedNodeId);
+      } else if (key === 'd') {
+        e.preventDefault();
+        handleDuplicateNode(selectedNodeId);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
 
   // Helper to find a node by ID recursively
   const findNode = (root: CauseNode, id: string): CauseNode | null => {
@@ -182,15 +339,16 @@ const App: React.FC = () => {
   };
 
   // Add a child node
-  const addChildNode = (parentId: string) => {
+  const addChildNode = (parentId: string, type: NodeType = NodeType.CAUSE) => {
+    const kind = type === NodeType.CATEGORY ? 'Category' : 'Cause';
     const newNode: CauseNode = {
       id: crypto.randomUUID(),
       parentId,
-      label: 'New Cause',
+      label: `New ${kind}`,
       description: '',
       rationale: '',
       status: NodeStatus.PENDING,
-      type: NodeType.CAUSE,
+      type,
       children: []
     };
 
@@ -210,13 +368,27 @@ const App: React.FC = () => {
       return node;
     };
 
+    const parent = treeData ? findNode(treeData, parentId) : null;
     updateActiveTree(tree => ({
       ...tree,
       treeData: addRecursive(tree.treeData)
-    }));
+    }), { label: `Add ${kind.toLowerCase()} under "${parent?.label ?? 'node'}"` });
     setSelectedNodeId(newNode.id);
   };
 
+  // Add the answers of a 5-Whys drill-down as a chain of causes under a node
+  const handleAddCauseChain = (parentId: string, steps: CauseChainStep[]) => {
+    const chain = buildCauseChain(parentId, steps);
+    if (!chain) return;
+    const parent = treeData ? findNode(treeData, parentId) : null;
+    updateActiveTree(tree => ({
+      ...tree,
+      treeData: insertSubtree(tree.treeData, parentId, chain)
+    }), { label: `Run 5 Whys on "${parent?.label ?? 'node'}"` });
+    const added = flattenTree(chain);
+    setSelectedNodeId(added[added.length - 1].id);
+  };
+
   // Delete a node with confirmation
   const deleteNode = (nodeId: string) => {
     if (!treeData) return;
@@ -247,15 +419,107 @@ const App: React.FC = () => {
     updateActiveTree(tree => ({
       ...tree,
       treeData: deleteRecursive(tree.treeData)
-    }));
+    }), { label: `Delete "${nodeToDelete?.label ?? 'node'}"` });
     if (selectedNodeId === nodeId) setSelectedNodeId(null);
   };
 
+  // Copy a branch to the in-app clipboard and, as JSON, to the system clipboard
+  const handleCopyNode = (nodeId: string) => {
+    if (!activeTree) return;
+    const clip = copySubtree(activeTree, nodeId);
+    if (!clip) return;
+    setClipboard(clip);
+    writeSystemClipboard(clip);
+  };
+
+  // Cut removes the branch together with the actions and notes that travel with it
+  const handleCutNode = (nodeId: string) => {
+    if (!activeTree || !treeData) return;
+    if (nodeId === treeData.id) {
+      alert("Cannot cut the root issue.");
+      return;
+    }
+    const clip = copySubtree(activeTree, nodeId);
+    if (!clip) return;
+    setClipboard(clip);
+    writeSystemClipboard(clip);
+
+    const { nodeIds, actionIds, noteIds } = clipboardEntityIds(clip);
+    // Drop what pointed into the branch too: dependencies on its actions and corrective action links to its causes
+    updateActiveTree(tree => ({
+      ...tree,
+      treeData: removeSubtree(tree.treeData, nodeId),
+      actions: [...actionIds].reduce(removeDependenciesOn, tree.actions.filter(a => !actionIds.has(a.id))),
+      notes: tree.notes.filter(n => !noteIds.has(n.id)),
+      resolutions: (tree.resolutions ?? []).map(r => r.linkedCauseIds.some(id => nodeIds.has(id))
+        ? { ...r, linkedCauseIds: r.linkedCauseIds.filter(id => !nodeIds.has(id)) }
+        : r)
+    }), { label: `Cut "${clip.node.label}"` });
+    if (selectedNodeId && isSameOrDescendant(treeData, nodeId, selectedNodeId)) setSelectedNodeId(null);
+  };
+
+  const pasteSubtree = (clip: SubtreeClipboard, parentId: string, verb: string) => {
+    const parent = treeData ? findNode(treeData, parentId) : null;
+    if (!parent) return;
+    const includeItems = (clip.actions.length > 0 || clip.notes.length > 0) && window.confirm(
+      `Also ${verb.toLowerCase()} the ${clip.actions.length} action(s) and ${clip.notes.length} note(s) attached to "${clip.node.label}"?`
+    );
+    const pasted = instantiateClipboard(clip, parentId, includeItems);
+    updateActiveTree(tree => ({
+      ...tree,
+      treeData: insertSubtree(tree.treeData, parentId, pasted.node),
+      actions: [...tree.actions, ...pasted.actions],
+      notes: [...tree.notes, ...pasted.notes]
+    }), { label: `${verb} "${clip.node.label}" under "${parent.label}"` });
+    setSelectedNodeId(pasted.node.id);
+  };
+
+  // Paste as a child of `parentId`. A branch copied in another tab or window arrives
+  // through the system clipboard; whichever entry was copied most recently wins.
+  const handlePasteNode = async (parentId: string) => {
+    const system = await readSystemClipboard();
+    const clip = system && (!clipboard || system.copiedAt > clipboard.copiedAt) ? system : clipboard;
+    if (!clip) {
+      alert("Nothing to paste. Copy or cut a branch first.");
+      return;
+    }
+    pasteSubtree(clip, parentId, 'Paste');
+  };
+
+  const handleDuplicateNode = (nodeId: string) => {
+    if (!activeTree || !treeData) return;
+    const node = findNode(treeData, nodeId);
+    if (!node || !node.parentId) {
+      alert("Cannot duplicate the root issue.");
+      return;
+    }
+    const clip = copySubtree(activeTree, nodeId);
+    if (clip) pasteSubtree(clip, node.parentId, 'Duplicate');
+  };
+
+  // Move a node and its subtree under a new parent (drag-and-drop in the tree view)
+  const handleMoveNode = (nodeId: string, newParentId: string) => {
+    if (!treeData) return;
+    const problem = validateMove(treeData, nodeId, newParentId);
+    if (problem) {
+      alert(problem);
+      return;
+    }
+    const node = findNode(treeData, nodeId);
+    const newParent = findNode(treeData, newParentId);
+    updateActiveTree(tree => ({
+      ...tree,
+      treeData: moveSubtree(tree.treeData, nodeId, newParentId)
+    }), { label: `Move "${node?.label ?? 'node'}" under "${newParent?.label ?? 'node'}"` });
+    setSelectedNodeId(nodeId);
+  };
+
   const handleUpdateNode = (updatedNode: CauseNode) => {
+    const before = treeData ? findNode(treeData, updatedNode.id) : null;
     updateActiveTree(tree => ({
       ...tree,
       treeData: updateTree(tree.treeData, updatedNode)
-    }));
+    }), describeNodeChange(before, updatedNode));
   };
 
   // Action Helpers
@@ -263,19 +527,130 @@ const App: React.FC = () => {
     updateActiveTree(tree => ({
       ...tree,
       actions: [...tree.actions, action]
-    }));
+    }), { label: `Add action "${action.action}"` });
+  };
+  // Completing an action while its predecessors are open needs a reason, kept on the action
+  const checkActionCompletion = (treeId: string, updated: ActionItem): ActionItem | null => {
+    const before = trees.find(t => t.id === treeId)?.actions.find(a => a.id === updated.id);
+    if (!isActionDone(updated.status)) {
+      return updated.completionOverride ? { ...updated, completionOverride: undefined } : updated;
+    }
+    if (before && isActionDone(before.status)) return updated;
+    const open = openPredecessors(trees, treeId, updated);
+    if (open.length === 0) return updated;
+    const reason = prompt(
+      `"${updated.action}" depends on actions that are still open:\n\n` +
+      open.map(d => `• ${d.action!.action} (${d.action!.status})`).join('\n') +
+      `\n\nEnter a reason to mark it ${updated.status} anyway:`
+    );
+    if (!reason?.trim()) return null;
+    return applyCompletionOverride(updated, reason.trim(), currentUser);
   };
-  const handleUpdateAction = (updated: ActionItem) => {
+
+  const handleUpdateAction = (proposed: ActionItem) => {
+    if (!activeTreeId) return;
+    const updated = checkActionCompletion(activeTreeId, proposed);
+    if (!updated) return;
+    const before = actions.find(a => a.id === updated.id);
+    const statusChanged = before && before.status !== updated.status;
     updateActiveTree(tree => ({
       ...tree,
       actions: tree.actions.map(a => a.id === updated.id ? updated : a)
-    }));
+    }), statusChanged
+      ? { label: `Set action "${updated.action}" to ${updated.status}` }
+      : { label: `Edit action "${before?.action ?? updated.action}"`, coalesceKey: `action:${updated.id}` });
+  };
+  const handleApplyChecklist = (causeId: string, checklistId: string) => {
+    const checklist = activeProject?.checklists?.find(c => c.id === checklistId);
+    if (!checklist) return;
+    if (actions.some(a => a.causeId === causeId && a.checklistId === checklistId) &&
+        !window.confirm(`"${checklist.name}" has already been applied to this cause. Add its actions again?`)) return;
+    const created = applyChecklist(checklist, causeId);
+    if (created.length === 0) {
+      alert(`"${checklist.name}" has no steps.`);
+      return;
+    }
+    updateActiveTree(tree => ({
+      ...tree,
+      actions: [...tree.actions, ...created]
+    }), { label: `Apply checklist "${checklist.name}" (${created.length} action${created.length !== 1 ? 's' : ''})` });
   };
   const handleDeleteAction = (id: string) => {
+    const action = actions.find(a => a.id === id);
     updateActiveTree(tree => ({
       ...tree,
-      actions: tree.actions.filter(a => a.id !== id)
-    }));
+      actions: removeDependenciesOn(tree.actions.filter(a => a.id !== id), id)
+    }), { label: `Delete action "${action?.action ?? ''}"` });
+  };
+
+  // Tagup edits can touch any investigation in the project, not just the active one
+  const handleTagupUpdateAction = (treeId: string, proposed: ActionItem): boolean => {
+    const updated = checkActionCompletion(treeId, proposed);
+    if (!updated) return false;
+    const before = trees.find(t => t.id === treeId)?.actions.find(a => a.id === updated.id);
+    updateTreeById(treeId, tree => ({
+      ...tree,
+      actions: tree.actions.map(a => a.id === updated.id ? updated : a)
+    }), before && before.status !== updated.status
+      ? { label: `Set action "${updated.action}" to ${updated.status}` }
+      : { label: `Add update to action "${updated.action}"` });
+    return true;
+  };
+
+  const handleTagupUpdateResolution = (treeId: string, updated: ResolutionItem) => {
+    const before = trees.find(t => t.id === treeId)?.resolutions?.find(r => r.id === updated.id);
+    updateTreeById(treeId, tree => ({
+      ...tree,
+      resolutions: (tree.resolutions ?? []).map(r =>
+        r.id === updated.id ? { ...updated, updatedAt: new Date().toISOString() } : r
+      )
+    }), before && before.status !== updated.status
+      ? { label: `Set resolution "${updated.title}" to ${updated.status}` }
+      : { label: `Add update to resolution "${updated.title}"` });
+  };
+
+  const handleReschedule = useCallback((change: RescheduleChange) => {
+    updateTreeById(change.treeId, tree => applyReschedule(tree, change, currentUser), { label: describeReschedule(change) });
+  }, [updateTreeById, currentUser]);
+
+  const handleTagupSessionChange = useCallback((updater: (session: TagupSession) => TagupSession) => {
+    setTagupSession(prev => prev && updater(prev));
+  }, []);
+
+  const handleStartRecording = () => {
+    if (!activeProjectId) return;
+    setRecording(startRecording(activeProjectId, projectTrees, currentUser));
+  };
+
+  const handleStopRecording = () => {
+    if (!recording) return;
+    const session = { ...recording, endedAt: new Date().toISOString() };
+    setFinishedRecording({ session, changes: diffSession(session, trees.filter(t => t.projectId === session.projectId)) });
+    setRecording(null);
+  };
+
+  const handleActionCsvSelected = async (file: File) => {
+    try {
+      setActionCsvImport({ fileName: file.name, rows: await parseCsvFile(file) });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to import file');
+    }
+  };
+
+  const handleActionCsvConfirm = (createdRows: ActionItem[], updatedRows: ActionItem[]) => {
+    if (!activeTreeId) return;
+    // The preview already refuses rows that break the completion rule; this is the same gate the editors use
+    const passed = (rows: ActionItem[]) => rows
+      .map(a => checkActionCompletion(activeTreeId, a))
+      .filter((a): a is ActionItem => a !== null);
+    const created = passed(createdRows);
+    const updated = passed(updatedRows);
+    const byId = new Map(updated.map(a => [a.id, a]));
+    updateActiveTree(tree => ({
+      ...tree,
+      actions: [...tree.actions.map(a => byId.get(a.id) ?? a), ...created]
+    }), { label: `Import actions from CSV (${created.length} new, ${updated.length} updated)` });
+    setActionCsvImport(null);
   };
 
   // Note Helpers
@@ -283,13 +658,23 @@ const App: React.FC = () => {
     updateActiveTree(tree => ({
       ...tree,
       notes: [...tree.notes, note]
-    }));
+    }), { label: note.isEvidence ? 'Add evidence note' : 'Add note' });
+  };
+  const handleUpdateNote = (updated: Note) => {
+    const before = notes.find(n => n.id === updated.id);
+    const evidenceChanged = before && before.isEvidence !== updated.isEvidence;
+    updateActiveTree(tree => ({
+      ...tree,
+      notes: tree.notes.map(n => n.id === updated.id ? updated : n)
+    }), evidenceChanged
+      ? { label: updated.isEvidence ? 'Mark note as evidence' : 'Unmark note as evidence' }
+      : { label: 'Edit note', coalesceKey: `note:${updated.id}` });
   };
   const handleDeleteNote = (id: string) => {
     updateActiveTree(tree => ({
       ...tree,
       notes: tree.notes.filter(n => n.id !== id)
-    }));
+    }), { label: 'Delete note' });
   };
 
   // Resolution Helpers
@@ -297,21 +682,26 @@ const App: React.FC = () => {
     updateActiveTree(tree => ({
       ...tree,
       resolutions: [...(tree.resolutions ?? []), resolution]
-    }));
+    }), { label: `Add resolution "${resolution.title}"` });
   };
   const handleUpdateResolution = (updated: ResolutionItem) => {
+    const before = resolutions.find(r => r.id === updated.id);
+    const statusChanged = before && before.status !== updated.status;
     updateActiveTree(tree => ({
       ...tree,
       resolutions: (tree.resolutions ?? []).map(r =>
         r.id === updated.id ? { ...updated, updatedAt: new Date().toISOString() } : r
       )
-    }));
+    }), statusChanged
+      ? { label: `Set resolution "${updated.title}" to ${updated.status}` }
+      : { label: `Edit resolution "${before?.title ?? updated.title}"`, coalesceKey: `resolution:${updated.id}` });
   };
   const handleDeleteResolution = (id: string) => {
+    const resolution = resolutions.find(r => r.id === id);
     updateActiveTree(tree => ({
       ...tree,
       resolutions: (tree.resolutions ?? []).filter(r => r.id !== id)
-    }));
+    }), { label: `Delete resolution "${resolution?.title ?? ''}"` });
   };
 
   // Project management handlers
@@ -344,6 +734,9 @@ const App: React.FC = () => {
 
     setProjects(prev => prev.filter(p => p.id !== id));
     setTrees(prev => prev.filter(t => t.projectId !== id));
+    setHistory(prev => trees
+      .filter(t => t.projectId === id)
+      .reduce((acc, t) => clearTreeHistory(acc, t.id), prev));
 
     if (activeProjectId === id) {
       const remaining = projects.filter(p => p.id !== id);
@@ -359,6 +752,24 @@ const App: React.FC = () => {
     ));
   };
 
+  const handleUpdateProjectMembers = (id: string, members: string[]) => {
+    setProjects(prev => prev.map(p =>
+      p.id === id ? { ...p, members, updatedAt: new Date().toISOString() } : p
+    ));
+  };
+
+  const handleUpdateProjectChecklists = (id: string, checklists: ActionChecklist[]) => {
+    setProjects(prev => prev.map(p =>
+      p.id === id ? { ...p, checklists, updatedAt: new Date().toISOString() } : p
+    ));
+  };
+
+  const handleUpdateProjectWorkflow = (id: string, workflow: WorkflowDefinition | undefined) => {
+    setProjects(prev => prev.map(p =>
+      p.id === id ? { ...p, workflow, updatedAt: new Date().toISOString() } : p
+    ));
+  };
+
   const handleSelectProject = (id: string) => {
     setActiveProjectId(id);
     // Select first tree in new project, if any
@@ -368,10 +779,16 @@ const App: React.FC = () => {
     setCurrentView('tree');
   };
 
-  const handleExportProject = (id: string) => {
+  const handleExportProject = async (id: string) => {
     const project = projects.find(p => p.id === id);
     if (project) {
-      exportProjectAsJson(project, trees);
+      let attachments: Record<string, string> = {};
+      try {
+        attachments = await loadAttachmentDataUrls(trees.filter(t => t.projectId === id));
+      } catch {
+        alert('Attachments could not be read and will be missing from the export.');
+      }
+      exportProjectAsJson(project, trees, attachments);
       setLastExportTimestamp();
       setLastExportTs(new Date().toISOString());
       setHasUnsavedChanges(false);
@@ -386,28 +803,51 @@ const App: React.FC = () => {
         // It's a project import
         const importData = result as ProjectImportData;
         const newProjectId = crypto.randomUUID();
+        const projectCheck = validateProject(importData.project);
+        const importedProject = projectCheck.repaired;
 
         // Check for project name conflict
         const existingProject = projects.find(
-          p => p.name.trim().toLowerCase() === importData.project.name.trim().toLowerCase()
+          p => p.name.trim().toLowerCase() === importedProject.name.trim().toLowerCase()
         );
 
-        let projectName = importData.project.name;
+        let projectName = importedProject.name;
         if (existingProject) {
-          projectName = `${importData.project.name} (Imported)`;
+          projectName = `${importedProject.name} (Imported)`;
         }
 
         const newProject: Project = {
-          ...importData.project,
+          ...importedProject,
           id: newProjectId,
           name: projectName,
           updatedAt: new Date().toISOString(),
         };
 
-        const importedTrees: SavedTreeV2[] = importData.trees.map(t => ({
-          ...t,
-          id: crypto.randomUUID(),
+        // Project imports skip the import dialog, so offer repair here
+        const results = importData.trees.map(validateTree);
+        const issues = [...projectCheck.issues, ...results.flatMap(r => r.issues)];
+        if (issues.length > 0) {
+          const examples = issues.slice(0, 5).map(i => `• ${i.entity}: ${i.message}`).join('\n');
+          const more = issues.length > 5 ? `\n…and ${issues.length - 5} more` : '';
+          if (!confirm(`Found ${issues.length} problem${issues.length !== 1 ? 's' : ''} in "${importedProject.name}":\n${examples}${more}\n\nRepair them automatically and import?`)) {
+            return;
+          }
+        }
+
+        if (importData.attachments) {
+          const rejected = await saveAttachmentDataUrls(importData.attachments);
+          if (rejected > 0) {
+            alert(`${rejected} attachment${rejected !== 1 ? 's were' : ' was'} not embedded in the file and will be missing.`);
+          }
+        }
+
+        const newIds = results.map(() => crypto.randomUUID());
+        const treeIds = new Map(results.map((r, i) => [r.repaired.id, newIds[i]]));
+        const importedTrees: SavedTreeV2[] = results.map((r, i) => ({
+          ...r.repaired,
+          id: newIds[i],
           projectId: newProjectId,
+          actions: remapDependencyTrees(r.repaired.actions, treeIds),
         }));
 
         setProjects(prev => [...prev, newProject]);
@@ -431,24 +871,49 @@ const App: React.FC = () => {
   }
 
   // Tree management handlers
-  const handleCreateTree = () => {
+  const handleCreateTree = (name: string, template: InvestigationTemplate) => {
     if (!activeProjectId) return;
-    const name = prompt('Investigation name:', 'New Investigation');
-    if (!name) return;
     const newTree: SavedTreeV2 = {
       id: crypto.randomUUID(),
       projectId: activeProjectId,
       name,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
-      treeData: createInitialTree(name),
+      treeData: instantiateTemplate(template, name),
       actions: [],
       notes: [],
-      resolutions: []
+      resolutions: [],
+      schemaVersion: CURRENT_TREE_SCHEMA_VERSION
     };
     setTrees(prev => [...prev, newTree]);
     setActiveTreeId(newTree.id);
     setSelectedNodeId(null);
+    setShowNewTree(false);
+  };
+
+  // Templates are stored on the project so the whole team reuses them
+  const handleSaveBranchAsTemplate = (node: CauseNode) => {
+    if (!activeProjectId) return;
+    const name = prompt('Template name:', node.label);
+    if (!name) return;
+    const template = createTemplateFromBranch(node, name, `Saved from "${activeTree?.name ?? node.label}"`);
+    if (template.nodes.length === 0) {
+      alert('This branch has no causes to save.');
+      return;
+    }
+    setProjects(prev => prev.map(p =>
+      p.id === activeProjectId
+        ? { ...p, templates: [...(p.templates ?? []), template], updatedAt: new Date().toISOString() }
+        : p
+    ));
+  };
+
+  const handleDeleteTemplate = (templateId: string) => {
+    setProjects(prev => prev.map(p =>
+      p.id === activeProjectId
+        ? { ...p, templates: (p.templates ?? []).filter(t => t.id !== templateId), updatedAt: new Date().toISOString() }
+        : p
+    ));
   };
 
   const handleDeleteTree = (id: string) => {
@@ -456,6 +921,7 @@ const App: React.FC = () => {
     if (!window.confirm(`Delete investigation "${tree?.name}"? This cannot be undone.`)) return;
     const remaining = trees.filter(t => t.id !== id);
     setTrees(remaining);
+    setHistory(prev => clearTreeHistory(prev, id));
     if (activeTreeId === id) {
       // Select next tree in same project
       const projectRemaining = remaining.filter(t => t.projectId === activeProjectId);
@@ -476,6 +942,20 @@ const App: React.FC = () => {
     ));
   };
 
+  // Collapsed branches are view state: persisted per tree but not undoable
+  const handleToggleCollapse = (nodeId: string) => {
+    setTrees(prev => prev.map(t => {
+      if (t.id !== activeTreeId) return t;
+      const collapsed = t.collapsedNodeIds ?? [];
+      return {
+        ...t,
+        collapsedNodeIds: collapsed.includes(nodeId)
+          ? collapsed.filter(id => id !== nodeId)
+          : [...collapsed, nodeId]
+      };
+    }));
+  };
+
   const handleFileSelected = async (file: File) => {
     try {
       const parsed = await parseImportFile(file);
@@ -488,36 +968,39 @@ const App: React.FC = () => {
   const handleImportConfirm = (selected: SavedTree[], conflictMode: 'append' | 'overwrite') => {
     if (!activeProjectId) return;
     let firstResultId: string | null = null;
-
-    setTrees(prev => {
-      const updatedTrees = [...prev];
-
-      for (const importedTree of selected) {
-        const normalizedName = importedTree.name.trim().toLowerCase();
-        // Only check for conflicts within current project
-        const existingIndex = updatedTrees.findIndex(
-          t => t.projectId === activeProjectId && t.name.trim().toLowerCase() === normalizedName
-        );
-
-        if (existingIndex !== -1 && conflictMode === 'overwrite') {
-          const existingId = updatedTrees[existingIndex].id;
-          updatedTrees[existingIndex] = {
-            ...importedTree,
-            id: existingId,
-            projectId: activeProjectId,
-            updatedAt: new Date().toISOString(),
-          } as SavedTreeV2;
-          if (!firstResultId) firstResultId = existingId;
-        } else {
-          const newId = crypto.randomUUID();
-          updatedTrees.push({ ...importedTree, id: newId, projectId: activeProjectId } as SavedTreeV2);
-          if (!firstResultId) firstResultId = newId;
-        }
+    const updatedTrees = [...trees];
+    const treeIds = new Map<string, string>();   // Id in the file -> id in the app
+
+    for (const importedTree of selected) {
+      const normalizedName = importedTree.name.trim().toLowerCase();
+      // Only check for conflicts within current project
+      const existingIndex = updatedTrees.findIndex(
+        t => t.projectId === activeProjectId && t.name.trim().toLowerCase() === normalizedName
+      );
+
+      if (existingIndex !== -1 && conflictMode === 'overwrite') {
+        const existingId = updatedTrees[existingIndex].id;
+        updatedTrees[existingIndex] = {
+          ...importedTree,
+          id: existingId,
+          projectId: activeProjectId,
+          updatedAt: new Date().toISOString(),
+        } as SavedTreeV2;
+        treeIds.set(importedTree.id, existingId);
+        if (!firstResultId) firstResultId = existingId;
+      } else {
+        const newId = crypto.randomUUID();
+        updatedTrees.push({ ...importedTree, id: newId, projectId: activeProjectId } as SavedTreeV2);
+        treeIds.set(importedTree.id, newId);
+        if (!firstResultId) firstResultId = newId;
       }
+    }
 
-      return updatedTrees;
-    });
-
+    // Dependencies between the imported investigations follow them to their new ids
+    const importedIds = new Set(treeIds.values());
+    setTrees(updatedTrees.map(t =>
+      importedIds.has(t.id) ? { ...t, actions: remapDependencyTrees(t.actions, treeIds) } : t
+    ));
     if (firstResultId) {
       setActiveTreeId(firstResultId);
     }
@@ -543,6 +1026,18 @@ const App: React.FC = () => {
     setHasUnsavedChanges(false);
   };
 
+  // FMEA worksheets are a hand-off format, not a backup, so they leave the export reminder alone
+  const handleExportFmeaCsv = (id: string) => {
+    const tree = trees.find(t => t.id === id);
+    if (tree) exportTreeAsFmeaCsv(tree);
+  };
+
+  const handleExportFmeaXlsx = (ids: string[]) => {
+    const selected = projectTrees.filter(t => ids.includes(t.id));
+    if (selected.length === 0) return;
+    exportTreesAsFmeaXlsx(selected, selected.length === 1 ? selected[0].name : activeProject?.name ?? 'RCCA_Investigations');
+  };
+
   const handleUpdateSettings = (newSettings: AppSettings) => {
     setSettings(newSettings);
     saveSettings(newSettings);
@@ -558,11 +1053,11 @@ const App: React.FC = () => {
 
   const handleGenerateReport = (id: string) => {
     const tree = trees.find(t => t.id === id);
-    if (tree) openReportInNewTab(generateSingleReport(tree));
+    if (tree) openPendingReportInNewTab(loadAttachmentDataUrls([tree]).then(data => generateSingleReport(tree, data)));
   };
 
   const handleGenerateBulkReport = () => {
-    if (projectTrees.length > 0) openReportInNewTab(generateBulkReport(projectTrees));
+    if (projectTrees.length > 0) openPendingReportInNewTab(loadAttachmentDataUrls(projectTrees).then(data => generateBulkReport(projectTrees, data)));
   };
 
   const handleDashboardSelectTree = (id: string) => {
@@ -571,12 +1066,47 @@ const App: React.FC = () => {
     setCurrentView('tree');
   };
 
-  const handleNavigateToNode = (nodeId: string) => {
+  const handleNavigateToNode = (nodeId: string, treeId: string | null = activeTreeId) => {
+    const tree = trees.find(t => t.id === treeId);
+    // Expand any collapsed ancestors so the node is visible
+    if (tree && (tree.collapsedNodeIds ?? []).length > 0) {
+      const ancestors = new Set(getAncestorIds(tree.treeData, nodeId));
+      setTrees(prev => prev.map(t =>
+        t.id === treeId
+          ? { ...t, collapsedNodeIds: (t.collapsedNodeIds ?? []).filter(id => !ancestors.has(id)) }
+          : t
+      ));
+    }
+    if (treeId && treeId !== activeTreeId) setActiveTreeId(treeId);
     setSelectedNodeId(nodeId);
     setCurrentView('tree');
     setInspectorOpen(true);
   };
 
+  // Workload items can live in another project; switch to it before opening the tree
+  const handleOpenWorkloadItem = (treeId: string, nodeId: string | null) => {
+    const tree = trees.find(t => t.id === treeId);
+    if (!tree) return;
+    if (tree.projectId !== activeProjectId) setActiveProjectId(tree.projectId);
+    if (nodeId) handleNavigateToNode(nodeId, treeId);
+    else handleDashboardSelectTree(treeId);
+  };
+
+  const handleSearchSelect = (result: SearchResult) => {
+    setShowSearch(false);
+    if (result.kind === 'resolution') {
+      setActiveTreeId(result.treeId);
+      setSelectedNodeId(null);
+      setCurrentView('resolutions');
+      return;
+    }
+    if (result.nodeId) {
+      handleNavigateToNode(result.nodeId, result.treeId);
+    } else {
+      handleDashboardSelectTree(result.treeId);
+    }
+  };
+
   if (!initialized) return null;
 
   return (
@@ -626,6 +1156,38 @@ const App: React.FC = () => {
             >
               <Shield size={14} /> Corrective
             </button>
+            <button
+              onClick={() => setCurrentView('risk')}
+              className={`flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium transition-colors ${currentView === 'risk' ? 'bg-indigo-600 text-white' : ''}`}
+              style={currentView !== 'risk' ? { backgroundColor: 'var(--color-surface-tertiary)', color: 'var(--color-text-secondary)', borderLeft: '1px solid var(--color-border-primary)' } : { borderLeft: '1px solid var(--color-border-primary)' }}
+              title="FMEA risk ratings for every cause in the current investigation"
+            >
+              <Flame size={14} /> Risk
+            </button>
+            <button
+              onClick={() => setCurrentView('tagup')}
+              className={`flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium transition-colors ${currentView === 'tagup' ? 'bg-indigo-600 text-white' : ''}`}
+              style={currentView !== 'tagup' ? { backgroundColor: 'var(--color-surface-tertiary)', color: 'var(--color-text-secondary)', borderLeft: '1px solid var(--color-border-primary)' } : { borderLeft: '1px solid var(--color-border-primary)' }}
+              title="Daily tagup across all unresolved investigations in the project"
+            >
+              <Timer size={14} /> Tagup
+            </button>
+            <button
+              onClick={() => setCurrentView('timeline')}
+              className={`flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium transition-colors ${currentView === 'timeline' ? 'bg-indigo-600 text-white' : ''}`}
+              style={currentView !== 'timeline' ? { backgroundColor: 'var(--color-surface-tertiary)', color: 'var(--color-text-secondary)', borderLeft: '1px solid var(--color-border-primary)' } : { borderLeft: '1px solid var(--color-border-primary)' }}
+              title="Timeline of actions and corrective actions"
+            >
+              <CalendarRange size={14} /> Timeline
+            </button>
+            <button
+              onClick={() => setCurrentView('workload')}
+              className={`flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium transition-colors ${currentView === 'workload' ? 'bg-indigo-600 text-white' : ''}`}
+              style={currentView !== 'workload' ? { backgroundColor: 'var(--color-surface-tertiary)', color: 'var(--color-text-secondary)', borderLeft: '1px solid var(--color-border-primary)' } : { borderLeft: '1px solid var(--color-border-primary)' }}
+              title="Actions and corrective actions by person, across investigations"
+            >
+              <Users size={14} /> Workload
+            </button>
           </div>
 
           {/* Report button - visible only in tree view */}
@@ -641,6 +1203,35 @@ const App: React.FC = () => {
             </button>
           )}
 
+          {/* Meeting recording */}
+          {activeProjectId && (
+            <SessionRecorder
+              session={recording}
+              onStart={handleStartRecording}
+              onStop={handleStopRecording}
+            />
+          )}
+
+          {/* Search */}
+          <button
+            onClick={() => setShowSearch(true)}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm transition-colors"
+            style={{ backgroundColor: 'var(--color-surface-tertiary)', color: 'var(--color-text-muted)' }}
+            title="Search all investigations in this project (Ctrl+K)"
+          >
+            <Search size={16} />
+            <span className="text-xs">Ctrl+K</span>
+          </button>
+
+          {/* Undo / Redo */}
+          {activeTreeId && (
+            <HistoryPanel
+              history={getTreeHistory(history, activeTreeId)}
+              onUndo={handleUndo}
+              onRedo={handleRedo}
+            />
+          )}
+
           {/* Project Selector */}
           <ProjectSelector
             projects={projects}
@@ -650,6 +1241,9 @@ const App: React.FC = () => {
             onCreateProject={handleCreateProject}
             onDeleteProject={handleDeleteProject}
             onRenameProject={handleRenameProject}
+            onUpdateMembers={handleUpdateProjectMembers}
+            onUpdateChecklists={handleUpdateProjectChecklists}
+            onUpdateWorkflow={handleUpdateProjectWorkflow}
             onExportProject={handleExportProject}
             onImportProject={handleImportProject}
           />
@@ -659,13 +1253,14 @@ const App: React.FC = () => {
             trees={projectTrees}
             activeTreeId={activeTreeId}
             onSelectTree={(id) => { setActiveTreeId(id); setSelectedNodeId(null); setCurrentView('tree'); }}
-            onCreateTree={handleCreateTree}
+            onCreateTree={() => setShowNewTree(true)}
             onDeleteTree={handleDeleteTree}
             onRenameTree={handleRenameTree}
             onToggleResolved={handleToggleResolved}
             onFileSelected={handleFileSelected}
             onExportTree={handleExportTree}
             onExportAll={handleExportAll}
+            onExportFmeaWorkbook={() => handleExportFmeaXlsx(projectTrees.map(t => t.id))}
             onGenerateReport={handleGenerateReport}
             onGenerateBulkReport={handleGenerateBulkReport}
           />
@@ -711,17 +1306,55 @@ const App: React.FC = () => {
           onGenerateReport={handleGenerateReport}
           onGenerateBulkReport={handleGenerateBulkReport}
         />
+      ) : currentView === 'tagup' ? (
+        <TagupView
+          trees={projectTrees}
+          session={tagupSession}
+          currentUser={currentUser}
+          onStart={(timeboxSeconds) => setTagupSession(createTagupSession(projectTrees, currentUser, timeboxSeconds))}
+          onSessionChange={handleTagupSessionChange}
+          onFinish={() => setTagupSession(prev => prev && { ...prev, endedAt: new Date().toISOString(), activeItemKey: null })}
+          onClose={() => setTagupSession(null)}
+          onOpenMinutes={() => { if (tagupSession) openReportInNewTab(generateTagupMinutes(tagupSession, projectTrees)); }}
+          workflow={workflow}
+          onUpdateAction={handleTagupUpdateAction}
+          onUpdateResolution={handleTagupUpdateResolution}
+          onOpenTree={handleDashboardSelectTree}
+        />
+      ) : currentView === 'timeline' ? (
+        <TimelineView
+          trees={projectTrees}
+          activeTreeId={activeTreeId}
+          onReschedule={handleReschedule}
+          onNavigateToNode={handleNavigateToNode}
+        />
+      ) : currentView === 'workload' ? (
+        <WorkloadView
+          trees={trees}
+          projects={projects}
+          activeProjectId={activeProjectId}
+          currentUser={currentUser}
+          onOpenItem={handleOpenWorkloadItem}
+        />
       ) : currentView === 'investigate' ? (
         activeTree ? (
           <InvestigationActionsSummary
+            treeId={activeTree.id}
+            trees={projectTrees}
             actions={actions}
             allNodes={allNodes}
             treeName={activeTree.name}
+            people={people}
+            currentUser={currentUser}
+            workflow={workflow}
             onAddAction={handleAddAction}
             onUpdateAction={handleUpdateAction}
             onDeleteAction={handleDeleteAction}
             onNavigateToNode={handleNavigateToNode}
+            onNavigateToTreeNode={handleNavigateToNode}
             onGenerateReport={() => handleGenerateReport(activeTree.id)}
+            onExportCsv={() => exportActionsAsCsv(activeTree)}
+            onImportCsv={handleActionCsvSelected}
           />
         ) : (
           <div className="flex-1 flex items-center justify-center" style={{ color: 'var(--color-text-muted)' }}>
@@ -734,6 +1367,9 @@ const App: React.FC = () => {
             resolutions={resolutions}
             allRootCauses={allRootCauses}
             treeName={activeTree.name}
+            people={people}
+            currentUser={currentUser}
+            workflow={workflow}
             onAddResolution={handleAddResolution}
             onUpdateResolution={handleUpdateResolution}
             onDeleteResolution={handleDeleteResolution}
@@ -745,19 +1381,81 @@ const App: React.FC = () => {
             <p>No investigation selected. Create or import one using the dropdown above.</p>
           </div>
         )
+      ) : currentView === 'risk' ? (
+        activeTree ? (
+          <RiskTableView
+            treeData={activeTree.treeData}
+            resolutions={resolutions}
+            treeName={activeTree.name}
+            onNavigateToNode={handleNavigateToNode}
+            onGenerateReport={() => handleGenerateReport(activeTree.id)}
+            onExportCsv={() => handleExportFmeaCsv(activeTree.id)}
+            onExportXlsx={() => handleExportFmeaXlsx([activeTree.id])}
+          />
+        ) : (
+          <div className="flex-1 flex items-center justify-center" style={{ color: 'var(--color-text-muted)' }}>
+            <p>No investigation selected. Create or import one using the dropdown above.</p>
+          </div>
+        )
       ) : treeData ? (
         <div className="flex-1 flex overflow-hidden relative">
           {/* Left: Visualization */}
           <div className="flex-1 h-full relative">
+            {treeLayout === 'fishbone' ? (
+              <FishboneVisualizer
+                  data={treeData}
+                  selectedId={selectedNodeId}
+                  collapsedNodeIds={activeTree?.collapsedNodeIds}
+                  onSelectNode={(node) => { setSelectedNodeId(node.id); setInspectorOpen(true); }}
+                  onAddNode={addChildNode}
+              />
+            ) : (
               <TreeVisualizer
                   data={treeData}
                   selectedId={selectedNodeId}
                   actions={actions}
                   resolutions={resolutions}
                   treeName={activeTree?.name}
+                  collapsedNodeIds={activeTree?.collapsedNodeIds}
+                  onToggleCollapse={handleToggleCollapse}
                   onSelectNode={(node) => { setSelectedNodeId(node.id); setInspectorOpen(true); }}
                   onAddNode={addChildNode}
+                  onMoveNode={handleMoveNode}
               />
+            )}
+
+            {/* Layout toggle and analysis */}
+            <div className="absolute bottom-4 left-4 z-20 flex gap-2">
+              <div className="flex rounded-lg shadow overflow-hidden text-xs font-medium" style={{ backgroundColor: 'var(--color-surface-primary)', border: '1px solid var(--color-border-primary)' }}>
+                {([['tree', 'Tree', GitBranch], ['fishbone', 'Fishbone', Fish]] as const).map(([layout, label, Icon]) => (
+                  <button
+                    key={layout}
+                    onClick={() => setTreeLayout(layout)}
+                    className={`px-3 py-1.5 flex items-center gap-1.5 transition-colors ${treeLayout === layout ? 'bg-indigo-600 text-white' : ''}`}
+                    style={treeLayout !== layout ? { color: 'var(--color-text-secondary)' } : undefined}
+                    title={`Show as ${label.toLowerCase()} diagram`}
+                  >
+                    <Icon size={14} /> {label}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={() => setShowCutSets(true)}
+                className="px-3 py-1.5 rounded-lg shadow text-xs font-medium flex items-center gap-1.5"
+                style={{ backgroundColor: 'var(--color-surface-primary)', color: 'var(--color-text-secondary)', border: '1px solid var(--color-border-primary)' }}
+                title="Combinations of leaf causes that produce the problem, using the logic gates"
+              >
+                <Sigma size={14} /> Cut Sets
+              </button>
+              <button
+                onClick={() => setShowSensitivity(true)}
+                className="px-3 py-1.5 rounded-lg shadow text-xs font-medium flex items-center gap-1.5"
+                style={{ backgroundColor: 'var(--color-surface-primary)', color: 'var(--color-text-secondary)', border: '1px solid var(--color-border-primary)' }}
+                title="Problem probability rolled up from the leaf causes, and which causes matter most"
+              >
+                <Percent size={14} /> Probability
+              </button>
+            </div>
           </div>
 
           {/* Right: Inspector */}
@@ -767,16 +1465,33 @@ const App: React.FC = () => {
               notes={notes}
               resolutions={resolutions}
               allRootCauses={allRootCauses}
+              auditLog={activeTree?.auditLog ?? []}
+              people={people}
+              currentUser={currentUser}
               onUpdateNode={handleUpdateNode}
               onDeleteNode={deleteNode}
+              onAddCauseChain={handleAddCauseChain}
+              onSaveAsTemplate={handleSaveBranchAsTemplate}
+              clipboardLabel={clipboard?.node.label ?? null}
+              onCopyNode={handleCopyNode}
+              onCutNode={handleCutNode}
+              onPasteNode={handlePasteNode}
+              onDuplicateNode={handleDuplicateNode}
               onAddAction={handleAddAction}
               onUpdateAction={handleUpdateAction}
               onDeleteAction={handleDeleteAction}
+              checklists={activeProject?.checklists ?? []}
+              suggestedChecklistIds={activeTree && selectedNodeId
+                ? (activeProject?.checklists ?? []).filter(c => isChecklistSuggested(c, activeTree.treeData, selectedNodeId)).map(c => c.id)
+                : []}
+              onApplyChecklist={(checklistId) => { if (selectedNodeId) handleApplyChecklist(selectedNodeId, checklistId); }}
               onAddNote={handleAddNote}
+              onUpdateNote={handleUpdateNote}
               onDeleteNote={handleDeleteNote}
               onAddResolution={handleAddResolution}
               onUpdateResolution={handleUpdateResolution}
               onDeleteResolution={handleDeleteResolution}
+              workflow={workflow}
               isOpen={inspectorOpen}
               onClose={() => setInspectorOpen(false)}
               width={inspectorWidth}
@@ -812,6 +1527,64 @@ const App: React.FC = () => {
         />
       )}
 
+      {showSearch && (
+        <SearchPalette
+          trees={projectTrees}
+          onSelectResult={handleSearchSelect}
+          onClose={() => setShowSearch(false)}
+        />
+      )}
+
+      {showCutSets && treeData && (
+        <CutSetDialog
+          treeData={treeData}
+          onSelectNode={(nodeId) => { setSelectedNodeId(nodeId); setInspectorOpen(true); setShowCutSets(false); }}
+          onClose={() => setShowCutSets(false)}
+        />
+      )}
+
+      {showSensitivity && treeData && (
+        <SensitivityDialog
+          treeData={treeData}
+          onSelectNode={(nodeId) => { setSelectedNodeId(nodeId); setInspectorOpen(true); setShowSensitivity(false); }}
+          onClose={() => setShowSensitivity(false)}
+        />
+      )}
+
+      {showNewTree && (
+        <NewInvestigationDialog
+          projectTemplates={activeProject?.templates ?? []}
+          onCreate={handleCreateTree}
+          onDeleteTemplate={handleDeleteTemplate}
+          onClose={() => setShowNewTree(false)}
+        />
+      )}
+
+      {finishedRecording && (
+        <MinutesDialog
+          session={finishedRecording.session}
+          changes={finishedRecording.changes}
+          onOpenHtml={() => openReportInNewTab(generateSessionMinutes(finishedRecording.session, finishedRecording.changes))}
+          onDownloadMarkdown={() => exportMinutesAsMarkdown(generateMinutesMarkdown(finishedRecording.session, finishedRecording.changes), finishedRecording.session.startedAt)}
+          onClose={() => setFinishedRecording(null)}
+        />
+      )}
+
+      {actionCsvImport && activeTree && (
+        <ActionCsvImportDialog
+          fileName={actionCsvImport.fileName}
+          rows={actionCsvImport.rows}
+          actions={actions}
+          treeData={activeTree.treeData}
+          treeId={activeTree.id}
+          trees={trees}
+          workflow={workflow}
+          currentUser={currentUser}
+          onConfirm={handleActionCsvConfirm}
+          onClose={() => setActionCsvImport(null)}
+        />
+      )}
+
       {importCandidates && (
         <ImportDialog
           importCandidates={importCandidates}
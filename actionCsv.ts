@@ -0,0 +1,265 @@
+import { ActionItem, ActionUpdate, CauseNode, SavedTree, WorkflowDefinition } from './types';
+import { CellValue } from './csv';
+import { isActionDone, openPredecessors } from './dependencies';
+import { checkActionTransition } from './workflow';
+
+// CSV round trip for the RAIL (investigation action list). Exported files carry the
+// action id so that re-importing an edited sheet updates actions instead of duplicating them.
+
+export type ActionCsvField =
+  | 'id'
+  | 'causePath'
+  | 'action'
+  | 'rationale'
+  | 'assignee'
+  | 'assignedDate'
+  | 'dueDate'
+  | 'status'
+  | 'latestUpdate';
+
+export const ACTION_CSV_FIELDS: { key: ActionCsvField; label: string; aliases: string[] }[] = [
+  { key: 'id', label: 'ID', aliases: ['id', 'action id'] },
+  { key: 'causePath', label: 'Cause Path', aliases: ['cause path', 'cause', 'path', 'linked cause'] },
+  { key: 'action', label: 'Action', aliases: ['action', 'title', 'task', 'description'] },
+  { key: 'rationale', label: 'Rationale', aliases: ['rationale', 'why', 'reason'] },
+  { key: 'assignee', label: 'Assignee', aliases: ['assignee', 'owner', 'assigned to', 'who'] },
+  { key: 'assignedDate', label: 'Assigned Date', aliases: ['assigned date', 'assigned', 'start date', 'created'] },
+  { key: 'dueDate', label: 'Due Date', aliases: ['due date', 'due', 'target date', 'when'] },
+  { key: 'status', label: 'Status', aliases: ['status', 'state'] },
+  { key: 'latestUpdate', label: 'Latest Update', aliases: ['latest update', 'update', 'comment', 'progress'] },
+];
+
+const ACTION_STATUSES: ActionItem['status'][] = ['Open', 'In Progress', 'Complete', 'Blocked', 'Closed'];
+
+export const CAUSE_PATH_SEPARATOR = ' → ';
+
+// Column index for each field; fields left out are not imported
+export type ActionColumnMapping = Partial<Record<ActionCsvField, number>>;
+
+// Labels from the problem statement down to the node, or null if it is not in the tree
+export function getCausePath(root: CauseNode, nodeId: string): string[] | null {
+  if (root.id === nodeId) return [root.label];
+  for (const child of root.children ?? []) {
+    const path = getCausePath(child, nodeId);
+    if (path) return [root.label, ...path];
+  }
+  return null;
+}
+
+export function latestUpdate(item: { updates?: ActionUpdate[] }): ActionUpdate | undefined {
+  return [...(item.updates ?? [])].sort((a, b) => a.createdAt.localeCompare(b.createdAt)).pop();
+}
+
+export function buildActionCsvRows(actions: ActionItem[], root: CauseNode): CellValue[][] {
+  const header = [...ACTION_CSV_FIELDS.map(f => f.label), 'Latest Update By', 'Latest Update At'];
+  return [
+    header,
+    ...actions.map(action => {
+      const update = latestUpdate(action);
+      return [
+        action.id,
+        getCausePath(root, action.causeId)?.join(CAUSE_PATH_SEPARATOR) ?? '',
+        action.action,
+        action.rationale,
+        action.assignee,
+        action.assignedDate,
+        action.dueDate,
+        action.status,
+        update?.content ?? '',
+        update?.author ?? '',
+        update?.createdAt ?? '',
+      ];
+    }),
+  ];
+}
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Maps each field to the first header matching its label or one of its aliases
+export function guessActionColumnMapping(headers: string[]): ActionColumnMapping {
+  const normalized = headers.map(normalize);
+  const mapping: ActionColumnMapping = {};
+  const used = new Set<number>();
+  for (const field of ACTION_CSV_FIELDS) {
+    const index = normalized.findIndex((h, i) => !used.has(i) && field.aliases.includes(h));
+    if (index !== -1) {
+      mapping[field.key] = index;
+      used.add(index);
+    }
+  }
+  return mapping;
+}
+
+// Paths may be written with "→" or ">" and may leave out leading levels (even the
+// problem statement), as long as the trailing labels identify a single node
+export function resolveCausePath(root: CauseNode, path: string): { node?: CauseNode; problem?: string } {
+  const segments = path.split(/\s*(?:→|>)\s*/).map(normalize).filter(Boolean);
+  if (segments.length === 0) return { problem: 'No cause path' };
+
+  const matches: CauseNode[] = [];
+  const visit = (node: CauseNode, labels: string[]) => {
+    const here = [...labels, normalize(node.label)];
+    const tail = here.slice(-segments.length);
+    if (tail.length === segments.length && tail.every((label, i) => label === segments[i])) matches.push(node);
+    node.children?.forEach(child => visit(child, here));
+  };
+  visit(root, []);
+
+  if (matches.length === 1) return { node: matches[0] };
+  if (matches.length === 0) return { problem: `No cause matches "${path}"` };
+  return { problem: `"${path}" matches ${matches.length} causes; give more of the path` };
+}
+
+function parseStatus(value: string): ActionItem['status'] | undefined {
+  return ACTION_STATUSES.find(s => normalize(s) === normalize(value));
+}
+
+// How day-first and month-first dates such as 03/04/2025 are read; chosen by the user
+export type CsvDateOrder = 'DMY' | 'MDY';
+
+export const CSV_DATE_ORDER_LABELS: Record<CsvDateOrder, string> = {
+  DMY: 'Day/Month/Year',
+  MDY: 'Month/Day/Year',
+};
+
+function formatYmd(year: number, month: number, day: number): string | undefined {
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return undefined;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// Dates are stored as YYYY-MM-DD. Accepted: year first (2025-04-03, 2025/04/03), or
+// day and month in the declared order with a four-digit year (03/04/2025, 3.4.2025).
+// Anything else is reported rather than guessed at.
+function parseDate(value: string, order: CsvDateOrder): string | undefined {
+  const text = value.trim();
+  if (!text) return '';
+  const yearFirst = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  if (yearFirst) return formatYmd(Number(yearFirst[1]), Number(yearFirst[2]), Number(yearFirst[3]));
+  const yearLast = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+  if (!yearLast) return undefined;
+  const [first, second, year] = [Number(yearLast[1]), Number(yearLast[2]), Number(yearLast[3])];
+  return order === 'DMY' ? formatYmd(year, second, first) : formatYmd(year, first, second);
+}
+
+export type ActionImportKind = 'create' | 'update' | 'unchanged' | 'error';
+
+export interface ActionImportRow {
+  line: number;            // 1-based line in the file, counting the header
+  kind: ActionImportKind;
+  action?: ActionItem;     // Resulting action for create/update
+  previous?: ActionItem;
+  changes: string[];       // Field labels that differ from the existing action
+  problem?: string;
+}
+
+// Works out what importing each data row would do, without changing anything.
+// Rows whose id matches an existing action update it; other rows create new actions.
+// `trees` and `treeId` locate the actions' predecessors: completing an action with open
+// predecessors needs a reason, which only the app can ask for, so such rows are refused.
+// Status changes the project's workflow does not allow are refused the same way.
+export function planActionImport(
+  rows: string[][],
+  mapping: ActionColumnMapping,
+  existing: ActionItem[],
+  root: CauseNode,
+  author: string,
+  dateOrder: CsvDateOrder,
+  trees: SavedTree[],
+  treeId: string,
+  workflow: WorkflowDefinition
+): ActionImportRow[] {
+  const cell = (row: string[], field: ActionCsvField): string | undefined => {
+    const index = mapping[field];
+    return index === undefined ? undefined : (row[index] ?? '').trim();
+  };
+  const seenIds = new Set<string>();
+  const now = new Date().toISOString();
+
+  return rows.slice(1).map((row, i) => {
+    const line = i + 2;
+    const id = cell(row, 'id');
+    const previous = id ? existing.find(a => a.id === id) : undefined;
+
+    if (previous) {
+      if (seenIds.has(previous.id)) return { line, kind: 'error', changes: [], problem: 'Duplicate of an earlier row for the same action' };
+      seenIds.add(previous.id);
+    }
+
+    const next: ActionItem = previous
+      ? { ...previous }
+      : {
+          id: crypto.randomUUID(),
+          causeId: '',
+          action: '',
+          rationale: '',
+          assignee: '',
+          assignedDate: now.split('T')[0],
+          dueDate: '',
+          status: 'Open',
+          updates: [],
+        };
+
+    const path = cell(row, 'causePath');
+    if (path) {
+      const resolved = resolveCausePath(root, path);
+      if (!resolved.node) return { line, kind: 'error', changes: [], problem: resolved.problem };
+      next.causeId = resolved.node.id;
+    } else if (!previous) {
+      return { line, kind: 'error', changes: [], problem: 'New actions need a cause path' };
+    }
+
+    for (const field of ['action', 'rationale', 'assignee'] as const) {
+      const value = cell(row, field);
+      if (value !== undefined && (value || field !== 'action')) next[field] = value;
+    }
+    if (!next.action) return { line, kind: 'error', changes: [], problem: 'Action text is empty' };
+
+    for (const field of ['assignedDate', 'dueDate'] as const) {
+      const value = cell(row, field);
+      if (value === undefined) continue;
+      const date = parseDate(value, dateOrder);
+      if (date === undefined) return { line, kind: 'error', changes: [], problem: `Unrecognized date "${value}" (use YYYY-MM-DD or ${CSV_DATE_ORDER_LABELS[dateOrder]})` };
+      if (date || previous) next[field] = date;
+    }
+
+    const status = cell(row, 'status');
+    if (status) {
+      const parsed = parseStatus(status);
+      if (!parsed) return { line, kind: 'error', changes: [], problem: `Unknown status "${status}"` };
+      next.status = parsed;
+    }
+    const violations = checkActionTransition(workflow, { ...next, status: previous?.status ?? 'Open' }, next.status);
+    if (violations.length > 0) {
+      return { line, kind: 'error', changes: [], problem: violations.map(v => v.message).join(' ') };
+    }
+    if (isActionDone(next.status) && !(previous && isActionDone(previous.status))) {
+      const open = openPredecessors(trees, treeId, next);
+      if (open.length > 0) {
+        const names = open.map(d => `"${d.action!.action}"`).join(', ');
+        return { line, kind: 'error', changes: [], problem: `Depends on open actions (${names}); mark it ${next.status} in the app to give a reason` };
+      }
+    }
+
+    // A latest update that differs from the one on record is appended, never overwritten
+    const update = cell(row, 'latestUpdate');
+    if (update && update !== (previous ? latestUpdate(previous)?.content.trim() : undefined)) {
+      next.updates = [
+        ...(next.updates ?? []),
+        { id: crypto.randomUUID(), content: update, createdAt: now, author: author || undefined },
+      ];
+    }
+
+    if (!previous) return { line, kind: 'create', action: next, changes: [] };
+
+    const changes = (['action', 'rationale', 'assignee', 'assignedDate', 'dueDate', 'status'] as const)
+      .filter(key => next[key] !== previous[key])
+      .map(key => ACTION_CSV_FIELDS.find(f => f.key === key)!.label);
+    if (next.causeId !== previous.causeId) changes.unshift('Cause Path');
+    if ((next.updates?.length ?? 0) !== (previous.updates?.length ?? 0)) changes.push('Latest Update');
+
+    return changes.length > 0
+      ? { line, kind: 'update', action: next, previous, changes }
+      : { line, kind: 'unchanged', previous, changes };
+  });
+}
@@ -0,0 +1,114 @@
+import { NoteAttachment, SavedTree } from './types';
+import { ATTACHMENTS_STORE, idbGet, idbPut, idbDelete, idbKeys } from './idb';
+
+// Attachment metadata lives on the note (and therefore in the saved app state);
+// the file contents are kept in IndexedDB keyed by attachment id.
+
+export const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+
+export function isImageAttachment(attachment: NoteAttachment): boolean {
+  return attachment.mimeType.startsWith('image/');
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+// Store a file's contents and return the metadata to put on the note
+export async function storeAttachment(file: File): Promise<NoteAttachment> {
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`"${file.name}" is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}`);
+  }
+  const attachment: NoteAttachment = {
+    id: crypto.randomUUID(),
+    name: file.name,
+    mimeType: file.type || 'application/octet-stream',
+    size: file.size,
+    createdAt: new Date().toISOString(),
+  };
+  await idbPut(ATTACHMENTS_STORE, attachment.id, file);
+  return attachment;
+}
+
+export function loadAttachmentBlob(id: string): Promise<Blob | undefined> {
+  return idbGet<Blob>(ATTACHMENTS_STORE, id);
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Failed to read attachment'));
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function dataUrlToBlob(dataUrl: string): Promise<Blob> {
+  const response = await fetch(dataUrl);
+  return response.blob();
+}
+
+export function collectAttachments(trees: SavedTree[]): NoteAttachment[] {
+  return trees.flatMap(t => t.notes.flatMap(n => n.attachments ?? []));
+}
+
+// Read the contents of every attachment in the given trees as data URLs, keyed by
+// attachment id. Attachments whose contents are missing are left out.
+export async function loadAttachmentDataUrls(trees: SavedTree[]): Promise<Record<string, string>> {
+  const result: Record<string, string> = {};
+  for (const attachment of collectAttachments(trees)) {
+    const blob = await loadAttachmentBlob(attachment.id);
+    if (blob) result[attachment.id] = await blobToDataUrl(blob);
+  }
+  return result;
+}
+
+// Store attachment contents carried by an import file. Only inline data URLs are
+// accepted, so a crafted file cannot make us fetch anything; returns how many were refused.
+export async function saveAttachmentDataUrls(dataUrls: Record<string, string>): Promise<number> {
+  let rejected = 0;
+  for (const [id, dataUrl] of Object.entries(dataUrls)) {
+    if (typeof dataUrl !== 'string' || !dataUrl.startsWith('data:')) {
+      rejected++;
+      continue;
+    }
+    await idbPut(ATTACHMENTS_STORE, id, await dataUrlToBlob(dataUrl));
+  }
+  return rejected;
+}
+
+// Remove stored files no note refers to any more. Deleting a note keeps its files
+// for the rest of the session so the deletion can be undone; they are cleaned up
+// on the next load.
+export async function pruneOrphanedAttachments(trees: SavedTree[]): Promise<void> {
+  const referenced = new Set(collectAttachments(trees).map(a => a.id));
+  const stored = await idbKeys(ATTACHMENTS_STORE);
+  await idbDelete(ATTACHMENTS_STORE, stored.filter(id => !referenced.has(id)));
+}
+
+const INLINE_MIME_TYPES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/bmp', 'application/pdf']);
+
+export async function openAttachment(attachment: NoteAttachment): Promise<void> {
+  const blob = await loadAttachmentBlob(attachment.id);
+  if (!blob) {
+    alert(`The contents of "${attachment.name}" are not available on this device.`);
+    return;
+  }
+  // Blob URLs share the app's origin, so only types that cannot run script open in a tab.
+  // The blob is re-wrapped because its own type, which the tab renders by, is unchecked.
+  const inline = INLINE_MIME_TYPES.has(attachment.mimeType);
+  const url = URL.createObjectURL(new Blob([blob], { type: inline ? attachment.mimeType : 'application/octet-stream' }));
+  const a = document.createElement('a');
+  a.href = url;
+  if (inline) {
+    a.target = '_blank';
+  } else {
+    a.download = attachment.name;
+  }
+  a.click();
+  // Give the new tab time to load before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+}
@@ -0,0 +1,234 @@
+import { ActionItem, ActionUpdate, AuditEntityType, AuditEntry, CauseNode, Note, ResolutionItem, SavedTree } from './types';
+import { flattenTree } from './treeUtils';
+
+export const DEFAULT_AUDIT_AUTHOR = 'Local user';
+
+// Repeated edits to the same field by the same author inside this window are
+// folded into one entry, so typing a description does not log every keystroke
+const COALESCE_WINDOW_MS = 60 * 1000;
+
+// Free-text fields whose keystroke-level edits may be coalesced. Discrete fields
+// such as status are never merged so every transition stays on record.
+const TEXT_FIELDS = new Set(['label', 'description', 'rationale', 'action', 'content', 'title', 'verificationMethod', 'verificationResults']);
+
+// Fields that are bookkeeping rather than content
+const IGNORED_FIELDS = new Set(['id', 'children', 'updatedAt', 'createdAt']);
+
+export const AUDIT_FIELD_LABELS: Record<string, string> = {
+  label: 'Label',
+  description: 'Description',
+  rationale: 'Rationale',
+  status: 'Status',
+  type: 'Type',
+  isRootCause: 'Root cause',
+  isRootCauseCandidate: 'Root cause candidate',
+  gate: 'Logic gate',
+  gateK: 'Gate threshold',
+  probability: 'Probability',
+  risk: 'Risk rating',
+  residualRisk: 'Risk rating after fix',
+  parentId: 'Parent',
+  action: 'Action',
+  assignee: 'Assignee',
+  assignedDate: 'Assigned date',
+  dueDate: 'Due date',
+  causeId: 'Linked cause',
+  updates: 'Updates',
+  content: 'Content',
+  owner: 'Owner',
+  isEvidence: 'Evidence',
+  attachments: 'Attachments',
+  referenceId: 'Reference',
+  title: 'Title',
+  linkedCauseIds: 'Linked root causes',
+  targetDate: 'Target date',
+  implementedDate: 'Implemented date',
+  verificationMethod: 'Verification method',
+  verificationResults: 'Verification results',
+  verifiedDate: 'Verified date',
+};
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  node: 'Cause',
+  action: 'Action',
+  note: 'Note',
+  resolution: 'Corrective action',
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) {
+    if (value.every(v => typeof v !== 'object')) return value.join(', ');
+    if (value.every(v => v && typeof v === 'object' && 'name' in v)) return value.map(v => v.name).join(', ');
+    return `${value.length} item${value.length !== 1 ? 's' : ''}`;
+  }
+  if (typeof value === 'object') {
+    return Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .map(([k, v]) => `${k} ${formatValue(v)}`)
+      .join(', ');
+  }
+  return JSON.stringify(value);
+}
+
+interface EntityContext {
+  type: AuditEntityType;
+  id: string;
+  label: string;
+  relatedNodeIds: string[];
+}
+
+function makeEntry(
+  ctx: EntityContext,
+  author: string,
+  change: AuditEntry['change'],
+  field: string = '',
+  oldValue: string = '',
+  newValue: string = ''
+): AuditEntry {
+  return {
+    id: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+    author,
+    entityType: ctx.type,
+    entityId: ctx.id,
+    entityLabel: ctx.label,
+    relatedNodeIds: ctx.relatedNodeIds,
+    change,
+    field,
+    oldValue,
+    newValue,
+  };
+}
+
+// Activity-log updates are diffed item by item so the log shows their text
+function diffUpdates(ctx: EntityContext, author: string, before: ActionUpdate[], after: ActionUpdate[]): AuditEntry[] {
+  const entries: AuditEntry[] = [];
+  const beforeMap = new Map(before.map(u => [u.id, u]));
+  const afterMap = new Map(after.map(u => [u.id, u]));
+  for (const u of after) {
+    const prev = beforeMap.get(u.id);
+    if (!prev) entries.push(makeEntry(ctx, author, 'update', 'updates', '', u.content));
+    else if (prev.content !== u.content) entries.push(makeEntry(ctx, author, 'update', 'updates', prev.content, u.content));
+  }
+  for (const u of before) {
+    if (!afterMap.has(u.id)) entries.push(makeEntry(ctx, author, 'update', 'updates', u.content, ''));
+  }
+  return entries;
+}
+
+function diffFields<T extends object>(ctx: EntityContext, author: string, before: T, after: T): AuditEntry[] {
+  const entries: AuditEntry[] = [];
+  const b = before as Record<string, unknown>;
+  const a = after as Record<string, unknown>;
+  const keys = new Set([...Object.keys(b), ...Object.keys(a)]);
+  for (const key of keys) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    if (JSON.stringify(b[key]) === JSON.stringify(a[key])) continue;
+    if (key === 'updates') {
+      entries.push(...diffUpdates(ctx, author, (b[key] as ActionUpdate[]) ?? [], (a[key] as ActionUpdate[]) ?? []));
+      continue;
+    }
+    const oldValue = formatValue(b[key]);
+    const newValue = formatValue(a[key]);
+    if (oldValue === newValue) continue; // e.g. undefined -> ''
+    entries.push(makeEntry(ctx, author, 'update', key, oldValue, newValue));
+  }
+  return entries;
+}
+
+function diffCollection<T extends { id: string }>(
+  before: T[],
+  after: T[],
+  author: string,
+  context: (item: T) => EntityContext
+): AuditEntry[] {
+  const entries: AuditEntry[] = [];
+  const beforeMap = new Map(before.map(item => [item.id, item]));
+  const afterMap = new Map(after.map(item => [item.id, item]));
+
+  for (const item of after) {
+    const prev = beforeMap.get(item.id);
+    if (!prev) {
+      entries.push(makeEntry(context(item), author, 'create'));
+    } else if (prev !== item) {
+      entries.push(...diffFields(context(item), author, prev, item));
+    }
+  }
+  for (const item of before) {
+    if (!afterMap.has(item.id)) entries.push(makeEntry(context(item), author, 'delete'));
+  }
+  return entries;
+}
+
+// Compute audit entries describing every entity change between two versions of a tree
+export function diffTreeForAudit(before: SavedTree, after: SavedTree, author: string): AuditEntry[] {
+  const nodesBefore = before.treeData === after.treeData ? [] : flattenTree(before.treeData);
+  const nodesAfter = before.treeData === after.treeData ? [] : flattenTree(after.treeData);
+  const actionCause = new Map([...before.actions, ...after.actions].map(a => [a.id, a.causeId]));
+
+  const nodeContext = (n: CauseNode): EntityContext => ({ type: 'node', id: n.id, label: n.label, relatedNodeIds: [n.id] });
+  const actionContext = (a: ActionItem): EntityContext => ({ type: 'action', id: a.id, label: a.action, relatedNodeIds: [a.causeId] });
+  const noteContext = (n: Note): EntityContext => ({
+    type: 'note',
+    id: n.id,
+    label: n.content.slice(0, 60),
+    relatedNodeIds: [actionCause.get(n.referenceId) ?? n.referenceId],
+  });
+  const resolutionContext = (r: ResolutionItem): EntityContext => ({ type: 'resolution', id: r.id, label: r.title, relatedNodeIds: r.linkedCauseIds });
+
+  return [
+    ...diffCollection(nodesBefore, nodesAfter, author, nodeContext),
+    ...(before.actions === after.actions ? [] : diffCollection(before.actions, after.actions, author, actionContext)),
+    ...(before.notes === after.notes ? [] : diffCollection(before.notes, after.notes, author, noteContext)),
+    ...(before.resolutions === after.resolutions ? [] : diffCollection(before.resolutions ?? [], after.resolutions ?? [], author, resolutionContext)),
+  ];
+}
+
+// Append entries to a log. A free-text update that continues the previous entry (same
+// entity, field and author within the coalesce window) extends it instead of adding a new one.
+export function appendAuditEntries(log: AuditEntry[], entries: AuditEntry[]): AuditEntry[] {
+  if (entries.length === 0) return log;
+  const result = [...log];
+  for (const entry of entries) {
+    const last = result[result.length - 1];
+    if (
+      last &&
+      entry.change === 'update' &&
+      last.change === 'update' &&
+      TEXT_FIELDS.has(entry.field) &&
+      last.entityId === entry.entityId &&
+      last.field === entry.field &&
+      last.author === entry.author &&
+      new Date(entry.timestamp).getTime() - new Date(last.timestamp).getTime() < COALESCE_WINDOW_MS
+    ) {
+      result[result.length - 1] = { ...last, newValue: entry.newValue, entityLabel: entry.entityLabel, timestamp: entry.timestamp };
+    } else {
+      result.push(entry);
+    }
+  }
+  return result;
+}
+
+// Return `after` with the changes since `before` appended to `before`'s audit log.
+// The log always continues from `before`, so restoring an older snapshot (undo)
+// is itself recorded rather than rewinding the log.
+export function withAuditTrail<T extends SavedTree>(before: SavedTree, after: T, author: string): T {
+  const entries = diffTreeForAudit(before, after, author);
+  return { ...after, auditLog: appendAuditEntries(before.auditLog ?? [], entries) };
+}
+
+export function describeAuditEntry(entry: AuditEntry): string {
+  const entity = `${AUDIT_ENTITY_LABELS[entry.entityType]} "${entry.entityLabel}"`;
+  if (entry.change === 'create') return `Created ${entity}`;
+  if (entry.change === 'delete') return `Deleted ${entity}`;
+  const field = AUDIT_FIELD_LABELS[entry.field] ?? entry.field;
+  if (entry.field === 'updates') {
+    if (!entry.oldValue) return `Added update to ${entity}`;
+    if (!entry.newValue) return `Removed update from ${entity}`;
+    return `Edited update on ${entity}`;
+  }
+  return `Changed ${field} of ${entity}`;
+}
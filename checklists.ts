@@ -0,0 +1,66 @@
+import { ActionChecklist, ActionItem, CauseNode, ChecklistStep } from './types';
+import { getAncestorIds, findNodeById } from './treeUtils';
+import { addDays, today } from './timeline';
+
+// Action checklists: standard investigation steps kept in a project and applied to a
+// cause in one go. Each step becomes an ActionItem due a number of days after applying.
+
+export function createChecklist(name: string): ActionChecklist {
+  const now = new Date().toISOString();
+  return { id: crypto.randomUUID(), name, description: '', appliesTo: [], steps: [createChecklistStep()], createdAt: now, updatedAt: now };
+}
+
+export function createChecklistStep(): ChecklistStep {
+  return { id: crypto.randomUUID(), action: '', rationale: '', dueInDays: 7 };
+}
+
+// Actions start unassigned; the checklist is shared across people, so it carries no owner
+export function applyChecklist(checklist: ActionChecklist, causeId: string): ActionItem[] {
+  const start = today();
+  return checklist.steps
+    .filter(step => step.action.trim())
+    .map(step => ({
+      id: crypto.randomUUID(),
+      causeId,
+      action: step.action.trim(),
+      rationale: step.rationale,
+      assignee: '',
+      assignedDate: start,
+      dueDate: step.dueInDays === null ? '' : addDays(start, step.dueInDays),
+      status: 'Open' as const,
+      checklistId: checklist.id,
+    }));
+}
+
+// A checklist is suggested when one of its labels matches the cause or a category above it
+export function isChecklistSuggested(checklist: ActionChecklist, root: CauseNode, nodeId: string): boolean {
+  if (checklist.appliesTo.length === 0) return false;
+  const wanted = new Set(checklist.appliesTo.map(label => label.trim().toLowerCase()));
+  return [nodeId, ...getAncestorIds(root, nodeId)]
+    .map(id => findNodeById(root, id)?.label.trim().toLowerCase())
+    .some(label => label !== undefined && wanted.has(label));
+}
+
+export interface ChecklistProgress {
+  done: number;
+  total: number;
+}
+
+// Progress of the checklist actions on each cause
+export function checklistProgressByCause(actions: ActionItem[]): Map<string, ChecklistProgress> {
+  const map = new Map<string, ChecklistProgress>();
+  for (const action of actions) {
+    if (!action.checklistId) continue;
+    const progress = map.get(action.causeId) ?? { done: 0, total: 0 };
+    progress.total++;
+    if (action.status === 'Complete' || action.status === 'Closed') progress.done++;
+    map.set(action.causeId, progress);
+  }
+  return map;
+}
+
+export function describeDueIn(days: number | null): string {
+  if (days === null) return 'No due date';
+  if (days === 0) return 'Due the same day';
+  return `Due after ${days} day${days !== 1 ? 's' : ''}`;
+}
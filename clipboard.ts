@@ -0,0 +1,108 @@
+import { ActionItem, CauseNode, Note, SavedTree } from './types';
+import { findNodeById, flattenTree } from './treeUtils';
+
+export const CLIPBOARD_FORMAT = 'rcca-helper/subtree';
+
+// A copied branch. Actions and notes attached to nodes in the branch (and notes on
+// those actions) travel with it so they can optionally be pasted too.
+export interface SubtreeClipboard {
+  format: typeof CLIPBOARD_FORMAT;
+  version: 1;
+  sourceTreeName: string;
+  copiedAt: string;
+  node: CauseNode;
+  actions: ActionItem[];
+  notes: Note[];
+}
+
+export interface PastedSubtree {
+  node: CauseNode;
+  actions: ActionItem[];
+  notes: Note[];
+}
+
+export function copySubtree(tree: SavedTree, nodeId: string): SubtreeClipboard | null {
+  const node = findNodeById(tree.treeData, nodeId);
+  if (!node) return null;
+  const nodeIds = new Set(flattenTree(node).map(n => n.id));
+  const actions = tree.actions.filter(a => nodeIds.has(a.causeId));
+  const actionIds = new Set(actions.map(a => a.id));
+  return {
+    format: CLIPBOARD_FORMAT,
+    version: 1,
+    sourceTreeName: tree.name,
+    copiedAt: new Date().toISOString(),
+    node,
+    actions,
+    notes: tree.notes.filter(n => nodeIds.has(n.referenceId) || actionIds.has(n.referenceId)),
+  };
+}
+
+// Ids of every entity captured in a clipboard entry (used to remove them on cut)
+export function clipboardEntityIds(clip: SubtreeClipboard): { nodeIds: Set<string>; actionIds: Set<string>; noteIds: Set<string> } {
+  return {
+    nodeIds: new Set(flattenTree(clip.node).map(n => n.id)),
+    actionIds: new Set(clip.actions.map(a => a.id)),
+    noteIds: new Set(clip.notes.map(n => n.id)),
+  };
+}
+
+// Copy of the clipboard content with fresh ids everywhere and references remapped,
+// so the same entry can be pasted any number of times into any investigation.
+// Note attachments keep pointing at the same stored files.
+export function instantiateClipboard(clip: SubtreeClipboard, parentId: string, includeItems: boolean): PastedSubtree {
+  const idMap = new Map<string, string>();
+  const remap = (id: string) => {
+    if (!idMap.has(id)) idMap.set(id, crypto.randomUUID());
+    return idMap.get(id)!;
+  };
+
+  const cloneNode = (node: CauseNode, newParentId: string): CauseNode => {
+    const id = remap(node.id);
+    return { ...node, id, parentId: newParentId, children: (node.children ?? []).map(child => cloneNode(child, id)) };
+  };
+  const node = cloneNode(clip.node, parentId);
+  if (!includeItems) return { node, actions: [], notes: [] };
+
+  // Only dependencies between the copied actions come along
+  const copiedActionIds = new Set(clip.actions.map(a => a.id));
+  const actions = clip.actions.map(a => ({
+    ...a,
+    id: remap(a.id),
+    causeId: remap(a.causeId),
+    updates: a.updates?.map(u => ({ ...u, id: crypto.randomUUID() })),
+    predecessors: a.predecessors
+      ?.filter(ref => !ref.treeId && copiedActionIds.has(ref.actionId))
+      .map(ref => ({ actionId: remap(ref.actionId) })),
+  }));
+  const notes = clip.notes.map(n => ({ ...n, id: crypto.randomUUID(), referenceId: remap(n.referenceId) }));
+  return { node, actions, notes };
+}
+
+export function isSubtreeClipboard(value: unknown): value is SubtreeClipboard {
+  if (!value || typeof value !== 'object') return false;
+  const v = value as Record<string, unknown>;
+  return v.format === CLIPBOARD_FORMAT &&
+    !!v.node && typeof v.node === 'object' &&
+    Array.isArray(v.actions) && Array.isArray(v.notes);
+}
+
+// The system clipboard lets a branch move between browser tabs and windows.
+// Failures (no permission, insecure context) fall back to the in-app clipboard.
+export async function writeSystemClipboard(clip: SubtreeClipboard): Promise<void> {
+  try {
+    await navigator.clipboard.writeText(JSON.stringify(clip));
+  } catch {
+    // In-app clipboard still holds the entry
+  }
+}
+
+export async function readSystemClipboard(): Promise<SubtreeClipboard | null> {
+  try {
+    const text = await navigator.clipboard.readText();
+    const parsed = JSON.parse(text);
+    return isSubtreeClipboard(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
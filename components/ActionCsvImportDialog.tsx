@@ -0,0 +1,213 @@
+import React, { useMemo, useState } from 'react';
+import { ActionItem, CauseNode, SavedTree, WorkflowDefinition } from '../types';
+import {
+  ACTION_CSV_FIELDS,
+  ActionColumnMapping,
+  ActionCsvField,
+  ActionImportKind,
+  CSV_DATE_ORDER_LABELS,
+  CsvDateOrder,
+  guessActionColumnMapping,
+  planActionImport,
+} from '../actionCsv';
+import { findNodeById } from '../treeUtils';
+import { X, Upload, AlertTriangle } from 'lucide-react';
+
+interface ActionCsvImportDialogProps {
+  fileName: string;
+  rows: string[][];
+  actions: ActionItem[];
+  treeData: CauseNode;
+  treeId: string;
+  trees: SavedTree[];          // For predecessors in other investigations
+  workflow: WorkflowDefinition;
+  currentUser: string;
+  onConfirm: (created: ActionItem[], updated: ActionItem[]) => void;
+  onClose: () => void;
+}
+
+const KIND_STYLES: Record<ActionImportKind, { label: string; className: string }> = {
+  create: { label: 'New', className: 'bg-green-100 text-green-800 border-green-300' },
+  update: { label: 'Update', className: 'bg-blue-100 text-blue-800 border-blue-300' },
+  unchanged: { label: 'No change', className: 'bg-slate-100 text-slate-600 border-slate-300' },
+  error: { label: 'Skipped', className: 'bg-red-100 text-red-800 border-red-300' },
+};
+
+export const ActionCsvImportDialog: React.FC<ActionCsvImportDialogProps> = ({
+  fileName,
+  rows,
+  actions,
+  treeData,
+  treeId,
+  trees,
+  workflow,
+  currentUser,
+  onConfirm,
+  onClose,
+}) => {
+  const headers = rows[0];
+  const [mapping, setMapping] = useState<ActionColumnMapping>(() => guessActionColumnMapping(headers));
+  // US-style locales write the month first; everyone else the day
+  const [dateOrder, setDateOrder] = useState<CsvDateOrder>(() => navigator.language === 'en-US' ? 'MDY' : 'DMY');
+
+  const plan = useMemo(
+    () => planActionImport(rows, mapping, actions, treeData, currentUser, dateOrder, trees, treeId, workflow),
+    [rows, mapping, actions, treeData, currentUser, dateOrder, trees, treeId, workflow]
+  );
+  const created = plan.filter(r => r.kind === 'create').map(r => r.action!);
+  const updated = plan.filter(r => r.kind === 'update').map(r => r.action!);
+  const skipped = plan.filter(r => r.kind === 'error').length;
+  const total = created.length + updated.length;
+
+  const setColumn = (field: ActionCsvField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+  };
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black/50 z-50" onClick={onClose} />
+
+      {/* Modal */}
+      <div
+        className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-50 w-[760px] max-h-[85vh] rounded-xl shadow-2xl overflow-hidden flex flex-col"
+        style={{ backgroundColor: 'var(--color-surface-primary)', border: '1px solid var(--color-border-primary)' }}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 shrink-0" style={{ borderBottom: '1px solid var(--color-border-primary)' }}>
+          <div>
+            <h2 className="text-lg font-bold flex items-center gap-2" style={{ color: 'var(--color-text-primary)' }}>
+              <Upload size={18} /> Import Actions from CSV
+            </h2>
+            <p className="text-xs mt-0.5" style={{ color: 'var(--color-text-muted)' }}>
+              {fileName} — {rows.length - 1} row{rows.length - 1 !== 1 ? 's' : ''}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded transition-colors" style={{ color: 'var(--color-text-muted)' }}>
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4 space-y-4 overflow-y-auto">
+          {/* Column mapping */}
+          <div>
+            <h3 className="text-xs uppercase font-semibold mb-2" style={{ color: 'var(--color-text-tertiary)' }}>Columns</h3>
+            <div className="grid grid-cols-3 gap-x-4 gap-y-2">
+              {ACTION_CSV_FIELDS.map(field => (
+                <label key={field.key} className="text-xs" style={{ color: 'var(--color-text-secondary)' }}>
+                  <span className="block mb-0.5">{field.label}</span>
+                  <select
+                    value={mapping[field.key] ?? ''}
+                    onChange={(e) => setColumn(field.key, e.target.value)}
+                    className="w-full text-sm rounded px-2 py-1"
+                    style={{ backgroundColor: 'var(--color-surface-primary)', border: '1px solid var(--color-border-primary)', color: 'var(--color-text-secondary)' }}
+                  >
+                    <option value="">— Not imported —</option>
+                    {headers.map((header, i) => (
+                      <option key={i} value={i}>{header || `Column ${i + 1}`}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+              <label className="text-xs" style={{ color: 'var(--color-text-secondary)' }}>
+                <span className="block mb-0.5">Dates like 03/04/2025</span>
+                <select
+                  value={dateOrder}
+                  onChange={(e) => setDateOrder(e.target.value as CsvDateOrder)}
+                  className="w-full text-sm rounded px-2 py-1"
+                  style={{ backgroundColor: 'var(--color-surface-primary)', border: '1px solid var(--color-border-primary)', color: 'var(--color-text-secondary)' }}
+                >
+                  {(Object.keys(CSV_DATE_ORDER_LABELS) as CsvDateOrder[]).map(order => (
+                    <option key={order} value={order}>{CSV_DATE_ORDER_LABELS[order]}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <p className="text-xs mt-2" style={{ color: 'var(--color-text-muted)' }}>
+              Rows with the ID of an existing action update it; other rows create new actions. Causes are matched by
+              their label path (e.g. "Machine → Worn seal"), and a changed latest update is added to the action's log.
+            </p>
+          </div>
+
+          {mapping.id === undefined && (
+            <div className="p-3 rounded-lg border border-amber-300 bg-amber-50 text-xs text-amber-800 flex items-start gap-2">
+              <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+              <span>No ID column is mapped, so every row will be imported as a new action.</span>
+            </div>
+          )}
+
+          {/* Preview */}
+          <div>
+            <h3 className="text-xs uppercase font-semibold mb-2" style={{ color: 'var(--color-text-tertiary)' }}>
+              Preview — {created.length} new, {updated.length} updated, {skipped} skipped
+            </h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs uppercase text-left" style={{ color: 'var(--color-text-tertiary)' }}>
+                  <th className="py-1 font-semibold w-12">Line</th>
+                  <th className="py-1 font-semibold w-24">Result</th>
+                  <th className="py-1 font-semibold">Action</th>
+                  <th className="py-1 font-semibold">Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {plan.map(row => {
+                  const item = row.action ?? row.previous;
+                  return (
+                    <tr key={row.line} style={{ borderTop: '1px solid var(--color-border-primary)' }}>
+                      <td className="py-1.5 font-mono text-xs" style={{ color: 'var(--color-text-muted)' }}>{row.line}</td>
+                      <td className="py-1.5">
+                        <span className={`px-2 py-0.5 rounded border text-xs font-medium ${KIND_STYLES[row.kind].className}`}>
+                          {KIND_STYLES[row.kind].label}
+                        </span>
+                      </td>
+                      <td className="py-1.5 pr-2" style={{ color: 'var(--color-text-primary)' }}>
+                        {item ? (
+                          <>
+                            <div className="font-medium">{item.action}</div>
+                            <div className="text-xs" style={{ color: 'var(--color-text-muted)' }}>{findNodeById(treeData, item.causeId)?.label}</div>
+                          </>
+                        ) : (
+                          <span className="italic" style={{ color: 'var(--color-text-muted)' }}>—</span>
+                        )}
+                      </td>
+                      <td className="py-1.5 text-xs" style={{ color: row.kind === 'error' ? '#b91c1c' : 'var(--color-text-secondary)' }}>
+                        {row.problem ?? (row.changes.length > 0 ? row.changes.join(', ') : '')}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-2 px-6 py-4 shrink-0" style={{ borderTop: '1px solid var(--color-border-primary)' }}>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium rounded-lg transition-colors"
+            style={{ backgroundColor: 'var(--color-surface-tertiary)', color: 'var(--color-text-secondary)' }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(created, updated)}
+            disabled={total === 0}
+            className={`px-4 py-2 text-sm font-medium text-white rounded-lg transition-colors ${
+              total === 0 ? 'opacity-50 cursor-not-allowed bg-indigo-400' : 'bg-indigo-600 hover:bg-indigo-700'
+            }`}
+          >
+            Import {total} Action{total !== 1 ? 's' : ''}
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,64 @@
+import React, { useEffect, useState } from 'react';
+import { NoteAttachment } from '../types';
+import { loadAttachmentBlob, isImageAttachment, openAttachment, formatFileSize } from '../attachments';
+import { FileText, X } from 'lucide-react';
+
+interface AttachmentThumbnailProps {
+  attachment: NoteAttachment;
+  onRemove?: () => void;
+}
+
+export const AttachmentThumbnail: React.FC<AttachmentThumbnailProps> = ({
+  attachment,
+  onRemove,
+}) => {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [missing, setMissing] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    let url: string | null = null;
+    loadAttachmentBlob(attachment.id)
+      .then(blob => {
+        if (cancelled) return;
+        if (!blob) {
+          setMissing(true);
+          return;
+        }
+        if (isImageAttachment(attachment)) {
+          url = URL.createObjectURL(blob);
+          setPreviewUrl(url);
+        }
+      })
+      .catch(() => { if (!cancelled) setMissing(true); });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [attachment.id]);
+
+  return (
+    <div
+      className="relative group w-16 rounded overflow-hidden cursor-pointer"
+      style={{ border: '1px solid var(--color-border-primary)', backgroundColor: 'var(--color-surface-tertiary)', opacity: missing ? 0.5 : 1 }}
+      onClick={() => openAttachment(attachment)}
+      title={`${attachment.name} (${formatFileSize(attachment.size)})${missing ? ' — contents not available on this device' : ''}`}
+    >
+      <div className="h-12 flex items-center justify-center">
+        {previewUrl
+          ? <img src={previewUrl} alt={attachment.name} className="w-full h-full object-cover" />
+          : <FileText size={20} style={{ color: 'var(--color-text-muted)' }} />}
+      </div>
+      <div className="px-1 text-[9px] truncate" style={{ color: 'var(--color-text-tertiary)' }}>{attachment.name}</div>
+      {onRemove && (
+        <button
+          onClick={(e) => { e.stopPropagation(); onRemove(); }}
+          className="absolute top-0.5 right-0.5 p-0.5 rounded-full bg-black/60 text-white opacity-0 group-hover:opacity-100"
+          title="Remove attachment"
+        >
+          <X size={10} />
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,260 @@
+import React, { useState } from 'react';
+import { ActionChecklist, ChecklistStep, Project } from '../types';
+import { createChecklist, createChecklistStep } from '../checklists';
+import { X, Plus, Trash2, ListChecks, ChevronUp, ChevronDown, Check } from 'lucide-react';
+
+interface ChecklistManagerDialogProps {
+  project: Project;
+  onSave: (checklists: ActionChecklist[]) => void;
+  onClose: () => void;
+}
+
+export const ChecklistManagerDialog: React.FC<ChecklistManagerDialogProps> = ({
+  project,
+  onSave,
+  onClose,
+}) => {
+  const [checklists, setChecklists] = useState<ActionChecklist[]>(project.checklists ?? []);
+  const [selectedId, setSelectedId] = useState<string | null>(checklists[0]?.id ?? null);
+  const selected = checklists.find(c => c.id === selectedId) ?? null;
+
+  const updateSelected = (changes: Partial<ActionChecklist>) => {
+    setChecklists(prev => prev.map(c =>
+      c.id === selectedId ? { ...c, ...changes, updatedAt: new Date().toISOString() } : c
+    ));
+  };
+
+  const updateStep = (stepId: string, changes: Partial<ChecklistStep>) => {
+    if (!selected) return;
+    updateSelected({ steps: selected.steps.map(s => s.id === stepId ? { ...s, ...changes } : s) });
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    if (!selected) return;
+    const steps = [...selected.steps];
+    const [step] = steps.splice(index, 1);
+    steps.splice(index + offset, 0, step);
+    updateSelected({ steps });
+  };
+
+  const handleAdd = () => {
+    const checklist = createChecklist('New Checklist');
+    setChecklists(prev => [...prev, checklist]);
+    setSelectedId(checklist.id);
+  };
+
+  const handleDelete = () => {
+    if (!selected || !window.confirm(`Delete checklist "${selected.name}"? Actions already created from it are kept.`)) return;
+    const remaining = checklists.filter(c => c.id !== selected.id);
+    setChecklists(remaining);
+    setSelectedId(remaining[0]?.id ?? null);
+  };
+
+  const handleSave = () => {
+    const unnamed = checklists.find(c => !c.name.trim());
+    if (unnamed) {
+      alert('Every checklist needs a name.');
+      setSelectedId(unnamed.id);
+      return;
+    }
+    onSave(checklists.map(c => ({
+      ...c,
+      name: c.name.trim(),
+      appliesTo: c.appliesTo.map(label => label.trim()).filter(Boolean),
+      steps: c.steps.filter(s => s.action.trim()),
+    })));
+    onClose();
+  };
+
+  const inputStyle = { backgroundColor: 'var(--color-surface-primary)', color: 'var(--color-text-primary)', border: '1px solid var(--color-border-secondary)' };
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black/50 z-50" onClick={onClose} />
+
+      {/* Modal */}
+      <div
+        className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-50 w-[780px] max-h-[80vh] rounded-xl shadow-2xl overflow-hidden flex flex-col"
+        style={{ backgroundColor: 'var(--color-surface-primary)', border: '1px solid var(--color-border-primary)' }}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 shrink-0" style={{ borderBottom: '1px solid var(--color-border-primary)' }}>
+          <h2 className="text-lg font-bold flex items-center gap-2" style={{ color: 'var(--color-text-primary)' }}>
+            <ListChecks size={18} /> Action Checklists — {project.name}
+          </h2>
+          <button onClick={onClose} className="p-1.5 rounded transition-colors" style={{ color: 'var(--color-text-muted)' }}>
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex flex-1 min-h-0">
+          {/* Checklist list */}
+          <div className="w-56 shrink-0 flex flex-col" style={{ borderRight: '1px solid var(--color-border-primary)' }}>
+            <div className="flex-1 overflow-y-auto p-2 space-y-1">
+              {checklists.length === 0 && (
+                <p className="text-xs italic p-2" style={{ color: 'var(--color-text-muted)' }}>
+                  No checklists yet.
+                </p>
+              )}
+              {checklists.map(c => (
+                <button
+                  key={c.id}
+                  onClick={() => setSelectedId(c.id)}
+                  className={`w-full text-left px-3 py-2 rounded text-sm ${c.id === selectedId ? 'bg-indigo-600 text-white' : ''}`}
+                  style={c.id !== selectedId ? { color: 'var(--color-text-secondary)' } : undefined}
+                >
+                  <div className="font-medium truncate">{c.name || 'Untitled'}</div>
+                  <div className={`text-xs ${c.id === selectedId ? 'text-indigo-100' : ''}`} style={c.id !== selectedId ? { color: 'var(--color-text-muted)' } : undefined}>
+                    {c.steps.length} step{c.steps.length !== 1 ? 's' : ''}
+                  </div>
+                </button>
+              ))}
+            </div>
+            <div className="p-2" style={{ borderTop: '1px solid var(--color-border-primary)' }}>
+              <button
+                onClick={handleAdd}
+                className="w-full flex items-center justify-center gap-1 px-3 py-1.5 text-sm font-medium rounded-lg"
+                style={{ backgroundColor: 'var(--color-surface-tertiary)', color: 'var(--color-text-secondary)' }}
+              >
+                <Plus size={14} /> New Checklist
+              </button>
+            </div>
+          </div>
+
+          {/* Editor */}
+          <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+            {!selected ? (
+              <p className="text-sm" style={{ color: 'var(--color-text-muted)' }}>
+                Checklists hold the standard steps a cause usually needs, such as pulling logs or checking a calibration record. Apply one from the inspector to create all its actions at once.
+              </p>
+            ) : (
+              <>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={selected.name}
+                    onChange={(e) => updateSelected({ name: e.target.value })}
+                    placeholder="Checklist name"
+                    className="flex-1 text-sm font-semibold rounded px-3 py-1.5"
+                    style={inputStyle}
+                  />
+                  <button
+                    onClick={handleDelete}
+                    className="p-2 rounded hover:text-red-500"
+                    style={{ color: 'var(--color-text-muted)' }}
+                    title="Delete checklist"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+                <textarea
+                  value={selected.description}
+                  onChange={(e) => updateSelected({ description: e.target.value })}
+                  placeholder="When to use this checklist"
+                  rows={2}
+                  className="w-full text-sm rounded px-3 py-1.5 resize-none"
+                  style={inputStyle}
+                />
+                <div>
+                  <label className="text-xs uppercase font-semibold" style={{ color: 'var(--color-text-muted)' }}>Suggested for</label>
+                  <input
+                    type="text"
+                    value={selected.appliesTo.join(', ')}
+                    onChange={(e) => updateSelected({ appliesTo: e.target.value.split(',').map(s => s.trimStart()).filter((s, i, all) => s || i === all.length - 1) })}
+                    placeholder="e.g. Machine, Measurement"
+                    className="w-full text-sm rounded px-3 py-1.5 mt-1"
+                    style={inputStyle}
+                  />
+                  <p className="text-[10px] mt-1" style={{ color: 'var(--color-text-muted)' }}>
+                    Comma-separated cause or category labels. The checklist is offered first for causes under them.
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-xs uppercase font-semibold" style={{ color: 'var(--color-text-muted)' }}>Steps</label>
+                  {selected.steps.map((step, i) => (
+                    <div key={step.id} className="flex gap-2 items-start p-2 rounded" style={{ backgroundColor: 'var(--color-surface-tertiary)' }}>
+                      <span className="text-xs font-mono pt-2 w-5 shrink-0 text-right" style={{ color: 'var(--color-text-muted)' }}>{i + 1}.</span>
+                      <div className="flex-1 space-y-1">
+                        <input
+                          type="text"
+                          value={step.action}
+                          onChange={(e) => updateStep(step.id, { action: e.target.value })}
+                          placeholder="Action, e.g. Pull the machine logs"
+                          className="w-full text-sm rounded px-2 py-1"
+                          style={inputStyle}
+                        />
+                        <input
+                          type="text"
+                          value={step.rationale}
+                          onChange={(e) => updateStep(step.id, { rationale: e.target.value })}
+                          placeholder="Rationale (optional)"
+                          className="w-full text-xs rounded px-2 py-1"
+                          style={inputStyle}
+                        />
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        <input
+                          type="number"
+                          min={0}
+                          value={step.dueInDays ?? ''}
+                          onChange={(e) => updateStep(step.id, { dueInDays: e.target.value === '' ? null : Math.max(0, Math.round(Number(e.target.value))) })}
+                          placeholder="–"
+                          className="w-14 text-sm rounded px-2 py-1"
+                          style={inputStyle}
+                          title="Due this many days after the checklist is applied; leave empty for no due date"
+                        />
+                        <span className="text-xs" style={{ color: 'var(--color-text-muted)' }}>days</span>
+                      </div>
+                      <div className="flex flex-col shrink-0">
+                        <button onClick={() => moveStep(i, -1)} disabled={i === 0} className="disabled:opacity-30" style={{ color: 'var(--color-text-muted)' }} title="Move up">
+                          <ChevronUp size={14} />
+                        </button>
+                        <button onClick={() => moveStep(i, 1)} disabled={i === selected.steps.length - 1} className="disabled:opacity-30" style={{ color: 'var(--color-text-muted)' }} title="Move down">
+                          <ChevronDown size={14} />
+                        </button>
+                      </div>
+                      <button
+                        onClick={() => updateSelected({ steps: selected.steps.filter(s => s.id !== step.id) })}
+                        className="p-1 rounded hover:text-red-500 shrink-0"
+                        style={{ color: 'var(--color-text-muted)' }}
+                        title="Remove step"
+                      >
+                        <X size={14} />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => updateSelected({ steps: [...selected.steps, createChecklistStep()] })}
+                    className="flex items-center gap-1 text-sm font-medium text-indigo-600 hover:text-indigo-700"
+                  >
+                    <Plus size={14} /> Add Step
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 px-6 py-4 shrink-0" style={{ borderTop: '1px solid var(--color-border-primary)' }}>
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm rounded-lg transition-colors"
+            style={{ color: 'var(--color-text-secondary)' }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors"
+          >
+            <Check size={14} /> Save Checklists
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useMemo, useState } from 'react';
+import { CauseNode } from '../types';
+import { STATUS_COLORS } from '../constants';
+import { computeMinimalCutSets, flattenTree } from '../treeUtils';
+import { X, Sigma, AlertTriangle } from 'lucide-react';
+
+interface CutSetDialogProps {
+  treeData: CauseNode;
+  onSelectNode: (nodeId: string) => void;
+  onClose: () => void;
+}
+
+export const CutSetDialog: React.FC<CutSetDialogProps> = ({
+  treeData,
+  onSelectNode,
+  onClose,
+}) => {
+  const [excludeRuledOut, setExcludeRuledOut] = useState(true);
+
+  const { cutSets, truncated } = useMemo(
+    () => computeMinimalCutSets(treeData, excludeRuledOut),
+    [treeData, excludeRuledOut]
+  );
+  const nodesById = useMemo(() => new Map(flattenTree(treeData).map(n => [n.id, n])), [treeData]);
+
+  // Group by order (number of causes in the set); order 1 = single points of failure
+  const byOrder = useMemo(() => {
+    const groups = new Map<number, string[][]>();
+    for (const set of cutSets) {
+      if (!groups.has(set.length)) groups.set(set.length, []);
+      groups.get(set.length)!.push(set);
+    }
+    return [...groups.entries()].sort((a, b) => a[0] - b[0]);
+  }, [cutSets]);
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black/50 z-50" onClick={onClose} />
+
+      {/* Modal */}
+      <div
+        className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-50 w-[560px] max-h-[80vh] rounded-xl shadow-2xl overflow-hidden flex flex-col"
+        style={{ backgroundColor: 'var(--color-surface-primary)', border: '1px solid var(--color-border-primary)' }}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 shrink-0" style={{ borderBottom: '1px solid var(--color-border-primary)' }}>
+          <h2 className="text-lg font-bold flex items-center gap-2" style={{ color: 'var(--color-text-primary)' }}>
+            <Sigma size={18} /> Minimal Cut Sets ({cutSets.length})
+          </h2>
+          <button onClick={onClose} className="p-1.5 rounded transition-colors" style={{ color: 'var(--color-text-muted)' }}>
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4 space-y-4 overflow-y-auto">
+          <p className="text-xs" style={{ color: 'var(--color-text-tertiary)' }}>
+            Each set is a smallest combination of leaf causes that, occurring together, produces "{treeData.label}" through the tree's logic gates. Click a cause to select it.
+          </p>
+          <label className="flex items-center gap-2 text-sm cursor-pointer select-none" style={{ color: 'var(--color-text-secondary)' }}>
+            <input
+              type="checkbox"
+              checked={excludeRuledOut}
+              onChange={(e) => setExcludeRuledOut(e.target.checked)}
+              className="rounded"
+            />
+            Ignore ruled-out causes
+          </label>
+
+          {truncated && (
+            <div className="p-3 rounded-lg border border-amber-300 bg-amber-50 text-xs text-amber-800 flex items-start gap-2">
+              <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+              The tree has too many combinations to list them all; only the smallest sets found are shown.
+            </div>
+          )}
+
+          {cutSets.length === 0 && (
+            <p className="text-sm italic" style={{ color: 'var(--color-text-muted)' }}>
+              No cut sets. Add causes under the problem statement{excludeRuledOut ? ', or include ruled-out causes' : ''}.
+            </p>
+          )}
+
+          {byOrder.map(([order, sets]) => (
+            <div key={order} className="space-y-1">
+              <div className="text-xs font-semibold uppercase" style={{ color: 'var(--color-text-tertiary)' }}>
+                Order {order}{order === 1 ? ' — single points of failure' : ''} ({sets.length})
+              </div>
+              {sets.map(set => (
+                <div
+                  key={set.join('|')}
+                  className="flex flex-wrap items-center gap-1 px-3 py-2 rounded-lg"
+                  style={{ backgroundColor: 'var(--color-surface-tertiary)' }}
+                >
+                  {set.map((id, i) => {
+                    const node = nodesById.get(id);
+                    if (!node) return null;
+                    const colors = STATUS_COLORS[node.status];
+                    return (
+                      <React.Fragment key={id}>
+                        {i > 0 && <span className="text-[10px] font-bold" style={{ color: 'var(--color-text-muted)' }}>AND</span>}
+                        <button
+                          onClick={() => onSelectNode(id)}
+                          className="px-2 py-0.5 rounded border text-xs font-medium"
+                          style={{ backgroundColor: colors.bg, borderColor: colors.border, color: colors.text }}
+                        >
+                          {node.label}
+                        </button>
+                      </React.Fragment>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </>
+  );
+};
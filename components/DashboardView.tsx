@@ -1,6 +1,6 @@
 import React from 'react';
 import { SavedTree, NodeStatus } from '../types';
-import { STATUS_COLORS, RESOLUTION_STATUS_COLORS } from '../constants';
+import { NODE_STATUS_LABELS, STATUS_COLORS, RESOLUTION_STATUS_COLORS } from '../constants';
 import { getTreeStats, formatDate } from '../treeUtils';
 import { FileText, FileStack } from 'lucide-react';
 
@@ -11,13 +11,6 @@ interface DashboardViewProps {
   onGenerateBulkReport: () => void;
 }
 
-const STATUS_LABELS: Record<NodeStatus, string> = {
-  [NodeStatus.PENDING]: 'Pending',
-  [NodeStatus.ACTIVE]: 'Active',
-  [NodeStatus.RULED_OUT]: 'Ruled Out',
-  [NodeStatus.CONFIRMED]: 'Confirmed',
-};
-
 export const DashboardView: React.FC<DashboardViewProps> = ({
   trees,
   onSelectTree,
@@ -137,7 +130,7 @@ export const DashboardView: React.FC<DashboardViewProps> = ({
                           border: `1px solid ${colors.border}`,
                         }}
                       >
-                        {count} {STATUS_LABELS[status]}
+                        {count} {NODE_STATUS_LABELS[status]}
                       </span>
                     );
                   })}
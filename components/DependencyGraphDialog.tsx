@@ -0,0 +1,140 @@
+import React, { useMemo } from 'react';
+import { SavedTree } from '../types';
+import { buildDependencyGraph } from '../dependencies';
+import { Network, X, AlertTriangle } from 'lucide-react';
+
+const ACTION_STATUS_COLORS: Record<string, { bg: string; border: string; text: string }> = {
+  'Open': { bg: 'var(--color-action-open-bg)', border: 'var(--color-action-open-border)', text: 'var(--color-action-open-text)' },
+  'In Progress': { bg: 'var(--color-action-progress-bg)', border: 'var(--color-action-progress-border)', text: 'var(--color-action-progress-text)' },
+  'Complete': { bg: 'var(--color-action-complete-bg)', border: 'var(--color-action-complete-border)', text: 'var(--color-action-complete-text)' },
+  'Blocked': { bg: 'var(--color-action-blocked-bg)', border: 'var(--color-action-blocked-border)', text: 'var(--color-action-blocked-text)' },
+  'Closed': { bg: 'var(--color-action-closed-bg)', border: 'var(--color-action-closed-border)', text: 'var(--color-action-closed-text)' },
+};
+
+const NODE_WIDTH = 200;
+const NODE_HEIGHT = 60;
+const COLUMN_GAP = 64;
+const ROW_GAP = 16;
+const PADDING = 16;
+
+interface DependencyGraphDialogProps {
+  trees: SavedTree[];
+  activeTreeId: string;
+  onNavigateToNode: (nodeId: string, treeId: string) => void;
+  onClose: () => void;
+}
+
+export const DependencyGraphDialog: React.FC<DependencyGraphDialogProps> = ({
+  trees,
+  activeTreeId,
+  onNavigateToNode,
+  onClose,
+}) => {
+  const { nodes, edges } = useMemo(() => buildDependencyGraph(trees), [trees]);
+  const positions = new Map<string, { x: number; y: number }>(nodes.map(n => [n.key, {
+    x: PADDING + n.depth * (NODE_WIDTH + COLUMN_GAP),
+    y: PADDING + n.row * (NODE_HEIGHT + ROW_GAP),
+  }]));
+  const width = PADDING * 2 + (Math.max(0, ...nodes.map(n => n.depth)) + 1) * (NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP;
+  const height = PADDING * 2 + Math.max(1, ...nodes.map(n => n.row + 1)) * (NODE_HEIGHT + ROW_GAP) - ROW_GAP;
+  const slipCount = edges.filter(e => e.isSlipping).length;
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black/50 z-50" onClick={onClose} />
+
+      {/* Modal */}
+      <div
+        className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-50 w-[900px] max-w-[95vw] max-h-[80vh] rounded-xl shadow-2xl overflow-hidden flex flex-col"
+        style={{ backgroundColor: 'var(--color-surface-primary)', border: '1px solid var(--color-border-primary)' }}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 shrink-0" style={{ borderBottom: '1px solid var(--color-border-primary)' }}>
+          <h2 className="text-lg font-bold flex items-center gap-2" style={{ color: 'var(--color-text-primary)' }}>
+            <Network size={18} /> Action Dependencies
+          </h2>
+          <button onClick={onClose} className="p-1.5 rounded transition-colors" style={{ color: 'var(--color-text-muted)' }}>
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4 space-y-3 overflow-auto">
+          <p className="text-xs" style={{ color: 'var(--color-text-tertiary)' }}>
+            Predecessors on the left, the actions waiting on them to the right, across every investigation in the project.
+            {slipCount > 0 && <span className="text-red-600"> Red links: the predecessor is due after the action that depends on it ({slipCount}).</span>}
+            {' '}Click an action to view its cause.
+          </p>
+
+          {nodes.length === 0 ? (
+            <div className="text-center py-10" style={{ color: 'var(--color-text-muted)' }}>
+              <Network size={40} className="mx-auto mb-3 opacity-50" />
+              <p className="text-sm">No dependencies yet. Add them from an action's "Depends on" list.</p>
+            </div>
+          ) : (
+            <div className="relative" style={{ width, height }}>
+              <svg className="absolute inset-0" width={width} height={height}>
+                <defs>
+                  {['open', 'done', 'slip'].map(kind => (
+                    <marker key={kind} id={`dep-arrow-${kind}`} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto">
+                      <path d="M0,0 L10,5 L0,10 z" fill={kind === 'slip' ? '#dc2626' : kind === 'done' ? '#94a3b8' : '#6366f1'} />
+                    </marker>
+                  ))}
+                </defs>
+                {edges.map(edge => {
+                  const from = positions.get(edge.from)!;
+                  const to = positions.get(edge.to)!;
+                  const x1 = from.x + NODE_WIDTH;
+                  const y1 = from.y + NODE_HEIGHT / 2;
+                  const x2 = to.x;
+                  const y2 = to.y + NODE_HEIGHT / 2;
+                  const bend = Math.max(24, (x2 - x1) / 2);
+                  const kind = edge.isSlipping ? 'slip' : edge.isOpen ? 'open' : 'done';
+                  return (
+                    <path
+                      key={`${edge.from}>${edge.to}`}
+                      d={`M${x1},${y1} C${x1 + bend},${y1} ${x2 - bend},${y2} ${x2},${y2}`}
+                      fill="none"
+                      stroke={kind === 'slip' ? '#dc2626' : kind === 'done' ? '#94a3b8' : '#6366f1'}
+                      strokeWidth={kind === 'slip' ? 2 : 1.5}
+                      strokeDasharray={kind === 'done' ? '4 3' : undefined}
+                      markerEnd={`url(#dep-arrow-${kind})`}
+                    />
+                  );
+                })}
+              </svg>
+
+              {nodes.map(node => {
+                const pos = positions.get(node.key)!;
+                const colors = ACTION_STATUS_COLORS[node.action.status] ?? ACTION_STATUS_COLORS['Open'];
+                const slips = edges.some(e => e.to === node.key && e.isSlipping);
+                return (
+                  <button
+                    key={node.key}
+                    onClick={() => onNavigateToNode(node.action.causeId, node.treeId)}
+                    className="absolute text-left px-2.5 py-1.5 rounded-lg border shadow-sm hover:ring-2 hover:ring-indigo-400 transition-all"
+                    style={{ left: pos.x, top: pos.y, width: NODE_WIDTH, height: NODE_HEIGHT, backgroundColor: colors.bg, borderColor: colors.border }}
+                    title={`${node.action.action}\n${node.treeName} · ${node.action.status}${node.action.dueDate ? ` · due ${node.action.dueDate}` : ''}`}
+                  >
+                    <div className="text-xs font-semibold truncate flex items-center gap-1" style={{ color: colors.text }}>
+                      {slips && <AlertTriangle size={11} className="text-red-600 shrink-0" />}
+                      <span className="truncate">{node.action.action || 'Untitled action'}</span>
+                    </div>
+                    <div className="text-[10px] truncate mt-0.5" style={{ color: 'var(--color-text-tertiary)' }}>
+                      {node.treeId !== activeTreeId && <span>{node.treeName} · </span>}
+                      {node.action.assignee || 'Unassigned'}
+                    </div>
+                    <div className="text-[10px] truncate" style={{ color: 'var(--color-text-muted)' }}>
+                      {node.action.status}{node.action.dueDate ? ` · due ${node.action.dueDate}` : ''}
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,290 @@
+import React, { useMemo, useState, useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+import { CauseNode, NodeStatus, NodeType } from '../types';
+import { STATUS_COLORS } from '../constants';
+import { pruneCollapsed } from '../treeUtils';
+import { Move, Crosshair, Plus } from 'lucide-react';
+
+interface FishboneVisualizerProps {
+  data: CauseNode;
+  selectedId: string | null;
+  collapsedNodeIds?: string[];
+  onSelectNode: (node: CauseNode) => void;
+  onAddNode: (parentId: string, type?: NodeType) => void;
+}
+
+// Layout constants (px, in diagram coordinates)
+const HEAD_WIDTH = 200;
+const HEAD_HEIGHT = 80;
+const RIB_SPACING = 30;          // Vertical distance between ribs along a bone
+const RIB_LINE = 24;             // Length of a top-level rib line
+const RIB_INDENT = 18;           // Extra rib length per nesting level
+const RIB_LABEL_WIDTH = 170;
+const RIB_LABEL_HEIGHT = 24;
+const BONE_LABEL_WIDTH = 180;
+const BONE_LABEL_HEIGHT = 40;
+const BONE_SLANT = 0.5;          // Horizontal run per unit of vertical bone length
+const COLUMN_GAP = 40;
+
+interface Rib {
+  node: CauseNode;
+  depth: number;
+  attachX: number;
+  attachY: number;
+}
+
+interface Bone {
+  node: CauseNode;
+  side: -1 | 1;                  // -1 above the spine, 1 below
+  startX: number;
+  endX: number;
+  endY: number;
+  ribs: Rib[];
+}
+
+// Causes under a bone in depth-first order, so sub-causes sit right after their parent
+function flattenRibs(node: CauseNode, depth: number = 0): { node: CauseNode; depth: number }[] {
+  const result: { node: CauseNode; depth: number }[] = [];
+  for (const child of node.children ?? []) {
+    result.push({ node: child, depth });
+    result.push(...flattenRibs(child, depth + 1));
+  }
+  return result;
+}
+
+// The head (ISSUE) sits at the origin on the right; children of the head are bones,
+// alternating above and below the spine and stepping left in columns.
+function layoutFishbone(root: CauseNode): { bones: Bone[]; spineStartX: number } {
+  const children = root.children ?? [];
+  const bones: Bone[] = [];
+  let columnX = -COLUMN_GAP;
+
+  for (let i = 0; i < children.length; i += 2) {
+    const pair = children.slice(i, i + 2);
+    let columnWidth = BONE_LABEL_WIDTH;
+
+    pair.forEach((boneNode, j) => {
+      const side: -1 | 1 = j === 0 ? -1 : 1;
+      const ribNodes = flattenRibs(boneNode);
+      const length = Math.max(3, ribNodes.length + 1) * RIB_SPACING;
+      const run = length * BONE_SLANT;
+      const startX = columnX;
+      const endX = startX - run;
+      const endY = side * length;
+
+      const ribs = ribNodes.map((rib, k) => {
+        const t = (k + 1) / (ribNodes.length + 1);
+        return { ...rib, attachX: startX - t * run, attachY: side * t * length };
+      });
+      bones.push({ node: boneNode, side, startX, endX, endY, ribs });
+
+      const maxDepth = ribNodes.reduce((max, r) => Math.max(max, r.depth), 0);
+      columnWidth = Math.max(columnWidth, run + RIB_LINE + maxDepth * RIB_INDENT + RIB_LABEL_WIDTH);
+    });
+
+    columnX -= columnWidth + COLUMN_GAP;
+  }
+
+  return { bones, spineStartX: Math.min(columnX + COLUMN_GAP, -COLUMN_GAP * 2) };
+}
+
+export const FishboneVisualizer: React.FC<FishboneVisualizerProps> = ({
+  data,
+  selectedId,
+  collapsedNodeIds = [],
+  onSelectNode,
+  onAddNode,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
+  const [transform, setTransform] = useState({ k: 1, x: 0, y: 0 });
+
+  const collapsedSet = useMemo(() => new Set(collapsedNodeIds), [collapsedNodeIds]);
+  const { bones, spineStartX } = useMemo(
+    () => layoutFishbone(pruneCollapsed(data, collapsedSet)),
+    [data, collapsedSet]
+  );
+
+  const initialTransform = () => {
+    const { width, height } = containerRef.current!.getBoundingClientRect();
+    return d3.zoomIdentity.translate(width - HEAD_WIDTH - 120, height / 2).scale(0.8);
+  };
+
+  // Setup Zoom/Pan
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const zoom = d3.zoom<SVGSVGElement, unknown>()
+      .scaleExtent([0.1, 2])
+      .filter((event) => {
+        if (event.type === 'wheel') return true;
+        if (event.ctrlKey || event.button) return false;
+        return !(event.target as Element).closest?.('[data-node-id]');
+      })
+      .on('zoom', (event) => {
+        setTransform(event.transform);
+      });
+
+    zoomRef.current = zoom;
+    d3.select(svgRef.current).call(zoom);
+    if (containerRef.current) {
+      d3.select(svgRef.current).call(zoom.transform, initialTransform());
+    }
+  }, []); // Run once on mount
+
+  const handleRecenter = () => {
+    if (!svgRef.current || !containerRef.current || !zoomRef.current) return;
+    d3.select(svgRef.current)
+      .transition()
+      .duration(300)
+      .call(zoomRef.current.transform, initialTransform());
+  };
+
+  const selectionStyle = (node: CauseNode): React.CSSProperties => {
+    const colors = STATUS_COLORS[node.status];
+    const isSelected = node.id === selectedId;
+    return {
+      backgroundColor: colors.bg,
+      color: colors.text,
+      borderColor: isSelected ? '#6366f1' : (node.isRootCause || node.isRootCauseCandidate ? '#f59e0b' : colors.border),
+      borderStyle: !node.isRootCause && node.isRootCauseCandidate ? 'dashed' : undefined,
+      boxShadow: isSelected ? '0 0 0 3px rgba(99,102,241,0.3)' : node.isRootCause ? '0 0 0 2px rgba(245,158,11,0.3)' : undefined,
+    };
+  };
+
+  const strokeFor = (node: CauseNode) => STATUS_COLORS[node.status].border;
+  const opacityFor = (node: CauseNode) => node.status === NodeStatus.PENDING ? 0.4 : 0.8;
+
+  const addButton = (parentId: string, type: NodeType, title: string) => (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        onAddNode(parentId, type);
+      }}
+      className="p-0.5 rounded shadow-sm opacity-0 group-hover:opacity-100 transition-opacity shrink-0"
+      style={{
+        backgroundColor: 'var(--color-surface-primary)',
+        color: 'var(--color-text-secondary)',
+        border: '1px solid var(--color-border-primary)',
+      }}
+      title={title}
+    >
+      <Plus size={12} />
+    </button>
+  );
+
+  return (
+    <div ref={containerRef} className="w-full h-full overflow-hidden relative cursor-move" style={{ backgroundColor: 'var(--color-surface-secondary)' }}>
+      <div className="absolute top-4 left-4 z-10 flex gap-2">
+        <div className="backdrop-blur p-2 rounded shadow text-xs" style={{ backgroundColor: 'var(--color-surface-primary)', color: 'var(--color-text-tertiary)', opacity: 0.8 }}>
+          <div className="flex items-center gap-2"><Move size={14} /> Pan & Zoom · Categories are bones, causes are ribs</div>
+        </div>
+        <button
+          onClick={handleRecenter}
+          className="backdrop-blur p-2 rounded shadow text-xs flex items-center gap-2 hover:opacity-100 transition-opacity"
+          style={{ backgroundColor: 'var(--color-surface-primary)', color: 'var(--color-text-secondary)', opacity: 0.8 }}
+          title="Re-center diagram"
+        >
+          <Crosshair size={14} /> Re-center
+        </button>
+      </div>
+
+      <svg ref={svgRef} className="w-full h-full">
+        <g transform={`translate(${transform.x},${transform.y}) scale(${transform.k})`}>
+          {/* Spine */}
+          <line x1={spineStartX} y1={0} x2={0} y2={0} stroke="var(--color-text-muted)" strokeWidth={4} strokeLinecap="round" />
+
+          {/* Bones and ribs */}
+          {bones.map(bone => (
+            <g key={bone.node.id}>
+              <line
+                x1={bone.startX}
+                y1={0}
+                x2={bone.endX}
+                y2={bone.endY}
+                stroke={strokeFor(bone.node)}
+                strokeOpacity={opacityFor(bone.node)}
+                strokeWidth={3}
+              />
+              {bone.ribs.map(rib => {
+                const lineLength = RIB_LINE + rib.depth * RIB_INDENT;
+                const labelRight = rib.attachX - lineLength;
+                return (
+                  <g key={rib.node.id}>
+                    <line
+                      x1={labelRight}
+                      y1={rib.attachY}
+                      x2={rib.attachX}
+                      y2={rib.attachY}
+                      stroke={strokeFor(rib.node)}
+                      strokeOpacity={opacityFor(rib.node)}
+                      strokeWidth={2}
+                    />
+                    <foreignObject
+                      x={labelRight - RIB_LABEL_WIDTH}
+                      y={rib.attachY - RIB_LABEL_HEIGHT / 2}
+                      width={RIB_LABEL_WIDTH}
+                      height={RIB_LABEL_HEIGHT}
+                      className="overflow-visible"
+                    >
+                      <div className="w-full h-full flex justify-end items-center gap-1 group">
+                        {addButton(rib.node.id, NodeType.CAUSE, 'Add sub-cause')}
+                        <div
+                          data-node-id={rib.node.id}
+                          onClick={(e) => { e.stopPropagation(); onSelectNode(rib.node); }}
+                          className="px-2 py-0.5 rounded border text-xs font-medium truncate cursor-pointer max-w-full"
+                          style={selectionStyle(rib.node)}
+                          title={rib.node.description || rib.node.label}
+                        >
+                          {rib.node.label}
+                        </div>
+                      </div>
+                    </foreignObject>
+                  </g>
+                );
+              })}
+
+              {/* Bone label at the outer end */}
+              <foreignObject
+                x={bone.endX - BONE_LABEL_WIDTH / 2}
+                y={bone.side < 0 ? bone.endY - BONE_LABEL_HEIGHT : bone.endY}
+                width={BONE_LABEL_WIDTH}
+                height={BONE_LABEL_HEIGHT}
+                className="overflow-visible"
+              >
+                <div className="w-full h-full flex items-center justify-center gap-1 group">
+                  <div
+                    data-node-id={bone.node.id}
+                    onClick={(e) => { e.stopPropagation(); onSelectNode(bone.node); }}
+                    className="px-3 py-1 rounded-lg border-2 text-sm font-bold truncate cursor-pointer max-w-full"
+                    style={selectionStyle(bone.node)}
+                    title={bone.node.description || bone.node.label}
+                  >
+                    {bone.node.label}
+                  </div>
+                  {addButton(bone.node.id, NodeType.CAUSE, 'Add cause to this category')}
+                </div>
+              </foreignObject>
+            </g>
+          ))}
+
+          {/* Head (problem statement) */}
+          <foreignObject x={0} y={-HEAD_HEIGHT / 2} width={HEAD_WIDTH} height={HEAD_HEIGHT} className="overflow-visible">
+            <div
+              data-node-id={data.id}
+              onClick={(e) => { e.stopPropagation(); onSelectNode(data); }}
+              className="w-full h-full rounded-r-[40px] rounded-l-lg border-2 p-3 flex items-center gap-2 cursor-pointer group"
+              style={selectionStyle(data)}
+            >
+              <h3 className="font-bold text-sm leading-tight flex-1 line-clamp-3" style={{ wordBreak: 'break-word' }}>
+                {data.label}
+              </h3>
+              {addButton(data.id, NodeType.CATEGORY, 'Add category bone')}
+            </div>
+          </foreignObject>
+        </g>
+      </svg>
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { CauseNode } from '../types';
+import { CauseChainStep } from '../treeUtils';
+import { X, HelpCircle, ArrowLeft, ArrowRight, Flag, CornerDownRight } from 'lucide-react';
+
+interface FiveWhysWizardProps {
+  startNode: CauseNode;
+  onComplete: (steps: CauseChainStep[]) => void;
+  onClose: () => void;
+}
+
+// Classic drill-down depth; facilitators may stop earlier or keep going
+const SUGGESTED_DEPTH = 5;
+
+export const FiveWhysWizard: React.FC<FiveWhysWizardProps> = ({
+  startNode,
+  onComplete,
+  onClose,
+}) => {
+  const [steps, setSteps] = useState<CauseChainStep[]>([{ answer: '', rationale: '' }]);
+  const [current, setCurrent] = useState(0);
+
+  const step = steps[current];
+  // The statement this "why" is asked about: the starting node, then each previous answer
+  const subject = current === 0 ? startNode.label : steps[current - 1].answer;
+  const canAdvance = step.answer.trim().length > 0;
+
+  const updateStep = (patch: Partial<CauseChainStep>) => {
+    setSteps(prev => prev.map((s, i) => i === current ? { ...s, ...patch } : s));
+  };
+
+  const handleNext = () => {
+    if (!canAdvance) return;
+    if (current === steps.length - 1) {
+      setSteps(prev => [...prev, { answer: '', rationale: '' }]);
+    }
+    setCurrent(current + 1);
+  };
+
+  const handleFinish = () => {
+    if (!canAdvance) return;
+    // Later steps only exist if the user went forward and then back; the chain ends here
+    onComplete(steps.slice(0, current + 1));
+  };
+
+  const inputStyle: React.CSSProperties = {
+    backgroundColor: 'var(--color-surface-primary)',
+    color: 'var(--color-text-primary)',
+    border: '1px solid var(--color-border-secondary)',
+  };
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black/50 z-50" onClick={onClose} />
+
+      {/* Modal */}
+      <div
+        className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-50 w-[520px] rounded-xl shadow-2xl overflow-hidden"
+        style={{ backgroundColor: 'var(--color-surface-primary)', border: '1px solid var(--color-border-primary)' }}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4" style={{ borderBottom: '1px solid var(--color-border-primary)' }}>
+          <h2 className="text-lg font-bold flex items-center gap-2" style={{ color: 'var(--color-text-primary)' }}>
+            <HelpCircle size={18} /> 5 Whys — Why #{current + 1}
+          </h2>
+          <button onClick={onClose} className="p-1.5 rounded transition-colors" style={{ color: 'var(--color-text-muted)' }}>
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-5 space-y-4">
+          {/* Chain so far */}
+          <div className="space-y-1 text-xs" style={{ color: 'var(--color-text-tertiary)' }}>
+            <div className="font-semibold truncate" style={{ color: 'var(--color-text-secondary)' }}>{startNode.label}</div>
+            {steps.slice(0, current).map((s, i) => (
+              <div key={i} className="flex items-center gap-1 truncate" style={{ paddingLeft: `${(i + 1) * 12}px` }}>
+                <CornerDownRight size={12} className="shrink-0" /> {s.answer}
+              </div>
+            ))}
+          </div>
+
+          <div className="p-3 rounded-lg" style={{ backgroundColor: 'var(--color-brand-light)' }}>
+            <p className="text-sm font-semibold" style={{ color: 'var(--color-text-primary)' }}>Why did this happen?</p>
+            <p className="text-xs mt-1 italic" style={{ color: 'var(--color-text-secondary)' }}>"{subject}"</p>
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-xs font-semibold uppercase" style={{ color: 'var(--color-text-tertiary)' }}>Because...</label>
+            <input
+              type="text"
+              value={step.answer}
+              onChange={(e) => updateStep({ answer: e.target.value })}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleNext(); }}
+              placeholder="Answer becomes a new cause under the one above"
+              className="w-full text-sm rounded px-3 py-1.5"
+              style={inputStyle}
+              autoFocus
+              key={current}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-xs font-semibold uppercase" style={{ color: 'var(--color-text-tertiary)' }}>Rationale</label>
+            <textarea
+              value={step.rationale}
+              onChange={(e) => updateStep({ rationale: e.target.value })}
+              placeholder="What evidence or reasoning supports this answer?"
+              rows={3}
+              className="w-full text-sm rounded px-3 py-1.5"
+              style={inputStyle}
+            />
+          </div>
+
+          {current + 1 >= SUGGESTED_DEPTH && (
+            <p className="text-xs italic" style={{ color: 'var(--color-text-muted)' }}>
+              You have asked why {current + 1} times. If this answer is something the team can act on, finish here.
+            </p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between px-6 py-4" style={{ borderTop: '1px solid var(--color-border-primary)' }}>
+          <button
+            onClick={() => setCurrent(current - 1)}
+            disabled={current === 0}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg transition-colors disabled:opacity-40"
+            style={{ color: 'var(--color-text-secondary)' }}
+          >
+            <ArrowLeft size={14} /> Back
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={handleNext}
+              disabled={!canAdvance}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium rounded-lg transition-colors disabled:opacity-40"
+              style={{ backgroundColor: 'var(--color-surface-tertiary)', color: 'var(--color-text-secondary)' }}
+            >
+              Ask why again <ArrowRight size={14} />
+            </button>
+            <button
+              onClick={handleFinish}
+              disabled={!canAdvance}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors disabled:opacity-40"
+              title="Add the chain to the tree and flag the last answer as a root cause candidate"
+            >
+              <Flag size={14} /> Finish
+            </button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
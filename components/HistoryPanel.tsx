@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { TreeHistory } from '../history';
+import { Undo2, Redo2, History, RotateCcw } from 'lucide-react';
+
+interface HistoryPanelProps {
+  history: TreeHistory;
+  onUndo: (steps?: number) => void;
+  onRedo: () => void;
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  history,
+  onUndo,
+  onRedo,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const canUndo = history.past.length > 0;
+  const canRedo = history.future.length > 0;
+  const lastEntry = history.past[history.past.length - 1];
+  const nextEntry = history.future[history.future.length - 1];
+
+  const formatTime = (iso: string) => {
+    try {
+      return new Date(iso).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+    } catch {
+      return iso;
+    }
+  };
+
+  return (
+    <div className="relative flex items-center">
+      <button
+        onClick={() => onUndo()}
+        disabled={!canUndo}
+        className="p-2 rounded-lg transition-colors disabled:opacity-40"
+        style={{ color: 'var(--color-text-muted)' }}
+        title={canUndo ? `Undo: ${lastEntry.label} (Ctrl+Z)` : 'Nothing to undo'}
+      >
+        <Undo2 size={18} />
+      </button>
+      <button
+        onClick={onRedo}
+        disabled={!canRedo}
+        className="p-2 rounded-lg transition-colors disabled:opacity-40"
+        style={{ color: 'var(--color-text-muted)' }}
+        title={canRedo ? `Redo: ${nextEntry.label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+      >
+        <Redo2 size={18} />
+      </button>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="p-2 rounded-lg transition-colors"
+        style={{ color: isOpen ? 'var(--color-brand)' : 'var(--color-text-muted)' }}
+        title="Edit history"
+      >
+        <History size={18} />
+      </button>
+
+      {/* Dropdown panel */}
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+
+          <div className="absolute top-full mt-2 right-0 w-80 rounded-xl shadow-xl z-50 overflow-hidden" style={{ backgroundColor: 'var(--color-surface-primary)', border: '1px solid var(--color-border-primary)' }}>
+            {/* Header */}
+            <div className="px-4 py-3 flex items-center justify-between" style={{ borderBottom: '1px solid var(--color-border-primary)' }}>
+              <span className="text-sm font-semibold" style={{ color: 'var(--color-text-secondary)' }}>Edit History</span>
+              <span className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
+                {history.past.length} undo · {history.future.length} redo
+              </span>
+            </div>
+
+            <div className="max-h-80 overflow-y-auto py-1">
+              {!canUndo && !canRedo && (
+                <p className="px-4 py-3 text-xs italic" style={{ color: 'var(--color-text-muted)' }}>
+                  No changes to this investigation in this session.
+                </p>
+              )}
+
+              {/* Redo entries (undone changes), furthest first */}
+              {history.future.map(entry => (
+                <div
+                  key={entry.id}
+                  className="px-4 py-2 flex items-center gap-2 text-sm"
+                  style={{ color: 'var(--color-text-muted)', textDecoration: 'line-through' }}
+                >
+                  <span className="flex-1 truncate">{entry.label}</span>
+                  <span className="text-[10px] shrink-0">{formatTime(entry.timestamp)}</span>
+                </div>
+              ))}
+
+              {/* Undo entries, newest first. Clicking one reverts everything after it. */}
+              {[...history.past].reverse().map((entry, i) => (
+                <button
+                  key={entry.id}
+                  onClick={() => { onUndo(i + 1); setIsOpen(false); }}
+                  className="w-full px-4 py-2 flex items-center gap-2 text-sm text-left transition-colors group"
+                  style={{ color: 'var(--color-text-primary)' }}
+                  onMouseEnter={(e) => { e.currentTarget.style.backgroundColor = 'var(--color-surface-tertiary)'; }}
+                  onMouseLeave={(e) => { e.currentTarget.style.backgroundColor = ''; }}
+                  title={i === 0 ? 'Undo this change' : `Undo this and ${i} later change${i !== 1 ? 's' : ''}`}
+                >
+                  <RotateCcw size={12} className="shrink-0 opacity-0 group-hover:opacity-100" style={{ color: 'var(--color-text-muted)' }} />
+                  <span className="flex-1 truncate">{entry.label}</span>
+                  <span className="text-[10px] shrink-0" style={{ color: 'var(--color-text-muted)' }}>{formatTime(entry.timestamp)}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import React, { useState, useMemo } from 'react';
 import { SavedTree } from '../types';
-import { X, Upload, AlertTriangle } from 'lucide-react';
+import { validateTree, ValidationResult } from '../schema';
+import { X, Upload, AlertTriangle, Wrench, ChevronRight } from 'lucide-react';
 
 interface ImportDialogProps {
   importCandidates: SavedTree[];
@@ -23,6 +24,18 @@ export const ImportDialog: React.FC<ImportDialogProps> = ({
     return map;
   });
   const [conflictMode, setConflictMode] = useState<'append' | 'overwrite'>('append');
+  const [autoRepair, setAutoRepair] = useState(true);
+  const [expandedIssues, setExpandedIssues] = useState<Record<string, boolean>>({});
+
+  const validation = useMemo(() => {
+    const map: Record<string, ValidationResult> = {};
+    for (const candidate of importCandidates) {
+      map[candidate.id] = validateTree(candidate);
+    }
+    return map;
+  }, [importCandidates]);
+
+  const totalIssues = importCandidates.reduce((sum, t) => sum + validation[t.id].issues.length, 0);
 
   const conflicts = useMemo(() => {
     const map: Record<string, SavedTree> = {};
@@ -56,7 +69,9 @@ export const ImportDialog: React.FC<ImportDialogProps> = ({
   };
 
   const handleConfirm = () => {
-    const selected = importCandidates.filter(t => checkedMap[t.id]);
+    const selected = importCandidates
+      .filter(t => checkedMap[t.id])
+      .map(t => autoRepair ? validation[t.id].repaired : t);
     onConfirm(selected, conflictMode);
   };
 
@@ -111,6 +126,35 @@ export const ImportDialog: React.FC<ImportDialogProps> = ({
             Found {importCandidates.length} investigation{importCandidates.length !== 1 ? 's' : ''} in file.
           </p>
 
+          {/* Validation summary */}
+          {totalIssues > 0 && (
+            <div
+              className="rounded-lg p-3"
+              style={{ backgroundColor: 'var(--color-status-active-bg)', border: '1px solid var(--color-status-active-border)' }}
+            >
+              <p className="text-sm font-medium flex items-center gap-2" style={{ color: 'var(--color-status-active-text)' }}>
+                <AlertTriangle size={14} />
+                Found {totalIssues} problem{totalIssues !== 1 ? 's' : ''} in the file.
+              </p>
+              <label className="flex items-center gap-2 cursor-pointer mt-2">
+                <input
+                  type="checkbox"
+                  checked={autoRepair}
+                  onChange={(e) => setAutoRepair(e.target.checked)}
+                  className="rounded text-indigo-600 focus:ring-indigo-500"
+                />
+                <span className="text-sm flex items-center gap-1" style={{ color: 'var(--color-text-primary)' }}>
+                  <Wrench size={13} /> Automatically repair problems on import
+                </span>
+              </label>
+              {!autoRepair && (
+                <p className="text-xs mt-1" style={{ color: 'var(--color-text-secondary)' }}>
+                  Investigations will be imported as-is and may not display correctly.
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Conflict resolution mode */}
           {hasAnyConflicts && (
             <div
@@ -164,39 +208,61 @@ export const ImportDialog: React.FC<ImportDialogProps> = ({
           <div className="space-y-1">
             {importCandidates.map(tree => {
               const conflict = conflicts[tree.id];
+              const issues = validation[tree.id].issues;
               return (
-                <label
-                  key={tree.id}
-                  className="flex items-start gap-3 p-3 rounded-lg cursor-pointer transition-colors"
-                  style={{ backgroundColor: checkedMap[tree.id] ? 'var(--color-brand-light)' : undefined }}
-                  onMouseEnter={(e) => { if (!checkedMap[tree.id]) e.currentTarget.style.backgroundColor = 'var(--color-surface-tertiary)'; }}
-                  onMouseLeave={(e) => { if (!checkedMap[tree.id]) e.currentTarget.style.backgroundColor = ''; }}
-                >
-                  <input
-                    type="checkbox"
-                    checked={!!checkedMap[tree.id]}
-                    onChange={() => toggleOne(tree.id)}
-                    className="rounded text-indigo-600 focus:ring-indigo-500 mt-0.5"
-                  />
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center gap-2">
-                      <span className="text-sm font-medium truncate" style={{ color: 'var(--color-text-primary)' }}>
-                        {tree.name}
-                      </span>
-                      {conflict && (
-                        <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-xs font-medium shrink-0"
-                          style={{ backgroundColor: 'var(--color-status-active-bg)', color: 'var(--color-status-active-text)' }}
-                        >
-                          <AlertTriangle size={11} />
-                          Matches existing
+                <div key={tree.id}>
+                  <label
+                    className="flex items-start gap-3 p-3 rounded-lg cursor-pointer transition-colors"
+                    style={{ backgroundColor: checkedMap[tree.id] ? 'var(--color-brand-light)' : undefined }}
+                    onMouseEnter={(e) => { if (!checkedMap[tree.id]) e.currentTarget.style.backgroundColor = 'var(--color-surface-tertiary)'; }}
+                    onMouseLeave={(e) => { if (!checkedMap[tree.id]) e.currentTarget.style.backgroundColor = ''; }}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={!!checkedMap[tree.id]}
+                      onChange={() => toggleOne(tree.id)}
+                      className="rounded text-indigo-600 focus:ring-indigo-500 mt-0.5"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium truncate" style={{ color: 'var(--color-text-primary)' }}>
+                          {tree.name}
                         </span>
-                      )}
+                        {conflict && (
+                          <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-xs font-medium shrink-0"
+                            style={{ backgroundColor: 'var(--color-status-active-bg)', color: 'var(--color-status-active-text)' }}
+                          >
+                            <AlertTriangle size={11} />
+                            Matches existing
+                          </span>
+                        )}
+                        {issues.length > 0 && (
+                          <button
+                            onClick={(e) => { e.preventDefault(); setExpandedIssues(prev => ({ ...prev, [tree.id]: !prev[tree.id] })); }}
+                            className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded text-xs font-medium shrink-0"
+                            style={{ backgroundColor: 'var(--color-status-confirmed-bg)', color: 'var(--color-status-confirmed-text)' }}
+                          >
+                            <ChevronRight size={11} className={`transition-transform ${expandedIssues[tree.id] ? 'rotate-90' : ''}`} />
+                            {issues.length} problem{issues.length !== 1 ? 's' : ''}
+                          </button>
+                        )}
+                      </div>
+                      <div className="text-xs mt-0.5" style={{ color: 'var(--color-text-muted)' }}>
+                        Created: {formatDate(tree.createdAt)} &middot; Updated: {formatDate(tree.updatedAt)}
+                      </div>
                     </div>
-                    <div className="text-xs mt-0.5" style={{ color: 'var(--color-text-muted)' }}>
-                      Created: {formatDate(tree.createdAt)} &middot; Updated: {formatDate(tree.updatedAt)}
-                    </div>
-                  </div>
-                </label>
+                  </label>
+                  {issues.length > 0 && expandedIssues[tree.id] && (
+                    <ul className="ml-10 mb-2 space-y-1 text-xs">
+                      {issues.map((issue, i) => (
+                        <li key={i} style={{ color: 'var(--color-text-secondary)' }}>
+                          <span className="font-medium">{issue.entity}:</span> {issue.message}
+                          {autoRepair && <span style={{ color: 'var(--color-text-muted)' }}> — {issue.repair}</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
               );
             })}
           </div>
@@ -1,6 +1,17 @@
 import React, { useState, useRef, useCallback } from 'react';
-import { ActionItem, ActionUpdate, CauseNode, Note, NodeStatus, NodeType, ResolutionItem, ResolutionStatus } from '../types';
+import { ActionChecklist, ActionItem, ActionUpdate, AuditEntry, CauseNode, GateType, Note, NoteAttachment, NodeStatus, NodeType, ResolutionItem, ResolutionStatus, WorkflowDefinition } from '../types';
 import { STATUS_COLORS, RESOLUTION_STATUS_COLORS } from '../constants';
+import { describeAuditEntry, AUDIT_FIELD_LABELS } from '../audit';
+import { PersonPicker } from './PersonPicker';
+import { AttachmentThumbnail } from './AttachmentThumbnail';
+import { storeAttachment } from '../attachments';
+import { CauseChainStep, describeGate } from '../treeUtils';
+import { computeProbabilities, formatProbability, parseProbability } from '../probability';
+import { computeRpn, rpnBand, verifiedResolutionsFor, RATING_DIMENSIONS, RATING_MIN, RATING_MAX, RISK_BAND_COLORS } from '../fmea';
+import { FiveWhysWizard } from './FiveWhysWizard';
+import { describeDueIn } from '../checklists';
+import { WorkflowViolation, checkActionTransition, checkCauseTransition, checkResolutionTransition, isTransitionAllowed } from '../workflow';
+import { WorkflowViolations } from './WorkflowViolations';
 import {
     ClipboardList,
     StickyNote,
@@ -20,7 +31,15 @@ import {
     MessageSquarePlus,
     ChevronRight,
     Pencil,
-    Check
+    Check,
+    Paperclip,
+    HelpCircle,
+    Library,
+    Copy,
+    Scissors,
+    ClipboardPaste,
+    CopyPlus,
+    ListChecks
 } from 'lucide-react';
 
 const ACTION_STATUS_COLORS: Record<string, { bg: string; border: string; text: string }> = {
@@ -79,16 +98,31 @@ interface InspectorPanelProps {
   notes: Note[];
   resolutions: ResolutionItem[];
   allRootCauses: CauseNode[];
+  auditLog: AuditEntry[];
+  people: string[];
+  currentUser: string;
   onUpdateNode: (updatedNode: CauseNode) => void;
   onDeleteNode: (nodeId: string) => void;
+  onAddCauseChain: (parentId: string, steps: CauseChainStep[]) => void;
+  onSaveAsTemplate: (node: CauseNode) => void;
+  clipboardLabel: string | null;
+  onCopyNode: (nodeId: string) => void;
+  onCutNode: (nodeId: string) => void;
+  onPasteNode: (parentId: string) => void;
+  onDuplicateNode: (nodeId: string) => void;
   onAddAction: (action: ActionItem) => void;
   onUpdateAction: (action: ActionItem) => void;
   onDeleteAction: (actionId: string) => void;
+  checklists: ActionChecklist[];
+  suggestedChecklistIds: string[];     // Checklists whose labels match this cause or its categories
+  onApplyChecklist: (checklistId: string) => void;
   onAddNote: (note: Note) => void;
+  onUpdateNote: (note: Note) => void;
   onDeleteNote: (noteId: string) => void;
   onAddResolution: (resolution: ResolutionItem) => void;
   onUpdateResolution: (resolution: ResolutionItem) => void;
   onDeleteResolution: (resolutionId: string) => void;
+  workflow: WorkflowDefinition;
   isOpen: boolean;
   onClose: () => void;
   width: number;
@@ -101,22 +135,37 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
   notes,
   resolutions,
   allRootCauses,
+  auditLog,
+  people,
+  currentUser,
   onUpdateNode,
   onDeleteNode,
+  onAddCauseChain,
+  onSaveAsTemplate,
+  clipboardLabel,
+  onCopyNode,
+  onCutNode,
+  onPasteNode,
+  onDuplicateNode,
   onAddAction,
   onUpdateAction,
   onDeleteAction,
+  checklists,
+  suggestedChecklistIds,
+  onApplyChecklist,
   onAddNote,
+  onUpdateNote,
   onDeleteNote,
   onAddResolution,
   onUpdateResolution,
   onDeleteResolution,
+  workflow,
   isOpen,
   onClose,
   width,
   onWidthChange
 }) => {
-  const [activeTab, setActiveTab] = useState<'details' | 'rail' | 'notes' | 'resolutions'>('details');
+  const [activeTab, setActiveTab] = useState<'details' | 'rail' | 'notes' | 'resolutions' | 'history'>('details');
   const [expandedResolutionId, setExpandedResolutionId] = useState<string | null>(null);
   const [expandedActionUpdates, setExpandedActionUpdates] = useState<Record<string, boolean>>({});
   const [expandedResolutionUpdates, setExpandedResolutionUpdates] = useState<Record<string, boolean>>({});
@@ -124,8 +173,26 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
   const [editingUpdateId, setEditingUpdateId] = useState<string | null>(null);
   const [editingUpdateText, setEditingUpdateText] = useState('');
   const [isResizing, setIsResizing] = useState(false);
+  const [showFiveWhys, setShowFiveWhys] = useState(false);
+  const [showChecklistMenu, setShowChecklistMenu] = useState(false);
+  const [violations, setViolations] = useState<Record<string, WorkflowViolation[]>>({});   // Keyed by node, action or resolution id
   const panelRef = useRef<HTMLDivElement>(null);
 
+  const handleAttachFiles = async (note: Note, files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const added: NoteAttachment[] = [];
+    for (const file of Array.from(files)) {
+      try {
+        added.push(await storeAttachment(file));
+      } catch (err) {
+        alert(err instanceof Error ? err.message : `Failed to attach "${file.name}"`);
+      }
+    }
+    if (added.length > 0) {
+      onUpdateNote({ ...note, attachments: [...(note.attachments ?? []), ...added] });
+    }
+  };
+
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
     e.preventDefault();
     setIsResizing(true);
@@ -196,20 +263,27 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
   // Filter resolutions linked to this node
   const nodeResolutions = resolutions.filter(r => r.linkedCauseIds.includes(selectedNode.id));
 
+  // Records the workflow violations of a status change; true when the change may go ahead
+  const passesWorkflow = (id: string, found: WorkflowViolation[]): boolean => {
+    setViolations(prev => {
+      const { [id]: _, ...rest } = prev;
+      return found.length > 0 ? { ...rest, [id]: found } : rest;
+    });
+    return found.length === 0;
+  };
+
+  const dismissViolations = (id: string) => passesWorkflow(id, []);
+
   const handleStatusChange = (newStatus: NodeStatus) => {
-    if (newStatus === NodeStatus.RULED_OUT) {
-       // Check for evidence note
-       const hasEvidence = nodeNotes.some(n => n.isEvidence);
-       if (!hasEvidence) {
-           alert("Policy Violation: You cannot rule out a cause without attaching evidence. Please add a Note marked as Evidence first.");
-           setActiveTab('notes');
-           return;
-       }
-    }
+    if (!passesWorkflow(selectedNode.id, checkCauseTransition(workflow, selectedNode, newStatus, nodeNotes))) return;
     const updatedNode = { ...selectedNode, status: newStatus };
     if (newStatus !== NodeStatus.CONFIRMED) {
       updatedNode.isRootCause = false;
     }
+    // Ruling out a 5-Whys answer is the review outcome, so the candidate flag is settled
+    if (newStatus === NodeStatus.RULED_OUT) {
+      updatedNode.isRootCauseCandidate = undefined;
+    }
     onUpdateNode(updatedNode);
   };
 
@@ -244,6 +318,42 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
             />
         </div>
         <div className="flex items-center gap-1">
+          <button
+              onClick={() => onCopyNode(selectedNode.id)}
+              className="p-2 rounded hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
+              style={{ color: 'var(--color-text-muted)' }}
+              title="Copy branch (Ctrl+C)"
+          >
+              <Copy size={16} />
+          </button>
+          {selectedNode.type !== NodeType.ISSUE && (
+            <>
+              <button
+                  onClick={() => onCutNode(selectedNode.id)}
+                  className="p-2 rounded hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
+                  style={{ color: 'var(--color-text-muted)' }}
+                  title="Cut branch (Ctrl+X)"
+              >
+                  <Scissors size={16} />
+              </button>
+              <button
+                  onClick={() => onDuplicateNode(selectedNode.id)}
+                  className="p-2 rounded hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
+                  style={{ color: 'var(--color-text-muted)' }}
+                  title="Duplicate branch (Ctrl+D)"
+              >
+                  <CopyPlus size={16} />
+              </button>
+            </>
+          )}
+          <button
+              onClick={() => onPasteNode(selectedNode.id)}
+              className="p-2 rounded hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
+              style={{ color: 'var(--color-text-muted)' }}
+              title={clipboardLabel ? `Paste "${clipboardLabel}" as a child (Ctrl+V)` : 'Paste a copied branch as a child (Ctrl+V)'}
+          >
+              <ClipboardPaste size={16} />
+          </button>
           <button
               onClick={() => onDeleteNode(selectedNode.id)}
               className="text-red-400 hover:text-red-600 p-2 rounded hover:bg-red-50 dark:hover:bg-red-900/20"
@@ -296,6 +406,14 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
               Corrective ({nodeResolutions.length})
           </button>
         )}
+        <button
+            onClick={() => setActiveTab('history')}
+            className={`flex-1 py-3 text-sm font-medium border-b-2 transition-colors ${activeTab === 'history' ? 'border-indigo-500 text-indigo-600' : 'border-transparent'}`}
+            style={activeTab !== 'history' ? { color: 'var(--color-text-tertiary)' } : undefined}
+            title="Who changed this cause and its related items, and when"
+        >
+            History
+        </button>
       </div>
 
       {/* Content Area */}
@@ -304,6 +422,21 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
         {/* DETAILS TAB */}
         {activeTab === 'details' && (
           <div className="space-y-6">
+            {selectedNode.isRootCauseCandidate && (
+                <div className="p-3 rounded-lg border-2 border-dashed border-amber-300 bg-amber-50">
+                    <p className="text-sm font-semibold text-amber-800">Root cause candidate</p>
+                    <p className="text-xs text-amber-600 mt-1">
+                        Proposed as the final answer of a 5-Whys drill-down. Confirm it and mark it as a root cause, or rule it out with evidence.
+                    </p>
+                    <button
+                        onClick={() => onUpdateNode({ ...selectedNode, isRootCauseCandidate: undefined })}
+                        className="text-xs text-amber-700 hover:text-amber-900 underline mt-2"
+                    >
+                        Dismiss flag
+                    </button>
+                </div>
+            )}
+
             <div className="space-y-2">
                 <label className="text-xs font-semibold uppercase" style={{ color: 'var(--color-text-tertiary)' }}>Description</label>
                 <textarea
@@ -322,8 +455,10 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
                         <button
                             key={status}
                             onClick={() => handleStatusChange(status)}
+                            disabled={!isTransitionAllowed(workflow.cause, selectedNode.status, status)}
+                            title={isTransitionAllowed(workflow.cause, selectedNode.status, status) ? undefined : 'Not allowed from the current status by the project workflow'}
                             className={`
-                                p-2 rounded text-xs font-medium border transition-all flex items-center gap-2 justify-center
+                                p-2 rounded text-xs font-medium border transition-all flex items-center gap-2 justify-center disabled:opacity-30 disabled:cursor-not-allowed
                                 ${selectedNode.status === status ? 'ring-2 ring-offset-1 ring-slate-400' : 'opacity-70 hover:opacity-100'}
                             `}
                             style={{
@@ -340,6 +475,12 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
                         </button>
                     ))}
                 </div>
+                <WorkflowViolations
+                    violations={violations[selectedNode.id] ?? []}
+                    onDismiss={() => dismissViolations(selectedNode.id)}
+                    action={violations[selectedNode.id]?.some(v => v.requirement === 'evidence') ? { label: 'Add an evidence note', onClick: () => setActiveTab('notes') } : undefined}
+                    className="mt-2"
+                />
                 {selectedNode.status === NodeStatus.RULED_OUT && (
                     <p className="text-xs text-green-600 italic mt-1 flex items-center gap-1">
                         <CheckCircle2 size={12} /> Evidence verified.
@@ -351,7 +492,11 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
                             <input
                                 type="checkbox"
                                 checked={selectedNode.isRootCause ?? false}
-                                onChange={(e) => onUpdateNode({...selectedNode, isRootCause: e.target.checked})}
+                                onChange={(e) => onUpdateNode({
+                                    ...selectedNode,
+                                    isRootCause: e.target.checked,
+                                    isRootCauseCandidate: e.target.checked ? undefined : selectedNode.isRootCauseCandidate
+                                })}
                                 className="rounded text-amber-600 focus:ring-amber-500"
                             />
                             <span className="text-sm font-semibold text-amber-800">Mark as Root Cause</span>
@@ -374,6 +519,160 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
                     onChange={(e) => onUpdateNode({...selectedNode, rationale: e.target.value})}
                 />
             </div>
+
+            {selectedNode.type !== NodeType.ISSUE && (() => {
+                const rpn = computeRpn(selectedNode.risk);
+                const verified = verifiedResolutionsFor(selectedNode.id, resolutions);
+                const residualRpn = computeRpn(selectedNode.residualRisk);
+                const ratingRow = (field: 'risk' | 'residualRisk') => (
+                    <div className="grid grid-cols-3 gap-2">
+                        {RATING_DIMENSIONS.map(d => (
+                            <label key={d.key} className="text-[10px] uppercase font-semibold space-y-1" style={{ color: 'var(--color-text-muted)' }} title={d.hint}>
+                                <span>{d.label}</span>
+                                <select
+                                    value={selectedNode[field]?.[d.key] ?? ''}
+                                    onChange={(e) => {
+                                        const value = e.target.value ? Number(e.target.value) : undefined;
+                                        onUpdateNode({ ...selectedNode, [field]: { ...selectedNode[field], [d.key]: value } });
+                                    }}
+                                    className="w-full text-sm rounded px-2 py-1 normal-case font-normal"
+                                    style={{ backgroundColor: 'var(--color-surface-primary)', color: 'var(--color-text-primary)', border: '1px solid var(--color-border-secondary)' }}
+                                >
+                                    <option value="">—</option>
+                                    {Array.from({ length: RATING_MAX - RATING_MIN + 1 }, (_, i) => RATING_MIN + i).map(n => (
+                                        <option key={n} value={n}>{n}</option>
+                                    ))}
+                                </select>
+                            </label>
+                        ))}
+                    </div>
+                );
+                const rpnBadge = (value: number | null) => value === null
+                    ? <span className="text-xs" style={{ color: 'var(--color-text-muted)' }}>rate all three</span>
+                    : <span className="px-2 py-0.5 rounded text-xs font-bold font-mono" style={{ backgroundColor: RISK_BAND_COLORS[rpnBand(value)].bg, border: `1px solid ${RISK_BAND_COLORS[rpnBand(value)].border}`, color: RISK_BAND_COLORS[rpnBand(value)].text }}>{value}</span>;
+
+                return (
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                            <label className="text-xs font-semibold uppercase" style={{ color: 'var(--color-text-tertiary)' }}>Risk (FMEA)</label>
+                            <span className="text-xs flex items-center gap-1" style={{ color: 'var(--color-text-tertiary)' }}>RPN {rpnBadge(rpn)}</span>
+                        </div>
+                        {ratingRow('risk')}
+                        {verified.length > 0 && (
+                            <div className="mt-2 p-3 rounded-lg space-y-2" style={{ backgroundColor: 'var(--color-surface-tertiary)' }}>
+                                <div className="flex items-center justify-between">
+                                    <span className="text-xs font-semibold" style={{ color: 'var(--color-text-secondary)' }}>
+                                        After "{verified[0].title}"{verified.length > 1 ? ` +${verified.length - 1}` : ''}
+                                    </span>
+                                    <span className="text-xs flex items-center gap-1" style={{ color: 'var(--color-text-tertiary)' }}>
+                                        {rpn !== null && <>{rpnBadge(rpn)} →</>} {rpnBadge(residualRpn)}
+                                    </span>
+                                </div>
+                                {ratingRow('residualRisk')}
+                                <p className="text-[10px]" style={{ color: 'var(--color-text-muted)' }}>
+                                    Re-rate the cause now that its corrective action is verified.
+                                </p>
+                            </div>
+                        )}
+                    </div>
+                );
+            })()}
+
+            <div className="space-y-2">
+                <label className="text-xs font-semibold uppercase" style={{ color: 'var(--color-text-tertiary)' }}>Probability</label>
+                {(selectedNode.children?.length ?? 0) === 0 ? (
+                    <input
+                        key={`${selectedNode.id}:${selectedNode.probability ?? ''}`}
+                        type="text"
+                        defaultValue={selectedNode.probability !== undefined ? String(selectedNode.probability) : ''}
+                        onBlur={(e) => {
+                            const parsed = parseProbability(e.target.value);
+                            if (parsed === undefined) {
+                                alert('Enter a probability between 0 and 1 (e.g. 0.02, 2% or 1e-4).');
+                                e.target.value = selectedNode.probability !== undefined ? String(selectedNode.probability) : '';
+                                return;
+                            }
+                            if ((parsed ?? undefined) !== selectedNode.probability) {
+                                onUpdateNode({ ...selectedNode, probability: parsed ?? undefined });
+                            }
+                        }}
+                        onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                        placeholder="e.g. 0.02, 2% or 1e-4"
+                        className="w-full p-2 text-sm rounded focus:ring-2 focus:ring-indigo-500 outline-none"
+                        style={{ backgroundColor: 'var(--color-surface-primary)', color: 'var(--color-text-primary)', border: '1px solid var(--color-border-secondary)' }}
+                    />
+                ) : (() => {
+                    const computed = computeProbabilities(selectedNode).get(selectedNode.id);
+                    return (
+                        <p className="text-sm" style={{ color: computed != null ? 'var(--color-text-primary)' : 'var(--color-text-muted)' }}>
+                            {computed != null
+                                ? <>P = <span className="font-mono font-semibold">{formatProbability(computed)}</span> <span className="text-xs" style={{ color: 'var(--color-text-muted)' }}>(computed through the {describeGate(selectedNode)} gate)</span></>
+                                : 'Enter a probability on every leaf cause below to compute this value.'}
+                        </p>
+                    );
+                })()}
+            </div>
+
+            {(selectedNode.children?.length ?? 0) > 0 && (() => {
+                const childCount = selectedNode.children!.length;
+                const gate = selectedNode.gate ?? 'OR';
+                return (
+                    <div className="space-y-2">
+                        <label className="text-xs font-semibold uppercase" style={{ color: 'var(--color-text-tertiary)' }}>Logic Gate</label>
+                        <div className="flex items-center gap-2">
+                            <select
+                                value={gate}
+                                onChange={(e) => {
+                                    const next = e.target.value as GateType;
+                                    onUpdateNode({
+                                        ...selectedNode,
+                                        gate: next === 'OR' ? undefined : next,
+                                        gateK: next === 'K_OF_N' ? Math.min(selectedNode.gateK ?? 2, childCount) : undefined
+                                    });
+                                }}
+                                className="flex-1 text-sm rounded px-2 py-1.5"
+                                style={{ backgroundColor: 'var(--color-surface-primary)', color: 'var(--color-text-primary)', border: '1px solid var(--color-border-secondary)' }}
+                            >
+                                <option value="OR">OR — any child causes this</option>
+                                <option value="AND">AND — all children together cause this</option>
+                                <option value="K_OF_N">k-of-n — at least k children cause this</option>
+                            </select>
+                            {gate === 'K_OF_N' && (
+                                <>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        max={childCount}
+                                        value={selectedNode.gateK ?? 1}
+                                        onChange={(e) => onUpdateNode({ ...selectedNode, gateK: Math.min(Math.max(parseInt(e.target.value, 10) || 1, 1), childCount) })}
+                                        className="w-14 text-sm rounded px-2 py-1.5"
+                                        style={{ backgroundColor: 'var(--color-surface-primary)', color: 'var(--color-text-primary)', border: '1px solid var(--color-border-secondary)' }}
+                                    />
+                                    <span className="text-sm" style={{ color: 'var(--color-text-tertiary)' }}>of {childCount}</span>
+                                </>
+                            )}
+                        </div>
+                    </div>
+                );
+            })()}
+
+            <button
+                onClick={() => setShowFiveWhys(true)}
+                className="w-full flex items-center justify-center gap-2 py-2 text-sm font-medium rounded-lg border border-dashed transition-colors hover:border-indigo-400"
+                style={{ borderColor: 'var(--color-border-secondary)', color: 'var(--color-text-secondary)' }}
+                title="Ask &quot;why?&quot; repeatedly and add each answer as a cause under the previous one"
+            >
+                <HelpCircle size={14} /> Run 5 Whys from here
+            </button>
+
+            <button
+                onClick={() => onSaveAsTemplate(selectedNode)}
+                className="w-full flex items-center justify-center gap-2 py-2 text-sm font-medium rounded-lg border border-dashed transition-colors hover:border-indigo-400"
+                style={{ borderColor: 'var(--color-border-secondary)', color: 'var(--color-text-secondary)' }}
+                title="Reuse this branch as a starting structure for new investigations in this project"
+            >
+                <Library size={14} /> Save branch as template
+            </button>
           </div>
         )}
 
@@ -384,6 +683,12 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
             );
             const activeActions = sorted.filter(a => a.status !== 'Complete' && a.status !== 'Closed');
             const closedActions = sorted.filter(a => a.status === 'Complete' || a.status === 'Closed');
+            const checklistActions = nodeActions.filter(a => a.checklistId);
+            const checklistDone = checklistActions.filter(a => a.status === 'Complete' || a.status === 'Closed').length;
+            const orderedChecklists = [
+                ...checklists.filter(c => suggestedChecklistIds.includes(c.id)),
+                ...checklists.filter(c => !suggestedChecklistIds.includes(c.id)),
+            ];
 
             const renderActionCard = (action: ActionItem, displayIndex: number) => {
                 const colors = ACTION_STATUS_COLORS[action.status] ?? ACTION_STATUS_COLORS['Open'];
@@ -426,11 +731,12 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
                         <div className="grid grid-cols-2 gap-2 mb-2">
                             <div className="flex items-center gap-1 text-xs" style={{ color: 'var(--color-text-tertiary)' }}>
                                 <User size={10} />
-                                <input
+                                <PersonPicker
                                     className="bg-transparent outline-none w-full"
                                     style={{ borderBottom: '1px solid var(--color-border-primary)', color: 'var(--color-text-secondary)' }}
                                     value={action.assignee}
-                                    onChange={(e) => onUpdateAction({...action, assignee: e.target.value})}
+                                    onChange={(value) => onUpdateAction({...action, assignee: value})}
+                                    people={people}
                                     placeholder="Assignee"
                                 />
                             </div>
@@ -454,16 +760,23 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
                         />
                         <select
                             value={action.status}
-                            onChange={(e) => onUpdateAction({...action, status: e.target.value as ActionItem['status']})}
+                            onChange={(e) => {
+                                const status = e.target.value as ActionItem['status'];
+                                if (passesWorkflow(action.id, checkActionTransition(workflow, action, status))) onUpdateAction({...action, status});
+                            }}
                             className="text-xs w-full border rounded p-1"
                             style={{ borderColor: colors.border, color: colors.text, backgroundColor: 'var(--color-surface-primary)' }}
                         >
-                            <option>Open</option>
-                            <option>In Progress</option>
-                            <option>Complete</option>
-                            <option>Blocked</option>
-                            <option>Closed</option>
+                            {(['Open', 'In Progress', 'Complete', 'Blocked', 'Closed'] as const).map(s => (
+                                <option key={s} value={s} disabled={!isTransitionAllowed(workflow.action, action.status, s)}>{s}</option>
+                            ))}
                         </select>
+                        <WorkflowViolations
+                            violations={violations[action.id] ?? []}
+                            onDismiss={() => dismissViolations(action.id)}
+                            action={violations[action.id]?.some(v => v.requirement === 'update') ? { label: 'Add an update', onClick: () => setExpandedActionUpdates(prev => ({ ...prev, [action.id]: true })) } : undefined}
+                            className="mt-2"
+                        />
 
                         {/* Updates / Activity Log */}
                         <div className="mt-2 pt-2" style={{ borderTop: '1px solid var(--color-border-primary)' }}>
@@ -496,6 +809,7 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
                                                         id: crypto.randomUUID(),
                                                         content: (newUpdateText[action.id] ?? '').trim(),
                                                         createdAt: new Date().toISOString(),
+                                                        author: currentUser || undefined,
                                                     };
                                                     onUpdateAction({ ...action, updates: [...(action.updates ?? []), update] });
                                                     setNewUpdateText(prev => ({ ...prev, [action.id]: '' }));
@@ -509,6 +823,7 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
                                                     id: crypto.randomUUID(),
                                                     content: (newUpdateText[action.id] ?? '').trim(),
                                                     createdAt: new Date().toISOString(),
+                                                    author: currentUser || undefined,
                                                 };
                                                 onUpdateAction({ ...action, updates: [...(action.updates ?? []), update] });
                                                 setNewUpdateText(prev => ({ ...prev, [action.id]: '' }));
@@ -530,6 +845,7 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
                                             <div className="flex items-center justify-between mb-1">
                                                 <span className="text-[10px] font-medium" style={{ color: 'var(--color-text-muted)' }}>
                                                     {new Date(update.createdAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                                                    {update.author && ` · ${update.author}`}
                                                 </span>
                                                 <div className="flex items-center gap-1">
                                                     {editingUpdateId === update.id ? (
@@ -611,23 +927,81 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
                             <h3 className="text-sm font-bold" style={{ color: 'var(--color-text-secondary)' }}>Investigation Actions</h3>
                             <p className="text-[10px] mt-0.5" style={{ color: 'var(--color-text-muted)' }}>Tasks to verify or rule out this cause</p>
                         </div>
-                        <button
-                            onClick={() => onAddAction({
-                                id: crypto.randomUUID(),
-                                causeId: selectedNode.id,
-                                action: getNextUniqueTitle('New Action', actions.map(a => a.action)),
-                                rationale: '',
-                                assignee: 'Unassigned',
-                                assignedDate: new Date().toISOString().split('T')[0],
-                                dueDate: '',
-                                status: 'Open'
-                            })}
-                            className="text-xs bg-indigo-600 text-white px-2 py-1 rounded hover:bg-indigo-700 flex items-center gap-1"
-                        >
-                            <Plus size={12} /> Add
-                        </button>
+                        <div className="flex items-center gap-1">
+                            <div className="relative">
+                                <button
+                                    onClick={() => setShowChecklistMenu(open => !open)}
+                                    className="text-xs px-2 py-1 rounded flex items-center gap-1"
+                                    style={{ backgroundColor: 'var(--color-surface-tertiary)', color: 'var(--color-text-secondary)' }}
+                                    title="Create the actions of a project checklist for this cause"
+                                >
+                                    <ListChecks size={12} /> Checklist
+                                </button>
+                                {showChecklistMenu && (
+                                    <>
+                                        <div className="fixed inset-0 z-10" onClick={() => setShowChecklistMenu(false)} />
+                                        <div
+                                            className="absolute right-0 mt-1 w-64 rounded-lg shadow-xl z-20 py-1 max-h-72 overflow-y-auto"
+                                            style={{ backgroundColor: 'var(--color-surface-primary)', border: '1px solid var(--color-border-primary)' }}
+                                        >
+                                            {orderedChecklists.length === 0 && (
+                                                <p className="text-xs italic px-3 py-2" style={{ color: 'var(--color-text-muted)' }}>
+                                                    No checklists in this project yet. Create them from the project menu.
+                                                </p>
+                                            )}
+                                            {orderedChecklists.map(checklist => (
+                                                <button
+                                                    key={checklist.id}
+                                                    onClick={() => { setShowChecklistMenu(false); onApplyChecklist(checklist.id); }}
+                                                    className="w-full text-left px-3 py-2 hover:bg-black/5"
+                                                    title={checklist.steps.map(step => `• ${step.action} (${describeDueIn(step.dueInDays).toLowerCase()})`).join('\n')}
+                                                >
+                                                    <div className="text-sm font-medium flex items-center gap-1.5" style={{ color: 'var(--color-text-primary)' }}>
+                                                        <span className="truncate">{checklist.name}</span>
+                                                        {suggestedChecklistIds.includes(checklist.id) && (
+                                                            <span className="text-[10px] px-1 rounded bg-indigo-100 text-indigo-700 shrink-0">Suggested</span>
+                                                        )}
+                                                    </div>
+                                                    <div className="text-[10px]" style={{ color: 'var(--color-text-muted)' }}>
+                                                        {checklist.steps.length} step{checklist.steps.length !== 1 ? 's' : ''}
+                                                        {checklist.description && ` · ${checklist.description}`}
+                                                    </div>
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </>
+                                )}
+                            </div>
+                            <button
+                                onClick={() => onAddAction({
+                                    id: crypto.randomUUID(),
+                                    causeId: selectedNode.id,
+                                    action: getNextUniqueTitle('New Action', actions.map(a => a.action)),
+                                    rationale: '',
+                                    assignee: 'Unassigned',
+                                    assignedDate: new Date().toISOString().split('T')[0],
+                                    dueDate: '',
+                                    status: 'Open'
+                                })}
+                                className="text-xs bg-indigo-600 text-white px-2 py-1 rounded hover:bg-indigo-700 flex items-center gap-1"
+                            >
+                                <Plus size={12} /> Add
+                            </button>
+                        </div>
                     </div>
 
+                    {checklistActions.length > 0 && (
+                        <div title="Actions created from checklists that are complete or closed">
+                            <div className="flex justify-between text-[10px] mb-1" style={{ color: 'var(--color-text-muted)' }}>
+                                <span className="flex items-center gap-1"><ListChecks size={10} /> Checklist progress</span>
+                                <span>{checklistDone}/{checklistActions.length}</span>
+                            </div>
+                            <div className="h-1.5 rounded-full overflow-hidden" style={{ backgroundColor: 'var(--color-surface-tertiary)' }}>
+                                <div className="h-full bg-emerald-500" style={{ width: `${(checklistDone / checklistActions.length) * 100}%` }} />
+                            </div>
+                        </div>
+                    )}
+
                     {nodeActions.length === 0 && <p className="text-xs italic" style={{ color: 'var(--color-text-muted)' }}>No investigation actions for this cause yet.</p>}
 
                     {activeActions.length > 0 && (
@@ -669,7 +1043,7 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
                             id: crypto.randomUUID(),
                             referenceId: selectedNode.id,
                             content: '',
-                            owner: 'Me',
+                            owner: currentUser || 'Me',
                             createdAt: new Date().toLocaleDateString(),
                             isEvidence: false
                         })}
@@ -704,11 +1078,7 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
                                     <input
                                         type="checkbox"
                                         checked={note.isEvidence}
-                                        onChange={(e) => {
-                                            const updated = {...note, isEvidence: e.target.checked};
-                                            onDeleteNote(note.id);
-                                            onAddNote(updated);
-                                        }}
+                                        onChange={(e) => onUpdateNote({...note, isEvidence: e.target.checked})}
                                         className="rounded text-green-600 focus:ring-green-500"
                                     />
                                     <span style={{ color: note.isEvidence ? 'var(--color-status-ruled-out-text)' : 'var(--color-text-tertiary)', fontWeight: note.isEvidence ? 600 : 400 }}>Mark as Evidence</span>
@@ -721,13 +1091,31 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
                                 rows={3}
                                 placeholder="Type your note..."
                                 value={note.content}
-                                onChange={(e) => {
-                                     const updated = {...note, content: e.target.value};
-                                     onDeleteNote(note.id);
-                                     onAddNote(updated);
-                                }}
+                                onChange={(e) => onUpdateNote({...note, content: e.target.value})}
                             />
-                            <div className="mt-1 text-xs text-right" style={{ color: 'var(--color-text-muted)' }}>- {note.owner}</div>
+                            {(note.attachments ?? []).length > 0 && (
+                                <div className="flex flex-wrap gap-2 mt-1">
+                                    {(note.attachments ?? []).map(attachment => (
+                                        <AttachmentThumbnail
+                                            key={attachment.id}
+                                            attachment={attachment}
+                                            onRemove={() => onUpdateNote({...note, attachments: (note.attachments ?? []).filter(a => a.id !== attachment.id)})}
+                                        />
+                                    ))}
+                                </div>
+                            )}
+                            <div className="mt-1 flex items-center justify-between text-xs" style={{ color: 'var(--color-text-muted)' }}>
+                                <label className="flex items-center gap-1 cursor-pointer hover:text-indigo-500" title="Attach photos, captures or log files">
+                                    <Paperclip size={12} /> Attach
+                                    <input
+                                        type="file"
+                                        multiple
+                                        className="hidden"
+                                        onChange={(e) => { handleAttachFiles(note, e.target.files); e.target.value = ''; }}
+                                    />
+                                </label>
+                                <span>- {note.owner}</span>
+                            </div>
                         </div>
                     ))}
                 </div>
@@ -816,11 +1204,12 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
                         <div className="grid grid-cols-2 gap-2 mb-2">
                             <div className="flex items-center gap-1 text-xs" style={{ color: 'var(--color-text-tertiary)' }}>
                                 <User size={10} />
-                                <input
+                                <PersonPicker
                                     className="bg-transparent outline-none w-full"
                                     style={{ borderBottom: '1px solid var(--color-border-primary)', color: 'var(--color-text-secondary)' }}
                                     value={resolution.owner}
-                                    onChange={(e) => onUpdateResolution({...resolution, owner: e.target.value})}
+                                    onChange={(value) => onUpdateResolution({...resolution, owner: value})}
+                                    people={people}
                                     placeholder="Owner"
                                 />
                             </div>
@@ -845,12 +1234,26 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
                         {/* Status dropdown */}
                         <select
                             value={resolution.status}
-                            onChange={(e) => onUpdateResolution({...resolution, status: e.target.value as ResolutionStatus})}
+                            onChange={(e) => {
+                                const status = e.target.value as ResolutionStatus;
+                                if (passesWorkflow(resolution.id, checkResolutionTransition(workflow, resolution, status))) {
+                                    onUpdateResolution({...resolution, status});
+                                } else {
+                                    setExpandedResolutionId(resolution.id);
+                                }
+                            }}
                             className="text-xs w-full border rounded p-1 mb-2"
                             style={{ borderColor: colors.border, color: colors.text, backgroundColor: 'var(--color-surface-primary)' }}
                         >
-                            {RESOLUTION_STATUSES.map(s => <option key={s} value={s}>{s}</option>)}
+                            {RESOLUTION_STATUSES.map(s => (
+                                <option key={s} value={s} disabled={!isTransitionAllowed(workflow.resolution, resolution.status, s)}>{s}</option>
+                            ))}
                         </select>
+                        <WorkflowViolations
+                            violations={violations[resolution.id] ?? []}
+                            onDismiss={() => dismissViolations(resolution.id)}
+                            className="mb-2"
+                        />
 
                         {/* Description - always visible */}
                         <div className="mb-2">
@@ -880,7 +1283,7 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
                                     />
                                 </div>
 
-                                {(resolution.status === 'Implemented' || resolution.status === 'Verified' || resolution.status === 'Closed') && (
+                                {(resolution.status === 'Implemented' || resolution.status === 'Verified' || resolution.status === 'Closed' || violations[resolution.id]) && (
                                     <>
                                         <div className="grid grid-cols-2 gap-2">
                                             <div>
@@ -915,6 +1318,17 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
                                                 placeholder="Document verification results..."
                                             />
                                         </div>
+                                        <div>
+                                            <label className="text-[10px] uppercase font-semibold" style={{ color: 'var(--color-text-muted)' }}>Approved By</label>
+                                            <PersonPicker
+                                                className="w-full text-xs p-1 rounded mt-1"
+                                                style={{ backgroundColor: 'var(--color-surface-primary)', color: 'var(--color-text-secondary)', border: '1px solid var(--color-border-primary)' }}
+                                                value={resolution.approvedBy ?? ''}
+                                                onChange={(value) => onUpdateResolution({...resolution, approvedBy: value || undefined})}
+                                                people={people}
+                                                placeholder="Who signed off the closure"
+                                            />
+                                        </div>
                                     </>
                                 )}
 
@@ -976,6 +1390,7 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
                                                                 id: crypto.randomUUID(),
                                                                 content: (newUpdateText[resolution.id] ?? '').trim(),
                                                                 createdAt: new Date().toISOString(),
+                                                                author: currentUser || undefined,
                                                             };
                                                             onUpdateResolution({ ...resolution, updates: [...(resolution.updates ?? []), update] });
                                                             setNewUpdateText(prev => ({ ...prev, [resolution.id]: '' }));
@@ -989,6 +1404,7 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
                                                             id: crypto.randomUUID(),
                                                             content: (newUpdateText[resolution.id] ?? '').trim(),
                                                             createdAt: new Date().toISOString(),
+                                                            author: currentUser || undefined,
                                                         };
                                                         onUpdateResolution({ ...resolution, updates: [...(resolution.updates ?? []), update] });
                                                         setNewUpdateText(prev => ({ ...prev, [resolution.id]: '' }));
@@ -1008,6 +1424,7 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
                                                     <div className="flex items-center justify-between mb-1">
                                                         <span className="text-[10px] font-medium" style={{ color: 'var(--color-text-muted)' }}>
                                                             {new Date(update.createdAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                                                            {update.author && ` · ${update.author}`}
                                                         </span>
                                                         <div className="flex items-center gap-1">
                                                             {editingUpdateId === update.id ? (
@@ -1136,7 +1553,57 @@ export const InspectorPanel: React.FC<InspectorPanelProps> = ({
             );
         })()}
 
+        {/* HISTORY TAB */}
+        {activeTab === 'history' && (() => {
+            const nodeAudit = auditLog.filter(e => e.relatedNodeIds.includes(selectedNode.id)).reverse();
+            return (
+                <div className="space-y-4">
+                    <h3 className="text-sm font-bold" style={{ color: 'var(--color-text-secondary)' }}>Change History</h3>
+                    {nodeAudit.length === 0 && <p className="text-xs italic" style={{ color: 'var(--color-text-muted)' }}>No changes recorded for this cause.</p>}
+                    <div className="space-y-2">
+                        {nodeAudit.map(entry => (
+                            <div
+                                key={entry.id}
+                                className="p-2 rounded border text-xs"
+                                style={{ backgroundColor: 'var(--color-surface-primary)', borderColor: 'var(--color-border-primary)' }}
+                            >
+                                <div className="flex justify-between gap-2 mb-1" style={{ color: 'var(--color-text-muted)' }}>
+                                    <span className="font-semibold">{entry.author}</span>
+                                    <span>{new Date(entry.timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
+                                </div>
+                                <div style={{ color: 'var(--color-text-secondary)' }}>{describeAuditEntry(entry)}</div>
+                                {entry.change === 'update' && entry.field !== 'updates' && (
+                                    <div className="mt-1 break-words" style={{ color: 'var(--color-text-tertiary)' }}>
+                                        <span className="font-medium">{AUDIT_FIELD_LABELS[entry.field] ?? entry.field}:</span>{' '}
+                                        <span className="line-through">{entry.oldValue || '(empty)'}</span>
+                                        {' → '}
+                                        <span>{entry.newValue || '(empty)'}</span>
+                                    </div>
+                                )}
+                                {entry.field === 'updates' && (
+                                    <div className="mt-1 italic break-words" style={{ color: 'var(--color-text-tertiary)' }}>
+                                        {entry.newValue || entry.oldValue}
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            );
+        })()}
+
       </div>
+
+      {showFiveWhys && (
+        <FiveWhysWizard
+          startNode={selectedNode}
+          onComplete={(steps) => {
+            onAddCauseChain(selectedNode.id, steps);
+            setShowFiveWhys(false);
+          }}
+          onClose={() => setShowFiveWhys(false)}
+        />
+      )}
     </div>
   );
 };
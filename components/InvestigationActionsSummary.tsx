@@ -1,5 +1,5 @@
-import React, { useState } from 'react';
-import { ActionItem, ActionUpdate, CauseNode } from '../types';
+import React, { useRef, useState } from 'react';
+import { ActionItem, ActionUpdate, CauseNode, SavedTree, WorkflowDefinition } from '../types';
 import {
     ClipboardList,
     Plus,
@@ -18,8 +18,18 @@ import {
     ArrowUp,
     ArrowDown,
     Pencil,
-    Check
+    Check,
+    Download,
+    Upload,
+    Network,
+    Link2
 } from 'lucide-react';
+import { isOverdue, isDueToday, isDueThisWeek } from '../treeUtils';
+import { resolvePredecessors, isSlipping, createsCycle, makeDependency, isSameDependency, isActionDone } from '../dependencies';
+import { PersonPicker } from './PersonPicker';
+import { DependencyGraphDialog } from './DependencyGraphDialog';
+import { WorkflowViolation, checkActionTransition, isTransitionAllowed } from '../workflow';
+import { WorkflowViolations } from './WorkflowViolations';
 
 const ACTION_STATUSES: ActionItem['status'][] = [
   'Open', 'In Progress', 'Complete', 'Blocked', 'Closed'
@@ -43,46 +53,42 @@ const ACTION_STATUS_COLORS: Record<string, { bg: string; border: string; text: s
 
 type DueDateFilter = 'all' | 'overdue' | 'due-today' | 'due-this-week' | 'no-date';
 
-const isOverdue = (dueDate: string, status: string) => {
-  if (!dueDate || status === 'Complete' || status === 'Closed') return false;
-  return new Date(dueDate) < new Date(new Date().toDateString());
-};
-
-const isDueToday = (dueDate: string) => {
-  if (!dueDate) return false;
-  const today = new Date().toDateString();
-  return new Date(dueDate).toDateString() === today;
-};
-
-const isDueThisWeek = (dueDate: string) => {
-  if (!dueDate) return false;
-  const today = new Date();
-  const endOfWeek = new Date(today);
-  endOfWeek.setDate(today.getDate() + (7 - today.getDay()));
-  const due = new Date(dueDate);
-  return due >= new Date(today.toDateString()) && due <= endOfWeek;
-};
-
 interface InvestigationActionsSummaryProps {
+  treeId: string;
+  trees: SavedTree[];          // Project investigations, for dependencies across trees
   actions: ActionItem[];
   allNodes: CauseNode[];
   treeName: string;
+  people: string[];
+  currentUser: string;
+  workflow: WorkflowDefinition;
   onAddAction: (action: ActionItem) => void;
   onUpdateAction: (action: ActionItem) => void;
   onDeleteAction: (actionId: string) => void;
   onNavigateToNode: (nodeId: string) => void;
+  onNavigateToTreeNode: (nodeId: string, treeId: string) => void;
   onGenerateReport: () => void;
+  onExportCsv: () => void;
+  onImportCsv: (file: File) => void;
 }
 
 export const InvestigationActionsSummary: React.FC<InvestigationActionsSummaryProps> = ({
+  treeId,
+  trees,
   actions,
   allNodes,
   treeName,
+  people,
+  currentUser,
+  workflow,
   onAddAction,
   onUpdateAction,
   onDeleteAction,
   onNavigateToNode,
-  onGenerateReport
+  onNavigateToTreeNode,
+  onGenerateReport,
+  onExportCsv,
+  onImportCsv
 }) => {
   const [statusFilter, setStatusFilter] = useState<ActionItem['status'] | 'all'>('all');
   const [dueDateFilter, setDueDateFilter] = useState<DueDateFilter>('all');
@@ -93,6 +99,16 @@ export const InvestigationActionsSummary: React.FC<InvestigationActionsSummaryPr
   const [newUpdateText, setNewUpdateText] = useState<Record<string, string>>({});
   const [editingUpdateId, setEditingUpdateId] = useState<string | null>(null);
   const [editingUpdateText, setEditingUpdateText] = useState('');
+  const [showDependencyGraph, setShowDependencyGraph] = useState(false);
+  const [violations, setViolations] = useState<Record<string, WorkflowViolation[]>>({});
+  const csvInputRef = useRef<HTMLInputElement>(null);
+
+  const handleCsvFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    onImportCsv(file);
+    e.target.value = '';
+  };
 
   const filteredActions = actions
     .filter(a => statusFilter === 'all' || a.status === statusFilter)
@@ -133,6 +149,19 @@ export const InvestigationActionsSummary: React.FC<InvestigationActionsSummaryPr
     return node?.label ?? 'Unknown';
   };
 
+  const setActionViolations = (id: string, found: WorkflowViolation[]) => {
+    setViolations(prev => {
+      const { [id]: _, ...rest } = prev;
+      return found.length > 0 ? { ...rest, [id]: found } : rest;
+    });
+  };
+
+  const handleStatusChange = (action: ActionItem, status: ActionItem['status']) => {
+    const found = checkActionTransition(workflow, action, status);
+    setActionViolations(action.id, found);
+    if (found.length === 0) onUpdateAction({...action, status});
+  };
+
   const renderActionCard = (action: ActionItem) => {
     const colors = ACTION_STATUS_COLORS[action.status] ?? ACTION_STATUS_COLORS['Open'];
     const isExpanded = expandedActionId === action.id;
@@ -140,6 +169,8 @@ export const InvestigationActionsSummary: React.FC<InvestigationActionsSummaryPr
                       new Date(action.dueDate) < new Date() &&
                       action.status !== 'Complete' &&
                       action.status !== 'Closed';
+    const predecessors = resolvePredecessors(trees, treeId, action);
+    const slipping = predecessors.filter(d => d.action && isSlipping(d.action, action));
 
     return (
       <div
@@ -166,15 +197,28 @@ export const InvestigationActionsSummary: React.FC<InvestigationActionsSummaryPr
                 <span>Overdue</span>
               </div>
             )}
+            {slipping.length > 0 && (
+              <div className="flex items-center gap-1 text-xs text-red-600 mt-1" title={slipping.map(d => `${d.action!.action} due ${d.action!.dueDate}`).join('\n')}>
+                <AlertTriangle size={12} />
+                <span>{slipping.length === 1 ? 'A predecessor is' : `${slipping.length} predecessors are`} due after this action</span>
+              </div>
+            )}
+            {action.completionOverride && isActionDone(action.status) && (
+              <div className="text-xs mt-1" style={{ color: 'var(--color-text-tertiary)' }} title={action.completionOverride.reason}>
+                Completed with open predecessors{action.completionOverride.author && ` by ${action.completionOverride.author}`}
+              </div>
+            )}
           </div>
           <div className="flex items-center gap-2">
             <select
               value={action.status}
-              onChange={(e) => onUpdateAction({...action, status: e.target.value as ActionItem['status']})}
+              onChange={(e) => handleStatusChange(action, e.target.value as ActionItem['status'])}
               className="text-xs border rounded px-2 py-1"
               style={{ borderColor: colors.border, color: colors.text, backgroundColor: 'var(--color-surface-primary)' }}
             >
-              {ACTION_STATUSES.map(s => <option key={s} value={s}>{s}</option>)}
+              {ACTION_STATUSES.map(s => (
+                <option key={s} value={s} disabled={!isTransitionAllowed(workflow.action, action.status, s)}>{s}</option>
+              ))}
             </select>
             <button
               onClick={() => setExpandedActionId(isExpanded ? null : action.id)}
@@ -197,15 +241,29 @@ export const InvestigationActionsSummary: React.FC<InvestigationActionsSummaryPr
           </div>
         </div>
 
+        <WorkflowViolations
+          violations={violations[action.id] ?? []}
+          onDismiss={() => setActionViolations(action.id, [])}
+          action={violations[action.id]?.some(v => v.requirement === 'update') ? {
+            label: 'Add an update',
+            onClick: () => {
+              setExpandedActionId(action.id);
+              setExpandedActionUpdates(prev => ({ ...prev, [action.id]: true }));
+            },
+          } : undefined}
+          className="mb-3"
+        />
+
         {/* Summary row */}
         <div className="flex flex-wrap gap-4 text-sm">
           <div className="flex items-center gap-1.5" style={{ color: 'var(--color-text-tertiary)' }}>
             <User size={14} />
-            <input
+            <PersonPicker
               className="bg-transparent outline-none"
               style={{ color: 'var(--color-text-secondary)', borderBottom: '1px solid var(--color-border-primary)' }}
               value={action.assignee}
-              onChange={(e) => onUpdateAction({...action, assignee: e.target.value})}
+              onChange={(value) => onUpdateAction({...action, assignee: value})}
+              people={people}
               placeholder="Assignee"
             />
           </div>
@@ -247,6 +305,72 @@ export const InvestigationActionsSummary: React.FC<InvestigationActionsSummaryPr
           </button>
         </div>
 
+        {/* Predecessors */}
+        <div className="mt-2 flex flex-wrap items-center gap-1.5">
+          <span className="text-xs flex items-center gap-1" style={{ color: 'var(--color-text-muted)' }}>
+            <Link2 size={12} /> Depends on
+          </span>
+          {predecessors.map(d => {
+            const predColors = d.action ? ACTION_STATUS_COLORS[d.action.status] ?? ACTION_STATUS_COLORS['Open'] : null;
+            const slips = d.action && isSlipping(d.action, action);
+            return (
+              <span
+                key={`${d.treeId}:${d.ref.actionId}`}
+                className="text-xs pl-2 pr-1 py-0.5 rounded border flex items-center gap-1"
+                style={predColors
+                  ? { backgroundColor: predColors.bg, borderColor: slips ? '#dc2626' : predColors.border, color: predColors.text }
+                  : { borderColor: 'var(--color-border-primary)', color: 'var(--color-text-muted)' }}
+              >
+                {d.action ? (
+                  <button
+                    onClick={() => onNavigateToTreeNode(d.action!.causeId, d.treeId)}
+                    className="hover:underline"
+                    title={`${d.tree?.name ?? ''} · ${d.action.status}${d.action.dueDate ? ` · due ${d.action.dueDate}` : ''}`}
+                  >
+                    {d.treeId !== treeId && `${d.tree?.name} › `}{d.action.action || 'Untitled action'}
+                  </button>
+                ) : (
+                  <span className="italic">Deleted action</span>
+                )}
+                <button
+                  onClick={() => onUpdateAction({ ...action, predecessors: (action.predecessors ?? []).filter(ref => ref !== d.ref) })}
+                  className="hover:text-red-400"
+                  title="Remove dependency"
+                >
+                  <XCircle size={12} />
+                </button>
+              </span>
+            );
+          })}
+          <select
+            value=""
+            onChange={(e) => {
+              const [refTreeId, actionId] = e.target.value.split('|');
+              if (!actionId) return;
+              onUpdateAction({ ...action, predecessors: [...(action.predecessors ?? []), makeDependency(treeId, refTreeId, actionId)] });
+            }}
+            className="text-xs rounded px-1 py-0.5 max-w-[180px]"
+            style={{ backgroundColor: 'var(--color-surface-primary)', border: '1px solid var(--color-border-primary)', color: 'var(--color-text-muted)' }}
+          >
+            <option value="">+ Add…</option>
+            {trees.map(tree => {
+              const candidates = tree.actions.filter(a => {
+                const ref = makeDependency(treeId, tree.id, a.id);
+                return !(action.predecessors ?? []).some(p => isSameDependency(p, ref, treeId)) &&
+                  !createsCycle(trees, treeId, action.id, ref);
+              });
+              if (candidates.length === 0) return null;
+              return (
+                <optgroup key={tree.id} label={tree.id === treeId ? `${tree.name} (this investigation)` : tree.name}>
+                  {candidates.map(a => (
+                    <option key={a.id} value={`${tree.id}|${a.id}`}>{a.action || 'Untitled action'} ({a.status})</option>
+                  ))}
+                </optgroup>
+              );
+            })}
+          </select>
+        </div>
+
         {/* Expanded content */}
         {isExpanded && (
           <div className="mt-4 pt-4 space-y-4" style={{ borderTop: '1px solid var(--color-border-primary)' }}>
@@ -280,6 +404,7 @@ export const InvestigationActionsSummary: React.FC<InvestigationActionsSummaryPr
                             id: crypto.randomUUID(),
                             content: (newUpdateText[action.id] ?? '').trim(),
                             createdAt: new Date().toISOString(),
+                            author: currentUser || undefined,
                           };
                           onUpdateAction({ ...action, updates: [...(action.updates ?? []), update] });
                           setNewUpdateText(prev => ({ ...prev, [action.id]: '' }));
@@ -293,6 +418,7 @@ export const InvestigationActionsSummary: React.FC<InvestigationActionsSummaryPr
                           id: crypto.randomUUID(),
                           content: (newUpdateText[action.id] ?? '').trim(),
                           createdAt: new Date().toISOString(),
+                          author: currentUser || undefined,
                         };
                         onUpdateAction({ ...action, updates: [...(action.updates ?? []), update] });
                         setNewUpdateText(prev => ({ ...prev, [action.id]: '' }));
@@ -312,6 +438,7 @@ export const InvestigationActionsSummary: React.FC<InvestigationActionsSummaryPr
                       <div className="flex items-center justify-between mb-1">
                         <span className="text-xs font-medium" style={{ color: 'var(--color-text-muted)' }}>
                           {new Date(update.createdAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                          {update.author && ` · ${update.author}`}
                         </span>
                         <div className="flex items-center gap-1">
                           {editingUpdateId === update.id ? (
@@ -404,6 +531,38 @@ export const InvestigationActionsSummary: React.FC<InvestigationActionsSummaryPr
             </p>
           </div>
           <div className="flex items-center gap-2">
+            <button
+              onClick={() => csvInputRef.current?.click()}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors"
+              style={{ backgroundColor: 'var(--color-surface-tertiary)', color: 'var(--color-text-secondary)' }}
+              title="Create or update actions from a CSV file"
+            >
+              <Upload size={16} /> Import CSV
+            </button>
+            <button
+              onClick={onExportCsv}
+              disabled={actions.length === 0}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+              style={{ backgroundColor: 'var(--color-surface-tertiary)', color: 'var(--color-text-secondary)' }}
+              title="Download the action list as CSV"
+            >
+              <Download size={16} /> Export CSV
+            </button>
+            <input
+              ref={csvInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={handleCsvFileChange}
+            />
+            <button
+              onClick={() => setShowDependencyGraph(true)}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors"
+              style={{ backgroundColor: 'var(--color-surface-tertiary)', color: 'var(--color-text-secondary)' }}
+              title="Show how actions depend on each other across the project"
+            >
+              <Network size={16} /> Dependencies
+            </button>
             <button
               onClick={onGenerateReport}
               className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors"
@@ -507,6 +666,18 @@ export const InvestigationActionsSummary: React.FC<InvestigationActionsSummaryPr
           </div>
         )}
       </div>
+
+      {showDependencyGraph && (
+        <DependencyGraphDialog
+          trees={trees}
+          activeTreeId={treeId}
+          onNavigateToNode={(nodeId, nodeTreeId) => {
+            setShowDependencyGraph(false);
+            onNavigateToTreeNode(nodeId, nodeTreeId);
+          }}
+          onClose={() => setShowDependencyGraph(false)}
+        />
+      )}
     </div>
   );
 };
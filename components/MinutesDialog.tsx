@@ -0,0 +1,106 @@
+import React from 'react';
+import { RecordingSession, TreeChanges } from '../minutes';
+import { X, FileText, Download, ScrollText } from 'lucide-react';
+
+interface MinutesDialogProps {
+  session: RecordingSession;
+  changes: TreeChanges[];
+  onOpenHtml: () => void;
+  onDownloadMarkdown: () => void;
+  onClose: () => void;
+}
+
+const summarize = (c: TreeChanges): string[] => c.isDeleted ? ['Investigation deleted'] : [
+  c.nodesAdded.length > 0 && `${c.nodesAdded.length} cause${c.nodesAdded.length !== 1 ? 's' : ''} added`,
+  c.nodesRemoved.length > 0 && `${c.nodesRemoved.length} removed`,
+  c.statusChanges.length > 0 && `${c.statusChanges.length} status change${c.statusChanges.length !== 1 ? 's' : ''}`,
+  c.rootCausesIdentified.length > 0 && `${c.rootCausesIdentified.length} root cause${c.rootCausesIdentified.length !== 1 ? 's' : ''} identified`,
+  c.evidenceAdded.length > 0 && `${c.evidenceAdded.length} evidence note${c.evidenceAdded.length !== 1 ? 's' : ''}`,
+  c.actionsAdded.length > 0 && `${c.actionsAdded.length} new action${c.actionsAdded.length !== 1 ? 's' : ''}`,
+  c.actionsClosed.length > 0 && `${c.actionsClosed.length} action${c.actionsClosed.length !== 1 ? 's' : ''} closed`,
+  c.resolutionProgress.length > 0 && `${c.resolutionProgress.length} corrective action${c.resolutionProgress.length !== 1 ? 's' : ''} progressed`,
+].filter((s): s is string => !!s);
+
+export const MinutesDialog: React.FC<MinutesDialogProps> = ({
+  session,
+  changes,
+  onOpenHtml,
+  onDownloadMarkdown,
+  onClose,
+}) => {
+  const start = new Date(session.startedAt);
+  const end = new Date(session.endedAt ?? Date.now());
+  const minutes = Math.max(1, Math.round((end.getTime() - start.getTime()) / 60000));
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black/50 z-50" onClick={onClose} />
+
+      {/* Modal */}
+      <div
+        className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-50 w-[540px] max-h-[80vh] rounded-xl shadow-2xl overflow-hidden flex flex-col"
+        style={{ backgroundColor: 'var(--color-surface-primary)', border: '1px solid var(--color-border-primary)' }}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 shrink-0" style={{ borderBottom: '1px solid var(--color-border-primary)' }}>
+          <div>
+            <h2 className="text-lg font-bold flex items-center gap-2" style={{ color: 'var(--color-text-primary)' }}>
+              <ScrollText size={18} /> Meeting Minutes
+            </h2>
+            <p className="text-xs mt-0.5" style={{ color: 'var(--color-text-muted)' }}>
+              {start.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })} – {end.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })} ({minutes} min)
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded transition-colors" style={{ color: 'var(--color-text-muted)' }}>
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4 space-y-3 overflow-y-auto">
+          {changes.length === 0 ? (
+            <p className="text-sm italic" style={{ color: 'var(--color-text-muted)' }}>
+              No changes were made while recording.
+            </p>
+          ) : (
+            changes.map(c => (
+              <div key={c.tree.id} className="p-3 rounded-lg" style={{ backgroundColor: 'var(--color-surface-tertiary)' }}>
+                <div className="font-medium text-sm" style={{ color: 'var(--color-text-primary)' }}>
+                  {c.tree.name}
+                  {c.isNew && <span className="ml-2 text-xs font-normal" style={{ color: 'var(--color-text-muted)' }}>new</span>}
+                  {c.isDeleted && <span className="ml-2 text-xs font-normal text-red-600">deleted</span>}
+                </div>
+                <div className="text-xs mt-1" style={{ color: 'var(--color-text-secondary)' }}>{summarize(c).join(' · ')}</div>
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-2 px-6 py-4 shrink-0" style={{ borderTop: '1px solid var(--color-border-primary)' }}>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium rounded-lg transition-colors"
+            style={{ backgroundColor: 'var(--color-surface-tertiary)', color: 'var(--color-text-secondary)' }}
+          >
+            Close
+          </button>
+          <button
+            onClick={onDownloadMarkdown}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg transition-colors"
+            style={{ backgroundColor: 'var(--color-surface-tertiary)', color: 'var(--color-text-secondary)' }}
+          >
+            <Download size={16} /> Markdown
+          </button>
+          <button
+            onClick={onOpenHtml}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors"
+          >
+            <FileText size={16} /> Open HTML
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
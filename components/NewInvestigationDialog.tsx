@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { InvestigationTemplate } from '../types';
+import { BUILT_IN_TEMPLATES, BLANK_TEMPLATE_ID, countTemplateNodes } from '../templates';
+import { X, Plus, Library, Trash2 } from 'lucide-react';
+
+interface NewInvestigationDialogProps {
+  projectTemplates: InvestigationTemplate[];
+  onCreate: (name: string, template: InvestigationTemplate) => void;
+  onDeleteTemplate: (templateId: string) => void;
+  onClose: () => void;
+}
+
+export const NewInvestigationDialog: React.FC<NewInvestigationDialogProps> = ({
+  projectTemplates,
+  onCreate,
+  onDeleteTemplate,
+  onClose,
+}) => {
+  const [name, setName] = useState('New Investigation');
+  const [templateId, setTemplateId] = useState(BLANK_TEMPLATE_ID);
+
+  const allTemplates = [...BUILT_IN_TEMPLATES, ...projectTemplates];
+  const selected = allTemplates.find(t => t.id === templateId) ?? BUILT_IN_TEMPLATES[0];
+
+  const handleCreate = () => {
+    if (!name.trim()) return;
+    onCreate(name.trim(), selected);
+  };
+
+  const handleDelete = (template: InvestigationTemplate) => {
+    if (!window.confirm(`Delete template "${template.name}"? Investigations created from it are not affected.`)) return;
+    if (templateId === template.id) setTemplateId(BLANK_TEMPLATE_ID);
+    onDeleteTemplate(template.id);
+  };
+
+  const renderOption = (template: InvestigationTemplate, deletable: boolean) => {
+    const isSelected = template.id === selected.id;
+    return (
+      <div
+        key={template.id}
+        onClick={() => setTemplateId(template.id)}
+        className={`flex items-start gap-2 px-3 py-2 rounded-lg cursor-pointer border transition-colors group ${isSelected ? 'border-indigo-500' : 'border-transparent'}`}
+        style={{ backgroundColor: isSelected ? 'var(--color-brand-light)' : 'var(--color-surface-tertiary)' }}
+      >
+        <div className="flex-1 min-w-0">
+          <div className="text-sm font-medium truncate" style={{ color: 'var(--color-text-primary)' }}>{template.name}</div>
+          <div className="text-xs line-clamp-2" style={{ color: 'var(--color-text-tertiary)' }}>
+            {template.description || `${countTemplateNodes(template)} nodes`}
+          </div>
+        </div>
+        {deletable && (
+          <button
+            onClick={(e) => { e.stopPropagation(); handleDelete(template); }}
+            className="p-1 text-slate-400 hover:text-red-500 rounded opacity-0 group-hover:opacity-100"
+            title="Delete template"
+          >
+            <Trash2 size={13} />
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black/50 z-50" onClick={onClose} />
+
+      {/* Modal */}
+      <div
+        className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-50 w-[640px] max-h-[80vh] rounded-xl shadow-2xl overflow-hidden flex flex-col"
+        style={{ backgroundColor: 'var(--color-surface-primary)', border: '1px solid var(--color-border-primary)' }}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 shrink-0" style={{ borderBottom: '1px solid var(--color-border-primary)' }}>
+          <h2 className="text-lg font-bold flex items-center gap-2" style={{ color: 'var(--color-text-primary)' }}>
+            <Library size={18} /> New Investigation
+          </h2>
+          <button onClick={onClose} className="p-1.5 rounded transition-colors" style={{ color: 'var(--color-text-muted)' }}>
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-5 space-y-4 overflow-y-auto">
+          <div className="space-y-1">
+            <label className="text-xs font-semibold uppercase" style={{ color: 'var(--color-text-tertiary)' }}>Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleCreate(); }}
+              className="w-full text-sm rounded px-3 py-1.5"
+              style={{ backgroundColor: 'var(--color-surface-primary)', color: 'var(--color-text-primary)', border: '1px solid var(--color-border-secondary)' }}
+              autoFocus
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            {/* Template list */}
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <div className="text-xs font-semibold uppercase" style={{ color: 'var(--color-text-tertiary)' }}>Built-in</div>
+                {BUILT_IN_TEMPLATES.map(t => renderOption(t, false))}
+              </div>
+              <div className="space-y-1">
+                <div className="text-xs font-semibold uppercase" style={{ color: 'var(--color-text-tertiary)' }}>This project</div>
+                {projectTemplates.length === 0 && (
+                  <p className="text-xs italic" style={{ color: 'var(--color-text-muted)' }}>
+                    Use "Save branch as template" in the inspector to add your own.
+                  </p>
+                )}
+                {projectTemplates.map(t => renderOption(t, true))}
+              </div>
+            </div>
+
+            {/* Preview */}
+            <div className="rounded-lg p-3 text-xs space-y-1 self-start" style={{ backgroundColor: 'var(--color-surface-secondary)', border: '1px solid var(--color-border-primary)' }}>
+              <div className="font-semibold" style={{ color: 'var(--color-text-primary)' }}>{name.trim() || 'New Investigation'}</div>
+              {selected.nodes.length === 0 && (
+                <p className="italic" style={{ color: 'var(--color-text-muted)' }}>No starting causes.</p>
+              )}
+              {selected.nodes.map((node, i) => (
+                <div key={i} style={{ color: 'var(--color-text-secondary)' }}>
+                  <div className="pl-3">└ {node.label}</div>
+                  {(node.children ?? []).map((child, j) => (
+                    <div key={j} className="pl-7" style={{ color: 'var(--color-text-tertiary)' }}>└ {child.label}</div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 px-6 py-4 shrink-0" style={{ borderTop: '1px solid var(--color-border-primary)' }}>
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm rounded-lg transition-colors"
+            style={{ color: 'var(--color-text-secondary)' }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleCreate}
+            disabled={!name.trim()}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors disabled:opacity-40"
+          >
+            <Plus size={14} /> Create
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
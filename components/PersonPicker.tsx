@@ -0,0 +1,38 @@
+import React, { useId } from 'react';
+
+interface PersonPickerProps {
+  value: string;
+  onChange: (value: string) => void;
+  people: string[];
+  placeholder?: string;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+// Free-text input that suggests names from the project's team roster
+export const PersonPicker: React.FC<PersonPickerProps> = ({
+  value,
+  onChange,
+  people,
+  placeholder,
+  className,
+  style,
+}) => {
+  const listId = useId();
+
+  return (
+    <>
+      <input
+        list={listId}
+        className={className}
+        style={style}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+      />
+      <datalist id={listId}>
+        {people.map(person => <option key={person} value={person} />)}
+      </datalist>
+    </>
+  );
+};
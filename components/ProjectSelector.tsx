@@ -1,6 +1,9 @@
 import React, { useState, useRef } from 'react';
-import { Project } from '../types';
-import { ChevronDown, Plus, Trash2, Pencil, Check, X, Folder, Download, Upload } from 'lucide-react';
+import { ActionChecklist, Project, WorkflowDefinition } from '../types';
+import { TeamRosterDialog } from './TeamRosterDialog';
+import { ChecklistManagerDialog } from './ChecklistManagerDialog';
+import { WorkflowDialog } from './WorkflowDialog';
+import { ChevronDown, Plus, Trash2, Pencil, Check, X, Folder, Download, Upload, Users, ListChecks, Workflow } from 'lucide-react';
 
 interface ProjectSelectorProps {
   projects: Project[];
@@ -10,6 +13,9 @@ interface ProjectSelectorProps {
   onCreateProject: () => void;
   onDeleteProject: (id: string) => void;
   onRenameProject: (id: string, newName: string) => void;
+  onUpdateMembers: (id: string, members: string[]) => void;
+  onUpdateChecklists: (id: string, checklists: ActionChecklist[]) => void;
+  onUpdateWorkflow: (id: string, workflow: WorkflowDefinition | undefined) => void;   // Undefined restores the default
   onExportProject: (id: string) => void;
   onImportProject: (file: File) => void;
 }
@@ -22,15 +28,24 @@ export const ProjectSelector: React.FC<ProjectSelectorProps> = ({
   onCreateProject,
   onDeleteProject,
   onRenameProject,
+  onUpdateMembers,
+  onUpdateChecklists,
+  onUpdateWorkflow,
   onExportProject,
   onImportProject,
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [renamingId, setRenamingId] = useState<string | null>(null);
   const [renameValue, setRenameValue] = useState('');
+  const [rosterProjectId, setRosterProjectId] = useState<string | null>(null);
+  const [checklistProjectId, setChecklistProjectId] = useState<string | null>(null);
+  const [workflowProjectId, setWorkflowProjectId] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const activeProject = projects.find(p => p.id === activeProjectId);
+  const rosterProject = projects.find(p => p.id === rosterProjectId);
+  const checklistProject = projects.find(p => p.id === checklistProjectId);
+  const workflowProject = projects.find(p => p.id === workflowProjectId);
 
   const handleStartRename = (project: Project) => {
     setRenamingId(project.id);
@@ -176,6 +191,30 @@ export const ProjectSelector: React.FC<ProjectSelectorProps> = ({
                       >
                         <Pencil size={13} />
                       </button>
+                      <button
+                        onClick={e => { e.stopPropagation(); setRosterProjectId(project.id); setIsOpen(false); }}
+                        className="p-1 rounded"
+                        style={{ color: 'var(--color-text-muted)' }}
+                        title={`Team (${project.members?.length ?? 0})`}
+                      >
+                        <Users size={13} />
+                      </button>
+                      <button
+                        onClick={e => { e.stopPropagation(); setChecklistProjectId(project.id); setIsOpen(false); }}
+                        className="p-1 rounded"
+                        style={{ color: 'var(--color-text-muted)' }}
+                        title={`Action checklists (${project.checklists?.length ?? 0})`}
+                      >
+                        <ListChecks size={13} />
+                      </button>
+                      <button
+                        onClick={e => { e.stopPropagation(); setWorkflowProjectId(project.id); setIsOpen(false); }}
+                        className="p-1 rounded"
+                        style={{ color: 'var(--color-text-muted)' }}
+                        title={`Status workflow${project.workflow ? ' (customized)' : ''}`}
+                      >
+                        <Workflow size={13} />
+                      </button>
                       <button
                         onClick={e => { e.stopPropagation(); onExportProject(project.id); }}
                         className="p-1 rounded"
@@ -228,6 +267,30 @@ export const ProjectSelector: React.FC<ProjectSelectorProps> = ({
           </div>
         </>
       )}
+
+      {rosterProject && (
+        <TeamRosterDialog
+          project={rosterProject}
+          onUpdateMembers={(members) => onUpdateMembers(rosterProject.id, members)}
+          onClose={() => setRosterProjectId(null)}
+        />
+      )}
+
+      {checklistProject && (
+        <ChecklistManagerDialog
+          project={checklistProject}
+          onSave={(checklists) => onUpdateChecklists(checklistProject.id, checklists)}
+          onClose={() => setChecklistProjectId(null)}
+        />
+      )}
+
+      {workflowProject && (
+        <WorkflowDialog
+          project={workflowProject}
+          onSave={(workflow) => onUpdateWorkflow(workflowProject.id, workflow)}
+          onClose={() => setWorkflowProjectId(null)}
+        />
+      )}
     </div>
   );
 };
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { ActionUpdate, CauseNode, ResolutionItem, ResolutionStatus } from '../types';
+import { ActionUpdate, CauseNode, ResolutionItem, ResolutionStatus, WorkflowDefinition } from '../types';
 import { RESOLUTION_STATUS_COLORS } from '../constants';
 import {
     Shield,
@@ -22,6 +22,10 @@ import {
     Pencil,
     Check
 } from 'lucide-react';
+import { isOverdueDate, isDueToday, isDueThisWeek } from '../treeUtils';
+import { PersonPicker } from './PersonPicker';
+import { WorkflowViolation, checkResolutionTransition, isTransitionAllowed } from '../workflow';
+import { WorkflowViolations } from './WorkflowViolations';
 
 const RESOLUTION_STATUSES: ResolutionStatus[] = [
   'Open', 'In Progress', 'On Hold', 'Implemented', 'Verified', 'Closed'
@@ -57,30 +61,13 @@ const getNextUniqueTitle = (prefix: string, existingTitles: string[]): string =>
   return `${prefix} ${nextNum}`;
 };
 
-const isOverdueDate = (targetDate: string, status: string) => {
-  if (!targetDate || status === 'Verified' || status === 'Closed') return false;
-  return new Date(targetDate) < new Date(new Date().toDateString());
-};
-
-const isDueToday = (targetDate: string) => {
-  if (!targetDate) return false;
-  const today = new Date().toDateString();
-  return new Date(targetDate).toDateString() === today;
-};
-
-const isDueThisWeek = (targetDate: string) => {
-  if (!targetDate) return false;
-  const today = new Date();
-  const endOfWeek = new Date(today);
-  endOfWeek.setDate(today.getDate() + (7 - today.getDay()));
-  const due = new Date(targetDate);
-  return due >= new Date(today.toDateString()) && due <= endOfWeek;
-};
-
 interface ResolutionsSummaryProps {
   resolutions: ResolutionItem[];
   allRootCauses: CauseNode[];
   treeName: string;
+  people: string[];
+  currentUser: string;
+  workflow: WorkflowDefinition;
   onAddResolution: (resolution: ResolutionItem) => void;
   onUpdateResolution: (resolution: ResolutionItem) => void;
   onDeleteResolution: (resolutionId: string) => void;
@@ -92,6 +79,9 @@ export const ResolutionsSummary: React.FC<ResolutionsSummaryProps> = ({
   resolutions,
   allRootCauses,
   treeName,
+  people,
+  currentUser,
+  workflow,
   onAddResolution,
   onUpdateResolution,
   onDeleteResolution,
@@ -105,6 +95,7 @@ export const ResolutionsSummary: React.FC<ResolutionsSummaryProps> = ({
   const [expandedResolutionId, setExpandedResolutionId] = useState<string | null>(null);
   const [expandedResolutionUpdates, setExpandedResolutionUpdates] = useState<Record<string, boolean>>({});
   const [expandedRootCauseLinks, setExpandedRootCauseLinks] = useState<Record<string, boolean>>({});
+  const [violations, setViolations] = useState<Record<string, WorkflowViolation[]>>({});
   const [newUpdateText, setNewUpdateText] = useState<Record<string, string>>({});
   const [editingUpdateId, setEditingUpdateId] = useState<string | null>(null);
   const [editingUpdateText, setEditingUpdateText] = useState('');
@@ -169,6 +160,24 @@ export const ResolutionsSummary: React.FC<ResolutionsSummaryProps> = ({
     return rc?.label ?? 'Unknown';
   };
 
+  const setResolutionViolations = (id: string, found: WorkflowViolation[]) => {
+    setViolations(prev => {
+      const { [id]: _, ...rest } = prev;
+      return found.length > 0 ? { ...rest, [id]: found } : rest;
+    });
+  };
+
+  const handleStatusChange = (resolution: ResolutionItem, status: ResolutionStatus) => {
+    const found = checkResolutionTransition(workflow, resolution, status);
+    setResolutionViolations(resolution.id, found);
+    if (found.length > 0) {
+      // Open the card so the missing details can be filled in
+      setExpandedResolutionId(resolution.id);
+      return;
+    }
+    onUpdateResolution({...resolution, status});
+  };
+
   const renderResolutionCard = (resolution: ResolutionItem) => {
     const colors = RESOLUTION_STATUS_COLORS[resolution.status] ?? RESOLUTION_STATUS_COLORS['Open'];
     const isExpanded = expandedResolutionId === resolution.id;
@@ -206,11 +215,13 @@ export const ResolutionsSummary: React.FC<ResolutionsSummaryProps> = ({
           <div className="flex items-center gap-2">
             <select
               value={resolution.status}
-              onChange={(e) => onUpdateResolution({...resolution, status: e.target.value as ResolutionStatus})}
+              onChange={(e) => handleStatusChange(resolution, e.target.value as ResolutionStatus)}
               className="text-xs border rounded px-2 py-1"
               style={{ borderColor: colors.border, color: colors.text, backgroundColor: 'var(--color-surface-primary)' }}
             >
-              {RESOLUTION_STATUSES.map(s => <option key={s} value={s}>{s}</option>)}
+              {RESOLUTION_STATUSES.map(s => (
+                <option key={s} value={s} disabled={!isTransitionAllowed(workflow.resolution, resolution.status, s)}>{s}</option>
+              ))}
             </select>
             <button
               onClick={() => setExpandedResolutionId(isExpanded ? null : resolution.id)}
@@ -229,15 +240,22 @@ export const ResolutionsSummary: React.FC<ResolutionsSummaryProps> = ({
           </div>
         </div>
 
+        <WorkflowViolations
+          violations={violations[resolution.id] ?? []}
+          onDismiss={() => setResolutionViolations(resolution.id, [])}
+          className="mb-3"
+        />
+
         {/* Summary row */}
         <div className="flex flex-wrap gap-4 text-sm">
           <div className="flex items-center gap-1.5" style={{ color: 'var(--color-text-tertiary)' }}>
             <User size={14} />
-            <input
+            <PersonPicker
               className="bg-transparent outline-none"
               style={{ color: 'var(--color-text-secondary)', borderBottom: '1px solid var(--color-border-primary)' }}
               value={resolution.owner}
-              onChange={(e) => onUpdateResolution({...resolution, owner: e.target.value})}
+              onChange={(value) => onUpdateResolution({...resolution, owner: value})}
+              people={people}
               placeholder="Owner"
             />
           </div>
@@ -301,7 +319,7 @@ export const ResolutionsSummary: React.FC<ResolutionsSummaryProps> = ({
               />
             </div>
 
-            {(resolution.status === 'Implemented' || resolution.status === 'Verified' || resolution.status === 'Closed') && (
+            {(resolution.status === 'Implemented' || resolution.status === 'Verified' || resolution.status === 'Closed' || violations[resolution.id]) && (
               <>
                 <div className="grid grid-cols-2 gap-4">
                   <div>
@@ -336,6 +354,17 @@ export const ResolutionsSummary: React.FC<ResolutionsSummaryProps> = ({
                     placeholder="Document verification results..."
                   />
                 </div>
+                <div>
+                  <label className="text-xs uppercase font-semibold" style={{ color: 'var(--color-text-muted)' }}>Approved By</label>
+                  <PersonPicker
+                    className="w-full text-sm p-2 rounded mt-1"
+                    style={{ backgroundColor: 'var(--color-surface-primary)', color: 'var(--color-text-secondary)', border: '1px solid var(--color-border-primary)' }}
+                    value={resolution.approvedBy ?? ''}
+                    onChange={(value) => onUpdateResolution({...resolution, approvedBy: value || undefined})}
+                    people={people}
+                    placeholder="Who signed off the closure"
+                  />
+                </div>
               </>
             )}
 
@@ -426,6 +455,7 @@ export const ResolutionsSummary: React.FC<ResolutionsSummaryProps> = ({
                             id: crypto.randomUUID(),
                             content: (newUpdateText[resolution.id] ?? '').trim(),
                             createdAt: new Date().toISOString(),
+                            author: currentUser || undefined,
                           };
                           onUpdateResolution({ ...resolution, updates: [...(resolution.updates ?? []), update] });
                           setNewUpdateText(prev => ({ ...prev, [resolution.id]: '' }));
@@ -439,6 +469,7 @@ export const ResolutionsSummary: React.FC<ResolutionsSummaryProps> = ({
                           id: crypto.randomUUID(),
                           content: (newUpdateText[resolution.id] ?? '').trim(),
                           createdAt: new Date().toISOString(),
+                          author: currentUser || undefined,
                         };
                         onUpdateResolution({ ...resolution, updates: [...(resolution.updates ?? []), update] });
                         setNewUpdateText(prev => ({ ...prev, [resolution.id]: '' }));
@@ -458,6 +489,7 @@ export const ResolutionsSummary: React.FC<ResolutionsSummaryProps> = ({
                       <div className="flex items-center justify-between mb-1">
                         <span className="text-xs font-medium" style={{ color: 'var(--color-text-muted)' }}>
                           {new Date(update.createdAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                          {update.author && ` · ${update.author}`}
                         </span>
                         <div className="flex items-center gap-1">
                           {editingUpdateId === update.id ? (
@@ -0,0 +1,229 @@
+import React, { useMemo, useState } from 'react';
+import { CauseNode, ResolutionItem } from '../types';
+import { NODE_STATUS_LABELS, STATUS_COLORS } from '../constants';
+import { buildRiskRows, rpnBand, RiskRow, RISK_BAND_COLORS, RISK_BAND_LABELS, RATING_DIMENSIONS } from '../fmea';
+import { Flame, FileText, ArrowUp, ArrowDown, ArrowUpDown, ExternalLink, FileSpreadsheet, Sheet } from 'lucide-react';
+
+interface RiskTableViewProps {
+  treeData: CauseNode;
+  resolutions: ResolutionItem[];
+  treeName: string;
+  onNavigateToNode: (nodeId: string) => void;
+  onGenerateReport: () => void;
+  onExportCsv: () => void;
+  onExportXlsx: () => void;
+}
+
+type SortKey = 'label' | 'status' | 'severity' | 'occurrence' | 'detection' | 'rpn' | 'residualRpn';
+
+// Unrated values always sort last, whichever the direction
+const sortValue = (row: RiskRow, key: SortKey): number | string | null => {
+  switch (key) {
+    case 'label': return row.node.label.toLowerCase();
+    case 'status': return row.node.status;
+    case 'rpn': return row.rpn;
+    case 'residualRpn': return row.residualRpn;
+    default: return row.node.risk?.[key] ?? null;
+  }
+};
+
+const RpnBadge: React.FC<{ rpn: number | null }> = ({ rpn }) => {
+  if (rpn === null) return <span style={{ color: 'var(--color-text-muted)' }}>—</span>;
+  const band = rpnBand(rpn);
+  const colors = RISK_BAND_COLORS[band];
+  return (
+    <span
+      className="inline-block px-2 py-0.5 rounded text-xs font-bold font-mono"
+      style={{ backgroundColor: colors.bg, border: `1px solid ${colors.border}`, color: colors.text }}
+      title={`${RISK_BAND_LABELS[band]} risk`}
+    >
+      {rpn}
+    </span>
+  );
+};
+
+export const RiskTableView: React.FC<RiskTableViewProps> = ({
+  treeData,
+  resolutions,
+  treeName,
+  onNavigateToNode,
+  onGenerateReport,
+  onExportCsv,
+  onExportXlsx,
+}) => {
+  const [sortKey, setSortKey] = useState<SortKey>('rpn');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+
+  const rows = useMemo(() => buildRiskRows(treeData, resolutions), [treeData, resolutions]);
+
+  const sorted = useMemo(() => {
+    return [...rows].sort((a, b) => {
+      const va = sortValue(a, sortKey);
+      const vb = sortValue(b, sortKey);
+      if (va === null && vb === null) return 0;
+      if (va === null) return 1;
+      if (vb === null) return -1;
+      const diff = typeof va === 'string' ? va.localeCompare(vb as string) : va - (vb as number);
+      return sortDirection === 'asc' ? diff : -diff;
+    });
+  }, [rows, sortKey, sortDirection]);
+
+  const rated = rows.filter(r => r.rpn !== null);
+  const bandCounts = { low: 0, medium: 0, high: 0 };
+  for (const row of rated) bandCounts[rpnBand(row.rpn!)]++;
+  const reRated = rows.filter(r => r.rpn !== null && r.residualRpn !== null);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortKey(key);
+      setSortDirection(key === 'label' || key === 'status' ? 'asc' : 'desc');
+    }
+  };
+
+  const header = (key: SortKey, label: string, title?: string, align: 'left' | 'center' = 'center') => (
+    <th className={`px-3 py-2 text-xs font-semibold uppercase ${align === 'center' ? 'text-center' : 'text-left'}`} title={title}>
+      <button onClick={() => handleSort(key)} className="inline-flex items-center gap-1" style={{ color: 'var(--color-text-tertiary)' }}>
+        {label}
+        {sortKey === key
+          ? (sortDirection === 'asc' ? <ArrowUp size={12} /> : <ArrowDown size={12} />)
+          : <ArrowUpDown size={12} className="opacity-40" />}
+      </button>
+    </th>
+  );
+
+  return (
+    <div className="flex-1 overflow-auto p-6" style={{ backgroundColor: 'var(--color-surface-secondary)' }}>
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-xl font-bold flex items-center gap-2" style={{ color: 'var(--color-text-primary)' }}>
+              <Flame size={24} /> Risk Table
+            </h2>
+            <p className="text-sm mt-1" style={{ color: 'var(--color-text-muted)' }}>
+              {treeName} — FMEA ratings and Risk Priority Numbers (RPN = S × O × D)
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onExportCsv}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors"
+              style={{ backgroundColor: 'var(--color-surface-tertiary)', color: 'var(--color-text-secondary)' }}
+              title="Download the FMEA worksheet as CSV"
+            >
+              <Sheet size={16} /> CSV
+            </button>
+            <button
+              onClick={onExportXlsx}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors"
+              style={{ backgroundColor: 'var(--color-surface-tertiary)', color: 'var(--color-text-secondary)' }}
+              title="Download the FMEA worksheet as an Excel workbook"
+            >
+              <FileSpreadsheet size={16} /> XLSX
+            </button>
+            <button
+              onClick={onGenerateReport}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors"
+              style={{ backgroundColor: 'var(--color-surface-tertiary)', color: 'var(--color-text-secondary)' }}
+              title="Generate report for current investigation"
+            >
+              <FileText size={16} /> Report
+            </button>
+          </div>
+        </div>
+
+        {/* Stats cards */}
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+          <div className="p-4 rounded-lg" style={{ backgroundColor: 'var(--color-surface-primary)', border: '1px solid var(--color-border-primary)' }}>
+            <div className="text-2xl font-bold" style={{ color: 'var(--color-text-primary)' }}>{rated.length}/{rows.length}</div>
+            <div className="text-xs" style={{ color: 'var(--color-text-muted)' }}>Causes Rated</div>
+          </div>
+          {(['high', 'medium', 'low'] as const).map(band => (
+            <div key={band} className="p-4 rounded-lg" style={{ backgroundColor: RISK_BAND_COLORS[band].bg, border: `1px solid ${RISK_BAND_COLORS[band].border}` }}>
+              <div className="text-2xl font-bold" style={{ color: RISK_BAND_COLORS[band].text }}>{bandCounts[band]}</div>
+              <div className="text-xs" style={{ color: RISK_BAND_COLORS[band].text }}>{RISK_BAND_LABELS[band]} Risk</div>
+            </div>
+          ))}
+          <div className="p-4 rounded-lg" style={{ backgroundColor: 'var(--color-surface-primary)', border: '1px solid var(--color-border-primary)' }}>
+            <div className="text-2xl font-bold" style={{ color: 'var(--color-text-primary)' }}>{reRated.length}</div>
+            <div className="text-xs" style={{ color: 'var(--color-text-muted)' }}>Re-rated After Fix</div>
+          </div>
+        </div>
+
+        {/* Table */}
+        <div className="rounded-lg overflow-hidden" style={{ backgroundColor: 'var(--color-surface-primary)', border: '1px solid var(--color-border-primary)' }}>
+          <table className="w-full text-sm">
+            <thead style={{ backgroundColor: 'var(--color-surface-tertiary)' }}>
+              <tr>
+                {header('label', 'Cause', undefined, 'left')}
+                {header('status', 'Status')}
+                {RATING_DIMENSIONS.map(d => header(d.key, d.short, d.hint))}
+                {header('rpn', 'RPN')}
+                {header('residualRpn', 'After Fix', 'RPN re-rated after a linked corrective action was verified')}
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.length === 0 && (
+                <tr>
+                  <td colSpan={8} className="px-3 py-6 text-center italic" style={{ color: 'var(--color-text-muted)' }}>
+                    No causes in this investigation yet.
+                  </td>
+                </tr>
+              )}
+              {sorted.map(row => {
+                const statusColors = STATUS_COLORS[row.node.status];
+                const reduction = row.rpn && row.residualRpn !== null ? Math.round((1 - row.residualRpn / row.rpn) * 100) : null;
+                return (
+                  <tr key={row.node.id} style={{ borderTop: '1px solid var(--color-border-primary)' }}>
+                    <td className="px-3 py-2" style={{ color: 'var(--color-text-primary)' }}>
+                      <div className="font-medium">{row.node.label}</div>
+                      <div className="text-[10px] uppercase" style={{ color: 'var(--color-text-muted)' }}>{row.node.type}</div>
+                    </td>
+                    <td className="px-3 py-2 text-center">
+                      <span className="px-2 py-0.5 rounded text-xs font-medium border" style={{ backgroundColor: statusColors.bg, borderColor: statusColors.border, color: statusColors.text }}>
+                        {NODE_STATUS_LABELS[row.node.status]}
+                      </span>
+                    </td>
+                    {RATING_DIMENSIONS.map(d => (
+                      <td key={d.key} className="px-3 py-2 text-center font-mono" style={{ color: 'var(--color-text-secondary)' }}>
+                        {row.node.risk?.[d.key] ?? '—'}
+                      </td>
+                    ))}
+                    <td className="px-3 py-2 text-center"><RpnBadge rpn={row.rpn} /></td>
+                    <td className="px-3 py-2 text-center">
+                      {row.isVerified ? (
+                        <div className="flex items-center justify-center gap-1">
+                          <RpnBadge rpn={row.residualRpn} />
+                          {reduction !== null && (
+                            <span className="text-[10px] font-semibold" style={{ color: reduction > 0 ? '#16a34a' : 'var(--color-text-muted)' }}>
+                              {reduction > 0 ? `-${reduction}%` : `${-reduction}%`}
+                            </span>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-xs" style={{ color: 'var(--color-text-muted)' }} title="Available once a linked corrective action is verified">—</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        onClick={() => onNavigateToNode(row.node.id)}
+                        className="p-1 rounded"
+                        style={{ color: 'var(--color-text-muted)' }}
+                        title="Open in tree"
+                      >
+                        <ExternalLink size={14} />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
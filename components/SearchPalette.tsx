@@ -0,0 +1,208 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { SavedTree } from '../types';
+import { searchTrees, SearchResult, SearchResultKind } from '../search';
+import { Search, X, GitBranch, StickyNote, ClipboardList, Shield } from 'lucide-react';
+
+interface SearchPaletteProps {
+  trees: SavedTree[];
+  onSelectResult: (result: SearchResult) => void;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<SearchResultKind, string> = {
+  node: 'Causes',
+  note: 'Notes',
+  action: 'Actions',
+  resolution: 'Corrective',
+};
+
+const KIND_ORDER: SearchResultKind[] = ['node', 'note', 'action', 'resolution'];
+
+const KindIcon: React.FC<{ kind: SearchResultKind }> = ({ kind }) => {
+  if (kind === 'node') return <GitBranch size={14} />;
+  if (kind === 'note') return <StickyNote size={14} />;
+  if (kind === 'action') return <ClipboardList size={14} />;
+  return <Shield size={14} />;
+};
+
+// Wrap occurrences of the query terms in <mark>
+const highlight = (text: string, terms: string[]): React.ReactNode => {
+  if (terms.length === 0) return text;
+  const escaped = terms.map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const parts = text.split(new RegExp(`(${escaped.join('|')})`, 'gi'));
+  return parts.map((part, i) =>
+    terms.includes(part.toLowerCase())
+      ? <mark key={i} className="bg-amber-200 text-inherit rounded px-0.5">{part}</mark>
+      : <React.Fragment key={i}>{part}</React.Fragment>
+  );
+};
+
+export const SearchPalette: React.FC<SearchPaletteProps> = ({
+  trees,
+  onSelectResult,
+  onClose,
+}) => {
+  const [query, setQuery] = useState('');
+  const [kindFilter, setKindFilter] = useState<SearchResultKind | 'all'>('all');
+  const [highlightIndex, setHighlightIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+
+  const allResults = useMemo(() => searchTrees(trees, query), [trees, query]);
+  const results = useMemo(
+    () => kindFilter === 'all' ? allResults : allResults.filter(r => r.kind === kindFilter),
+    [allResults, kindFilter]
+  );
+
+  // Group by investigation, then by kind, keeping a flat order for keyboard navigation
+  const grouped = useMemo(() => {
+    const byTree = new Map<string, { treeName: string; byKind: Map<SearchResultKind, SearchResult[]> }>();
+    for (const result of results) {
+      if (!byTree.has(result.treeId)) byTree.set(result.treeId, { treeName: result.treeName, byKind: new Map() });
+      const group = byTree.get(result.treeId)!;
+      if (!group.byKind.has(result.kind)) group.byKind.set(result.kind, []);
+      group.byKind.get(result.kind)!.push(result);
+    }
+    const flat: SearchResult[] = [];
+    for (const group of byTree.values()) {
+      for (const kind of KIND_ORDER) flat.push(...(group.byKind.get(kind) ?? []));
+    }
+    return { byTree, flat };
+  }, [results]);
+
+  useEffect(() => {
+    setHighlightIndex(0);
+  }, [query, kindFilter]);
+
+  useEffect(() => {
+    const el = listRef.current?.querySelector(`[data-result-index="${highlightIndex}"]`);
+    el?.scrollIntoView({ block: 'nearest' });
+  }, [highlightIndex]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlightIndex(i => Math.min(i + 1, grouped.flat.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlightIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' && grouped.flat[highlightIndex]) {
+      onSelectResult(grouped.flat[highlightIndex]);
+    }
+  };
+
+  const kindCounts: Record<string, number> = {};
+  for (const r of allResults) kindCounts[r.kind] = (kindCounts[r.kind] ?? 0) + 1;
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black/50 z-50" onClick={onClose} />
+
+      {/* Palette */}
+      <div
+        className="fixed top-24 left-1/2 -translate-x-1/2 z-50 w-[640px] max-h-[70vh] rounded-xl shadow-2xl overflow-hidden flex flex-col"
+        style={{ backgroundColor: 'var(--color-surface-primary)', border: '1px solid var(--color-border-primary)' }}
+        onKeyDown={handleKeyDown}
+      >
+        {/* Search input */}
+        <div className="flex items-center gap-3 px-4 py-3 shrink-0" style={{ borderBottom: '1px solid var(--color-border-primary)' }}>
+          <Search size={18} style={{ color: 'var(--color-text-muted)' }} />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search causes, notes, actions and corrective actions..."
+            className="flex-1 bg-transparent outline-none text-sm"
+            style={{ color: 'var(--color-text-primary)' }}
+            autoFocus
+          />
+          <button onClick={onClose} className="p-1 rounded" style={{ color: 'var(--color-text-muted)' }}>
+            <X size={16} />
+          </button>
+        </div>
+
+        {/* Kind filters */}
+        <div className="flex items-center gap-1.5 px-4 py-2 shrink-0" style={{ borderBottom: '1px solid var(--color-border-primary)' }}>
+          {(['all', ...KIND_ORDER] as const).map(kind => (
+            <button
+              key={kind}
+              onClick={() => setKindFilter(kind)}
+              className={`px-2 py-0.5 rounded-full text-xs font-medium transition-colors ${kindFilter === kind ? 'bg-indigo-600 text-white' : ''}`}
+              style={kindFilter !== kind ? { backgroundColor: 'var(--color-surface-tertiary)', color: 'var(--color-text-secondary)' } : undefined}
+            >
+              {kind === 'all' ? 'All' : KIND_LABELS[kind]}
+              {query.trim() && ` (${kind === 'all' ? allResults.length : kindCounts[kind] ?? 0})`}
+            </button>
+          ))}
+        </div>
+
+        {/* Results */}
+        <div ref={listRef} className="overflow-y-auto flex-1 py-2">
+          {!query.trim() && (
+            <p className="px-4 py-6 text-sm text-center" style={{ color: 'var(--color-text-muted)' }}>
+              Type to search every investigation in this project.
+            </p>
+          )}
+          {query.trim() && grouped.flat.length === 0 && (
+            <p className="px-4 py-6 text-sm text-center" style={{ color: 'var(--color-text-muted)' }}>
+              No matches for "{query}".
+            </p>
+          )}
+          {[...grouped.byTree.entries()].map(([treeId, group]) => (
+            <div key={treeId} className="mb-2">
+              <div className="px-4 py-1 text-[10px] uppercase tracking-wider font-semibold" style={{ color: 'var(--color-text-muted)' }}>
+                {group.treeName}
+              </div>
+              {KIND_ORDER.filter(kind => group.byKind.has(kind)).map(kind => (
+                <div key={kind}>
+                  {group.byKind.get(kind)!.map(result => {
+                    const index = grouped.flat.indexOf(result);
+                    const isHighlighted = index === highlightIndex;
+                    return (
+                      <button
+                        key={result.id}
+                        data-result-index={index}
+                        onClick={() => onSelectResult(result)}
+                        onMouseEnter={() => setHighlightIndex(index)}
+                        className="w-full text-left px-4 py-2 flex items-start gap-3"
+                        style={{ backgroundColor: isHighlighted ? 'var(--color-brand-light)' : undefined }}
+                      >
+                        <span className="mt-0.5 shrink-0" style={{ color: 'var(--color-text-muted)' }}>
+                          <KindIcon kind={result.kind} />
+                        </span>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm font-medium truncate" style={{ color: 'var(--color-text-primary)' }}>
+                              {highlight(result.title, terms)}
+                            </span>
+                            <span className="text-[10px] shrink-0 px-1.5 rounded" style={{ backgroundColor: 'var(--color-surface-tertiary)', color: 'var(--color-text-muted)' }}>
+                              {result.field}
+                            </span>
+                          </div>
+                          <div className="text-xs truncate" style={{ color: 'var(--color-text-tertiary)' }}>
+                            {highlight(result.snippet, terms)}
+                          </div>
+                        </div>
+                      </button>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="px-4 py-2 text-[10px] flex gap-4 shrink-0" style={{ borderTop: '1px solid var(--color-border-primary)', color: 'var(--color-text-muted)' }}>
+          <span>↑↓ navigate</span>
+          <span>↵ open</span>
+          <span>esc close</span>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,111 @@
+import React, { useMemo } from 'react';
+import { CauseNode } from '../types';
+import { STATUS_COLORS } from '../constants';
+import { flattenTree } from '../treeUtils';
+import { computeProbabilities, rankSensitivity, formatProbability } from '../probability';
+import { X, Percent } from 'lucide-react';
+
+interface SensitivityDialogProps {
+  treeData: CauseNode;
+  onSelectNode: (nodeId: string) => void;
+  onClose: () => void;
+}
+
+export const SensitivityDialog: React.FC<SensitivityDialogProps> = ({
+  treeData,
+  onSelectNode,
+  onClose,
+}) => {
+  const top = useMemo(() => computeProbabilities(treeData).get(treeData.id) ?? null, [treeData]);
+  const ranking = useMemo(() => rankSensitivity(treeData), [treeData]);
+  const missing = useMemo(
+    () => flattenTree(treeData).filter(n => n !== treeData && (n.children?.length ?? 0) === 0 && n.probability === undefined),
+    [treeData]
+  );
+  const maxImportance = ranking[0]?.importance ?? 0;
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black/50 z-50" onClick={onClose} />
+
+      {/* Modal */}
+      <div
+        className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-50 w-[640px] max-h-[80vh] rounded-xl shadow-2xl overflow-hidden flex flex-col"
+        style={{ backgroundColor: 'var(--color-surface-primary)', border: '1px solid var(--color-border-primary)' }}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 shrink-0" style={{ borderBottom: '1px solid var(--color-border-primary)' }}>
+          <h2 className="text-lg font-bold flex items-center gap-2" style={{ color: 'var(--color-text-primary)' }}>
+            <Percent size={18} /> Probability & Sensitivity
+          </h2>
+          <button onClick={onClose} className="p-1.5 rounded transition-colors" style={{ color: 'var(--color-text-muted)' }}>
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4 space-y-4 overflow-y-auto">
+          <div className="p-3 rounded-lg" style={{ backgroundColor: 'var(--color-surface-tertiary)' }}>
+            <div className="text-xs uppercase font-semibold" style={{ color: 'var(--color-text-tertiary)' }}>Top event — {treeData.label}</div>
+            <div className="text-2xl font-bold font-mono" style={{ color: 'var(--color-text-primary)' }}>
+              {top !== null ? formatProbability(top) : '—'}
+            </div>
+            <p className="text-xs mt-1" style={{ color: 'var(--color-text-muted)' }}>
+              Combined through the logic gates assuming independent causes.
+            </p>
+          </div>
+
+          {missing.length > 0 && (
+            <div className="p-3 rounded-lg border border-amber-300 bg-amber-50 text-xs text-amber-800">
+              <p className="font-semibold mb-1">{missing.length} leaf cause{missing.length !== 1 ? 's have' : ' has'} no probability yet:</p>
+              <div className="flex flex-wrap gap-1">
+                {missing.map(n => (
+                  <button key={n.id} onClick={() => onSelectNode(n.id)} className="underline hover:text-amber-900">{n.label}</button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {ranking.length > 0 && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs uppercase text-left" style={{ color: 'var(--color-text-tertiary)' }}>
+                  <th className="py-1 font-semibold">Leaf cause</th>
+                  <th className="py-1 font-semibold text-right">P</th>
+                  <th className="py-1 font-semibold pl-3" title="Birnbaum importance: change in the top probability between the cause certainly occurring and never occurring">Importance</th>
+                  <th className="py-1 font-semibold text-right" title="Share of the top probability removed if this cause were eliminated">If eliminated</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ranking.map(({ node, probability, importance, contribution }) => (
+                  <tr key={node.id} style={{ borderTop: '1px solid var(--color-border-primary)' }}>
+                    <td className="py-1.5 pr-2">
+                      <button
+                        onClick={() => onSelectNode(node.id)}
+                        className="px-2 py-0.5 rounded border text-xs font-medium text-left"
+                        style={{ backgroundColor: STATUS_COLORS[node.status].bg, borderColor: STATUS_COLORS[node.status].border, color: STATUS_COLORS[node.status].text }}
+                      >
+                        {node.label}
+                      </button>
+                    </td>
+                    <td className="py-1.5 text-right font-mono text-xs" style={{ color: 'var(--color-text-secondary)' }}>{formatProbability(probability)}</td>
+                    <td className="py-1.5 pl-3">
+                      <div className="flex items-center gap-2">
+                        <div className="flex-1 h-2 rounded-full overflow-hidden" style={{ backgroundColor: 'var(--color-surface-tertiary)' }}>
+                          <div className="h-full bg-indigo-500" style={{ width: `${maxImportance > 0 ? (importance / maxImportance) * 100 : 0}%` }} />
+                        </div>
+                        <span className="font-mono text-xs w-14 text-right" style={{ color: 'var(--color-text-secondary)' }}>{formatProbability(importance)}</span>
+                      </div>
+                    </td>
+                    <td className="py-1.5 text-right font-mono text-xs" style={{ color: 'var(--color-text-secondary)' }}>-{(contribution * 100).toFixed(1)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,48 @@
+import React, { useEffect, useState } from 'react';
+import { RecordingSession } from '../minutes';
+import { formatDuration } from '../tagup';
+import { Circle, Square } from 'lucide-react';
+
+interface SessionRecorderProps {
+  session: RecordingSession | null;
+  onStart: () => void;
+  onStop: () => void;
+}
+
+export const SessionRecorder: React.FC<SessionRecorderProps> = ({ session, onStart, onStop }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!session) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [session]);
+
+  if (!session) {
+    return (
+      <button
+        onClick={onStart}
+        className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors"
+        style={{ backgroundColor: 'var(--color-surface-tertiary)', color: 'var(--color-text-secondary)' }}
+        title="Record a meeting: changes made until you stop are turned into minutes"
+      >
+        <Circle size={14} className="text-red-500" />
+        Record
+      </button>
+    );
+  }
+
+  const elapsed = Math.max(0, Math.floor((now - new Date(session.startedAt).getTime()) / 1000));
+  return (
+    <button
+      onClick={onStop}
+      className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors bg-red-50 text-red-700 border border-red-300"
+      title="Stop recording and generate minutes"
+    >
+      <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+      <span className="font-mono">{formatDuration(elapsed)}</span>
+      <Square size={12} />
+    </button>
+  );
+};
@@ -1,6 +1,8 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { AppSettings } from '../types';
-import { X, Save, Moon, Sun, HardDrive, Clock } from 'lucide-react';
+import { getStorageEstimate, StorageEstimate } from '../storage';
+import { formatFileSize } from '../attachments';
+import { X, Save, Moon, Sun, HardDrive, Clock, User, Database } from 'lucide-react';
 
 interface SettingsModalProps {
   settings: AppSettings;
@@ -17,6 +19,16 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
   onClose,
   onBackupNow,
 }) => {
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
+
+  useEffect(() => {
+    getStorageEstimate().then(setStorageEstimate).catch(() => setStorageEstimate(null));
+  }, []);
+
+  const usagePercent = storageEstimate && storageEstimate.quota > 0
+    ? Math.min(100, (storageEstimate.usage / storageEstimate.quota) * 100)
+    : 0;
+
   return (
     <>
       {/* Backdrop */}
@@ -49,6 +61,37 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
         {/* Content */}
         <div className="px-6 py-5 space-y-6 max-h-[70vh] overflow-y-auto">
 
+          {/* Profile section */}
+          <div>
+            <h3
+              className="text-sm font-semibold mb-3 flex items-center gap-2"
+              style={{ color: 'var(--color-text-secondary)' }}
+            >
+              <User size={16} /> Profile
+            </h3>
+            <label className="text-sm block mb-1" style={{ color: 'var(--color-text-secondary)' }}>
+              I am
+            </label>
+            <input
+              type="text"
+              value={settings.userName}
+              onChange={(e) => onUpdateSettings({ ...settings, userName: e.target.value })}
+              placeholder="Your name"
+              className="w-full text-sm rounded px-3 py-1.5"
+              style={{
+                backgroundColor: 'var(--color-surface-primary)',
+                color: 'var(--color-text-primary)',
+                border: '1px solid var(--color-border-secondary)',
+              }}
+            />
+            <p className="text-xs mt-1" style={{ color: 'var(--color-text-muted)' }}>
+              Recorded as the author of new notes, updates and changes in the audit trail.
+            </p>
+          </div>
+
+          {/* Divider */}
+          <div style={{ borderTop: '1px solid var(--color-border-primary)' }} />
+
           {/* Appearance section */}
           <div>
             <h3
@@ -174,6 +217,42 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
               </p>
             )}
           </div>
+
+          {/* Divider */}
+          <div style={{ borderTop: '1px solid var(--color-border-primary)' }} />
+
+          {/* Storage section */}
+          <div>
+            <h3
+              className="text-sm font-semibold mb-3 flex items-center gap-2"
+              style={{ color: 'var(--color-text-secondary)' }}
+            >
+              <Database size={16} /> Local Storage
+            </h3>
+            {storageEstimate ? (
+              <>
+                <div className="h-2 rounded-full overflow-hidden mb-1" style={{ backgroundColor: 'var(--color-surface-tertiary)' }}>
+                  <div
+                    className={`h-full ${usagePercent > 90 ? 'bg-red-500' : usagePercent > 70 ? 'bg-amber-500' : 'bg-indigo-500'}`}
+                    style={{ width: `${Math.max(usagePercent, 1)}%` }}
+                  />
+                </div>
+                <div className="flex justify-between text-xs" style={{ color: 'var(--color-text-muted)' }}>
+                  <span>{formatFileSize(storageEstimate.usage)} used</span>
+                  <span>{formatFileSize(storageEstimate.quota)} available to this app</span>
+                </div>
+                <p className="text-xs mt-2" style={{ color: 'var(--color-text-muted)' }}>
+                  {storageEstimate.persisted
+                    ? 'Storage is persistent and will not be cleared by the browser automatically.'
+                    : 'The browser may clear this data when disk space runs low. Keep regular backups.'}
+                </p>
+              </>
+            ) : (
+              <p className="text-xs italic" style={{ color: 'var(--color-text-muted)' }}>
+                This browser does not report storage usage.
+              </p>
+            )}
+          </div>
         </div>
       </div>
     </>
@@ -0,0 +1,493 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ActionItem, ActionUpdate, ResolutionItem, ResolutionStatus, SavedTree, WorkflowDefinition } from '../types';
+import { RESOLUTION_STATUS_COLORS } from '../constants';
+import { findNodeById, isOverdue, isOverdueDate } from '../treeUtils';
+import { latestUpdate } from '../actionCsv';
+import {
+  TagupSession,
+  TagupItemRef,
+  TagupItemRecord,
+  TIMEBOX_OPTIONS,
+  buildTagupAgenda,
+  emptyTagupRecord,
+  isActionDue,
+  isResolutionDue,
+  formatDuration,
+} from '../tagup';
+import { WorkflowViolation, checkActionTransition, checkResolutionTransition, isTransitionAllowed } from '../workflow';
+import { WorkflowViolations } from './WorkflowViolations';
+import {
+  Timer,
+  Play,
+  Square,
+  ChevronLeft,
+  ChevronRight,
+  CheckCircle2,
+  AlertTriangle,
+  FileText,
+  ExternalLink,
+  User,
+  Calendar,
+  X,
+} from 'lucide-react';
+
+const ACTION_STATUSES: ActionItem['status'][] = [
+  'Open', 'In Progress', 'Complete', 'Blocked', 'Closed'
+];
+
+const RESOLUTION_STATUSES: ResolutionStatus[] = [
+  'Open', 'In Progress', 'On Hold', 'Implemented', 'Verified', 'Closed'
+];
+
+interface TagupViewProps {
+  trees: SavedTree[];
+  session: TagupSession | null;
+  currentUser: string;
+  onStart: (timeboxSeconds: number) => void;
+  onSessionChange: (updater: (session: TagupSession) => TagupSession) => void;
+  onFinish: () => void;
+  onClose: () => void;
+  onOpenMinutes: () => void;
+  workflow: WorkflowDefinition;
+  onUpdateAction: (treeId: string, action: ActionItem) => boolean;   // False when the change was declined
+  onUpdateResolution: (treeId: string, resolution: ResolutionItem) => void;
+  onOpenTree: (treeId: string) => void;
+}
+
+export const TagupView: React.FC<TagupViewProps> = ({
+  trees,
+  session,
+  currentUser,
+  onStart,
+  onSessionChange,
+  onFinish,
+  onClose,
+  onOpenMinutes,
+  workflow,
+  onUpdateAction,
+  onUpdateResolution,
+  onOpenTree,
+}) => {
+  const [timeboxSeconds, setTimeboxSeconds] = useState(120);
+  const [updateText, setUpdateText] = useState<Record<string, string>>({});
+  const [violations, setViolations] = useState<Record<string, WorkflowViolation[]>>({});   // Keyed by item key
+  const [now, setNow] = useState(() => Date.now());
+
+  const isRunning = !!session && !session.endedAt;
+  const activeItemKey = session?.activeItemKey ?? null;
+
+  // One tick per second drives the meeting clock and the active item's timer
+  useEffect(() => {
+    if (!isRunning) return;
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      if (activeItemKey) {
+        onSessionChange(s => {
+          const record = s.records[activeItemKey] ?? emptyTagupRecord();
+          return { ...s, records: { ...s.records, [activeItemKey]: { ...record, seconds: record.seconds + 1 } } };
+        });
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [isRunning, activeItemKey, onSessionChange]);
+
+  const preview = useMemo(() => buildTagupAgenda(trees), [trees]);
+  const resolvedCount = trees.filter(t => t.isResolved).length;
+
+  const updateRecord = (key: string, change: (record: TagupItemRecord) => TagupItemRecord) => {
+    onSessionChange(s => ({
+      ...s,
+      activeItemKey: s.endedAt ? s.activeItemKey : key,
+      records: { ...s.records, [key]: change(s.records[key] ?? emptyTagupRecord()) },
+    }));
+  };
+
+  // ---- Before the meeting ----
+
+  if (!session) {
+    const itemCount = preview.reduce((sum, entry) => sum + entry.items.length, 0);
+    return (
+      <div className="flex-1 overflow-auto p-6" style={{ backgroundColor: 'var(--color-surface-secondary)' }}>
+        <div className="max-w-3xl mx-auto">
+          <div className="mb-6">
+            <h2 className="text-xl font-bold flex items-center gap-2" style={{ color: 'var(--color-text-primary)' }}>
+              <Timer size={24} /> Daily Tagup
+            </h2>
+            <p className="text-sm mt-1" style={{ color: 'var(--color-text-muted)' }}>
+              Walk through every unresolved investigation in this project, covering actions and corrective actions that are overdue or due this week.
+            </p>
+          </div>
+
+          <div className="rounded-lg mb-4" style={{ backgroundColor: 'var(--color-surface-primary)', border: '1px solid var(--color-border-primary)' }}>
+            {preview.length === 0 ? (
+              <div className="text-center py-12" style={{ color: 'var(--color-text-muted)' }}>
+                <CheckCircle2 size={48} className="mx-auto mb-4 opacity-50" />
+                <p className="text-lg font-medium">Nothing to discuss</p>
+                <p className="text-sm mt-1">No unresolved investigation has items overdue or due this week.</p>
+              </div>
+            ) : (
+              preview.map(entry => {
+                const tree = trees.find(t => t.id === entry.treeId)!;
+                const overdue = entry.items.filter(ref => isItemOverdue(tree, ref)).length;
+                return (
+                  <div key={entry.treeId} className="flex items-center justify-between px-4 py-3" style={{ borderTop: '1px solid var(--color-border-primary)' }}>
+                    <span className="font-medium text-sm" style={{ color: 'var(--color-text-primary)' }}>{tree.name}</span>
+                    <span className="flex items-center gap-2 text-xs" style={{ color: 'var(--color-text-muted)' }}>
+                      {overdue > 0 && <span className="px-2 py-0.5 rounded bg-red-100 text-red-700 font-medium">{overdue} overdue</span>}
+                      {entry.items.length - overdue > 0 && <span className="px-2 py-0.5 rounded bg-amber-100 text-amber-800 font-medium">{entry.items.length - overdue} due this week</span>}
+                    </span>
+                  </div>
+                );
+              })
+            )}
+          </div>
+
+          {resolvedCount > 0 && (
+            <p className="text-xs mb-4" style={{ color: 'var(--color-text-muted)' }}>
+              {resolvedCount} resolved investigation{resolvedCount !== 1 ? 's are' : ' is'} left out.
+            </p>
+          )}
+
+          <div className="flex items-center justify-end gap-3">
+            <label className="flex items-center gap-2 text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+              Time per item
+              <select
+                value={timeboxSeconds}
+                onChange={(e) => setTimeboxSeconds(Number(e.target.value))}
+                className="text-sm rounded px-2 py-1"
+                style={{ backgroundColor: 'var(--color-surface-primary)', border: '1px solid var(--color-border-primary)', color: 'var(--color-text-secondary)' }}
+              >
+                {TIMEBOX_OPTIONS.map(s => <option key={s} value={s}>{s / 60} min</option>)}
+              </select>
+            </label>
+            <button
+              onClick={() => onStart(timeboxSeconds)}
+              disabled={itemCount === 0}
+              className={`flex items-center gap-2 px-4 py-2 text-sm font-medium text-white rounded-lg transition-colors ${
+                itemCount === 0 ? 'opacity-50 cursor-not-allowed bg-indigo-400' : 'bg-indigo-600 hover:bg-indigo-700'
+              }`}
+            >
+              <Play size={16} /> Start Tagup ({itemCount} item{itemCount !== 1 ? 's' : ''})
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // ---- During and after the meeting ----
+
+  const entry = session.agenda[session.currentIndex];
+  const tree = entry ? trees.find(t => t.id === entry.treeId) : undefined;
+  const elapsed = Math.max(0, Math.floor(((session.endedAt ? new Date(session.endedAt).getTime() : now) - new Date(session.startedAt).getTime()) / 1000));
+  const isDiscussed = (key: string) => {
+    const record = session.records[key];
+    return !!record && (record.seconds > 0 || record.updates.length > 0 || record.statusChanges.length > 0);
+  };
+
+  const goTo = (index: number) => onSessionChange(s => ({ ...s, currentIndex: index, activeItemKey: null }));
+
+  // Moves the timer to the next item, continuing with the next investigation at the end of the list
+  const handleNextItem = () => {
+    if (!entry) return;
+    const position = entry.items.findIndex(ref => ref.key === activeItemKey);
+    const next = entry.items[position + 1];
+    if (next) {
+      onSessionChange(s => ({ ...s, activeItemKey: next.key }));
+    } else if (session.currentIndex < session.agenda.length - 1) {
+      const nextEntry = session.agenda[session.currentIndex + 1];
+      onSessionChange(s => ({ ...s, currentIndex: s.currentIndex + 1, activeItemKey: nextEntry.items[0]?.key ?? null }));
+    } else {
+      onSessionChange(s => ({ ...s, activeItemKey: null }));
+    }
+  };
+
+  const addUpdate = (ref: TagupItemRef, item: ActionItem | ResolutionItem) => {
+    const content = (updateText[ref.key] ?? '').trim();
+    if (!content || !tree) return;
+    const update: ActionUpdate = {
+      id: crypto.randomUUID(),
+      content,
+      createdAt: new Date().toISOString(),
+      author: currentUser || undefined,
+    };
+    if (ref.kind === 'action') {
+      onUpdateAction(tree.id, { ...(item as ActionItem), updates: [...(item.updates ?? []), update] });
+    } else {
+      onUpdateResolution(tree.id, { ...(item as ResolutionItem), updates: [...(item.updates ?? []), update] });
+    }
+    updateRecord(ref.key, r => ({ ...r, updates: [...r.updates, content] }));
+    setUpdateText(prev => ({ ...prev, [ref.key]: '' }));
+  };
+
+  const changeStatus = (ref: TagupItemRef, item: ActionItem | ResolutionItem, status: string) => {
+    if (!tree || status === item.status) return;
+    const found = ref.kind === 'action'
+      ? checkActionTransition(workflow, item as ActionItem, status as ActionItem['status'])
+      : checkResolutionTransition(workflow, item as ResolutionItem, status as ResolutionStatus);
+    setViolations(prev => {
+      const { [ref.key]: _, ...rest } = prev;
+      return found.length > 0 ? { ...rest, [ref.key]: found } : rest;
+    });
+    if (found.length > 0) return;
+    if (ref.kind === 'action') {
+      if (!onUpdateAction(tree.id, { ...(item as ActionItem), status: status as ActionItem['status'] })) return;
+    } else {
+      onUpdateResolution(tree.id, { ...(item as ResolutionItem), status: status as ResolutionStatus });
+    }
+    updateRecord(ref.key, r => ({ ...r, statusChanges: [...r.statusChanges, { from: item.status, to: status }] }));
+  };
+
+  const renderItem = (ref: TagupItemRef) => {
+    if (!tree) return null;
+    const action = ref.kind === 'action' ? tree.actions.find(a => a.id === ref.id) : undefined;
+    const resolution = ref.kind === 'resolution' ? (tree.resolutions ?? []).find(r => r.id === ref.id) : undefined;
+    const item = action ?? resolution;
+    if (!item) return null;
+
+    const record = session.records[ref.key];
+    const isActive = activeItemKey === ref.key;
+    const seconds = record?.seconds ?? 0;
+    const overTime = seconds > session.timeboxSeconds;
+    const overdue = isItemOverdue(tree, ref);
+    const stillDue = action ? isActionDue(action) : isResolutionDue(resolution!);
+    const due = action ? action.dueDate : resolution!.targetDate;
+    const causes = action
+      ? [findNodeById(tree.treeData, action.causeId)?.label].filter(Boolean)
+      : resolution!.linkedCauseIds.map(id => findNodeById(tree.treeData, id)?.label).filter(Boolean);
+    const latest = latestUpdate(item);
+
+    return (
+      <div
+        key={ref.key}
+        onClick={() => { if (isRunning && !isActive) onSessionChange(s => ({ ...s, activeItemKey: ref.key })); }}
+        className={`p-4 rounded-lg border shadow-sm transition-all ${isRunning && !isActive ? 'cursor-pointer' : ''}`}
+        style={{
+          backgroundColor: 'var(--color-surface-primary)',
+          borderColor: isActive ? '#6366f1' : 'var(--color-border-primary)',
+          boxShadow: isActive ? '0 0 0 2px rgba(99, 102, 241, 0.3)' : undefined,
+        }}
+      >
+        <div className="flex items-start justify-between gap-3">
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2">
+              <span className="text-[10px] uppercase font-semibold" style={{ color: 'var(--color-text-muted)' }}>
+                {action ? 'Action' : 'Corrective'}
+              </span>
+              {isDiscussed(ref.key) && !isActive && <CheckCircle2 size={12} className="text-green-600" />}
+            </div>
+            <div className="font-semibold" style={{ color: 'var(--color-text-primary)' }}>{action ? action.action : resolution!.title}</div>
+            {causes.length > 0 && (
+              <div className="text-xs mt-0.5" style={{ color: 'var(--color-text-muted)' }}>{causes.join(', ')}</div>
+            )}
+          </div>
+          <div
+            className={`flex items-center gap-1 px-2 py-1 rounded font-mono text-sm ${overTime ? 'bg-red-100 text-red-700' : ''}`}
+            style={overTime ? undefined : { backgroundColor: 'var(--color-surface-tertiary)', color: 'var(--color-text-secondary)' }}
+            title={`Time box ${formatDuration(session.timeboxSeconds)}`}
+          >
+            {isActive && isRunning && <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />}
+            {formatDuration(seconds)}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 text-sm mt-2" style={{ color: 'var(--color-text-tertiary)' }}>
+          <span className="flex items-center gap-1.5"><User size={14} /> {(action ? action.assignee : resolution!.owner) || 'Unassigned'}</span>
+          <span className="flex items-center gap-1.5"><Calendar size={14} /> {due}</span>
+          {overdue ? (
+            <span className="flex items-center gap-1 text-xs text-red-600"><AlertTriangle size={12} /> Overdue</span>
+          ) : stillDue && (
+            <span className="text-xs text-amber-700">Due this week</span>
+          )}
+          <select
+            value={item.status}
+            onClick={(e) => e.stopPropagation()}
+            onChange={(e) => changeStatus(ref, item, e.target.value)}
+            disabled={!isRunning}
+            className="text-xs border rounded px-2 py-1 ml-auto"
+            style={action
+              ? { backgroundColor: 'var(--color-surface-primary)', borderColor: 'var(--color-border-primary)', color: 'var(--color-text-secondary)' }
+              : { backgroundColor: RESOLUTION_STATUS_COLORS[resolution!.status]?.bg, borderColor: RESOLUTION_STATUS_COLORS[resolution!.status]?.border, color: RESOLUTION_STATUS_COLORS[resolution!.status]?.text }}
+          >
+            {(action ? ACTION_STATUSES : RESOLUTION_STATUSES).map(s => (
+              <option key={s} value={s} disabled={!isTransitionAllowed(action ? workflow.action : workflow.resolution, item.status, s)}>{s}</option>
+            ))}
+          </select>
+        </div>
+
+        {violations[ref.key] && (
+          <div onClick={(e) => e.stopPropagation()}>
+            <WorkflowViolations
+              violations={violations[ref.key]}
+              onDismiss={() => setViolations(({ [ref.key]: _, ...rest }) => rest)}
+              className="mt-2"
+            />
+          </div>
+        )}
+
+        {latest && !record?.updates.includes(latest.content) && (
+          <p className="text-xs mt-2" style={{ color: 'var(--color-text-muted)' }}>
+            Last update {new Date(latest.createdAt).toLocaleDateString()}: {latest.content}
+          </p>
+        )}
+
+        {record && (record.updates.length > 0 || record.statusChanges.length > 0) && (
+          <div className="mt-2 space-y-0.5 text-xs" style={{ color: 'var(--color-text-secondary)' }}>
+            {record.statusChanges.map((c, i) => <div key={`s${i}`}>Status {c.from} → {c.to}</div>)}
+            {record.updates.map((u, i) => <div key={`u${i}`}>• {u}</div>)}
+          </div>
+        )}
+
+        {isRunning && (
+          <div className="flex gap-2 mt-3" onClick={(e) => e.stopPropagation()}>
+            <input
+              type="text"
+              className="flex-1 p-2 text-sm rounded"
+              style={{ backgroundColor: 'var(--color-surface-secondary)', border: '1px solid var(--color-border-secondary)', color: 'var(--color-text-primary)' }}
+              placeholder="Add an update..."
+              value={updateText[ref.key] ?? ''}
+              onFocus={() => { if (!isActive) onSessionChange(s => ({ ...s, activeItemKey: ref.key })); }}
+              onChange={(e) => setUpdateText(prev => ({ ...prev, [ref.key]: e.target.value }))}
+              onKeyDown={(e) => { if (e.key === 'Enter') addUpdate(ref, item); }}
+            />
+            <button
+              onClick={() => addUpdate(ref, item)}
+              className="px-3 py-2 rounded text-sm"
+              style={{ backgroundColor: 'var(--color-surface-tertiary)', color: 'var(--color-text-secondary)' }}
+            >
+              Add
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex-1 flex overflow-hidden" style={{ backgroundColor: 'var(--color-surface-secondary)' }}>
+      {/* Agenda */}
+      <div className="w-64 shrink-0 overflow-y-auto p-4" style={{ backgroundColor: 'var(--color-surface-primary)', borderRight: '1px solid var(--color-border-primary)' }}>
+        <h3 className="text-xs uppercase font-semibold mb-2" style={{ color: 'var(--color-text-tertiary)' }}>Agenda</h3>
+        <div className="space-y-1">
+          {session.agenda.map((agendaEntry, index) => {
+            const agendaTree = trees.find(t => t.id === agendaEntry.treeId);
+            const done = agendaEntry.items.filter(ref => isDiscussed(ref.key)).length;
+            return (
+              <button
+                key={agendaEntry.treeId}
+                onClick={() => goTo(index)}
+                className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${index === session.currentIndex ? 'bg-indigo-600 text-white' : ''}`}
+                style={index === session.currentIndex ? undefined : { color: 'var(--color-text-secondary)' }}
+              >
+                <div className="font-medium truncate">{agendaTree?.name ?? 'Deleted investigation'}</div>
+                <div className={`text-xs ${index === session.currentIndex ? 'text-indigo-100' : ''}`} style={index === session.currentIndex ? undefined : { color: 'var(--color-text-muted)' }}>
+                  {done}/{agendaEntry.items.length} discussed
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Current investigation */}
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="max-w-3xl mx-auto">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h2 className="text-xl font-bold flex items-center gap-2" style={{ color: 'var(--color-text-primary)' }}>
+                <Timer size={24} /> {isRunning ? 'Daily Tagup' : 'Tagup Finished'}
+                <span className="font-mono text-base font-normal" style={{ color: 'var(--color-text-muted)' }}>{formatDuration(elapsed)}</span>
+              </h2>
+              {tree && (
+                <button
+                  onClick={() => onOpenTree(tree.id)}
+                  className="text-sm mt-1 flex items-center gap-1 hover:underline"
+                  style={{ color: 'var(--color-text-muted)' }}
+                  title="Open this investigation's tree"
+                >
+                  {tree.name} <ExternalLink size={12} />
+                </button>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              {isRunning ? (
+                <>
+                  <button
+                    onClick={handleNextItem}
+                    className="flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-medium transition-colors"
+                    style={{ backgroundColor: 'var(--color-surface-tertiary)', color: 'var(--color-text-secondary)' }}
+                    title="Stop this item's timer and start the next one"
+                  >
+                    Next Item <ChevronRight size={16} />
+                  </button>
+                  <button
+                    onClick={onFinish}
+                    className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 transition-colors"
+                  >
+                    <Square size={14} /> Finish
+                  </button>
+                </>
+              ) : (
+                <>
+                  <button
+                    onClick={onOpenMinutes}
+                    className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 transition-colors"
+                  >
+                    <FileText size={16} /> Minutes
+                  </button>
+                  <button
+                    onClick={onClose}
+                    className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors"
+                    style={{ backgroundColor: 'var(--color-surface-tertiary)', color: 'var(--color-text-secondary)' }}
+                    title="Close this tagup"
+                  >
+                    <X size={16} /> Close
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+
+          {entry && tree ? (
+            <div className="space-y-3">
+              {entry.items.map(renderItem)}
+            </div>
+          ) : (
+            <p className="text-sm italic" style={{ color: 'var(--color-text-muted)' }}>This investigation is no longer available.</p>
+          )}
+
+          <div className="flex items-center justify-between mt-6">
+            <button
+              onClick={() => goTo(session.currentIndex - 1)}
+              disabled={session.currentIndex === 0}
+              className="flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-40"
+              style={{ backgroundColor: 'var(--color-surface-tertiary)', color: 'var(--color-text-secondary)' }}
+            >
+              <ChevronLeft size={16} /> Previous
+            </button>
+            <span className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
+              Investigation {session.currentIndex + 1} of {session.agenda.length}
+            </span>
+            <button
+              onClick={() => goTo(session.currentIndex + 1)}
+              disabled={session.currentIndex >= session.agenda.length - 1}
+              className="flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-40"
+              style={{ backgroundColor: 'var(--color-surface-tertiary)', color: 'var(--color-text-secondary)' }}
+            >
+              Next <ChevronRight size={16} />
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+function isItemOverdue(tree: SavedTree, ref: TagupItemRef): boolean {
+  if (ref.kind === 'action') {
+    const action = tree.actions.find(a => a.id === ref.id);
+    return !!action && isOverdue(action.dueDate, action.status);
+  }
+  const resolution = (tree.resolutions ?? []).find(r => r.id === ref.id);
+  return !!resolution && isOverdueDate(resolution.targetDate, resolution.status);
+}
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { Project } from '../types';
+import { X, Plus, Users, UserMinus } from 'lucide-react';
+
+interface TeamRosterDialogProps {
+  project: Project;
+  onUpdateMembers: (members: string[]) => void;
+  onClose: () => void;
+}
+
+export const TeamRosterDialog: React.FC<TeamRosterDialogProps> = ({
+  project,
+  onUpdateMembers,
+  onClose,
+}) => {
+  const [newMember, setNewMember] = useState('');
+  const members = project.members ?? [];
+
+  const handleAdd = () => {
+    const name = newMember.trim();
+    if (!name) return;
+    if (members.some(m => m.toLowerCase() === name.toLowerCase())) {
+      alert(`"${name}" is already on the team.`);
+      return;
+    }
+    onUpdateMembers([...members, name].sort((a, b) => a.localeCompare(b)));
+    setNewMember('');
+  };
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black/50 z-50" onClick={onClose} />
+
+      {/* Modal */}
+      <div
+        className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-50 w-[400px] rounded-xl shadow-2xl overflow-hidden"
+        style={{ backgroundColor: 'var(--color-surface-primary)', border: '1px solid var(--color-border-primary)' }}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4" style={{ borderBottom: '1px solid var(--color-border-primary)' }}>
+          <h2 className="text-lg font-bold flex items-center gap-2" style={{ color: 'var(--color-text-primary)' }}>
+            <Users size={18} /> Team — {project.name}
+          </h2>
+          <button onClick={onClose} className="p-1.5 rounded transition-colors" style={{ color: 'var(--color-text-muted)' }}>
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-5 space-y-4">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={newMember}
+              onChange={(e) => setNewMember(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+              placeholder="Team member name"
+              className="flex-1 text-sm rounded px-3 py-1.5"
+              style={{ backgroundColor: 'var(--color-surface-primary)', color: 'var(--color-text-primary)', border: '1px solid var(--color-border-secondary)' }}
+              autoFocus
+            />
+            <button
+              onClick={handleAdd}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors"
+            >
+              <Plus size={14} /> Add
+            </button>
+          </div>
+
+          <div className="max-h-64 overflow-y-auto space-y-1">
+            {members.length === 0 && (
+              <p className="text-xs italic" style={{ color: 'var(--color-text-muted)' }}>
+                No team members yet. Names added here are suggested for assignees and owners.
+              </p>
+            )}
+            {members.map(member => (
+              <div
+                key={member}
+                className="flex items-center justify-between px-3 py-1.5 rounded text-sm"
+                style={{ backgroundColor: 'var(--color-surface-tertiary)', color: 'var(--color-text-secondary)' }}
+              >
+                <span className="truncate">{member}</span>
+                <button
+                  onClick={() => onUpdateMembers(members.filter(m => m !== member))}
+                  className="p-1 text-slate-400 hover:text-red-500 rounded"
+                  title="Remove from team"
+                >
+                  <UserMinus size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
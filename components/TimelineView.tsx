@@ -0,0 +1,319 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { SavedTree } from '../types';
+import {
+  TimelineItem,
+  RescheduleChange,
+  buildTimeline,
+  parseDay,
+  addDays,
+  daysBetween,
+  today,
+} from '../timeline';
+import { CalendarRange, AlertTriangle, ExternalLink } from 'lucide-react';
+
+interface TimelineViewProps {
+  trees: SavedTree[];
+  activeTreeId: string | null;
+  onReschedule: (change: RescheduleChange) => void;
+  onNavigateToNode: (nodeId: string, treeId: string) => void;
+}
+
+type Zoom = 'week' | 'month' | 'quarter';
+
+const DAY_WIDTH: Record<Zoom, number> = { week: 32, month: 12, quarter: 4 };
+const ROW_HEIGHT = 36;
+const LABEL_WIDTH = 280;
+
+const BAR_COLORS: Record<string, { bg: string; border: string }> = {
+  action: { bg: 'var(--color-action-progress-bg)', border: 'var(--color-action-progress-border)' },
+  resolution: { bg: 'var(--color-resolution-implemented-bg)', border: 'var(--color-resolution-implemented-border)' },
+  overdue: { bg: 'var(--color-action-blocked-bg)', border: 'var(--color-action-blocked-border)' },
+  done: { bg: 'var(--color-action-closed-bg)', border: 'var(--color-action-closed-border)' },
+};
+
+interface DragState {
+  item: TimelineItem;
+  edge: 'start' | 'end';
+  originX: number;
+  deltaDays: number;
+}
+
+export const TimelineView: React.FC<TimelineViewProps> = ({
+  trees,
+  activeTreeId,
+  onReschedule,
+  onNavigateToNode,
+}) => {
+  const [scope, setScope] = useState<'tree' | 'project'>(activeTreeId ? 'tree' : 'project');
+  const [zoom, setZoom] = useState<Zoom>('month');
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const dayWidth = DAY_WIDTH[zoom];
+
+  const scopedTrees = useMemo(
+    () => scope === 'tree' ? trees.filter(t => t.id === activeTreeId) : trees,
+    [scope, trees, activeTreeId]
+  );
+  const { items, unscheduled } = useMemo(() => buildTimeline(scopedTrees), [scopedTrees]);
+
+  const todayDay = today();
+  const [rangeStart, rangeEnd] = useMemo(() => {
+    const days = [todayDay, ...items.flatMap(i => [i.start, i.end, ...i.milestones.map(m => m.date)])].sort();
+    return [addDays(days[0], -7), addDays(days[days.length - 1], 21)];
+  }, [items, todayDay]);
+  const totalDays = daysBetween(rangeStart, rangeEnd) + 1;
+
+  // Dates of an item with the drag preview applied; the start never passes the end
+  const previewDates = (item: TimelineItem): { start: string; end: string } => {
+    if (!drag || drag.item.key !== item.key) return { start: item.start, end: item.end };
+    if (drag.edge === 'start') {
+      const start = addDays(item.start, drag.deltaDays);
+      return { start: start > item.end ? item.end : start, end: item.end };
+    }
+    const end = addDays(item.end, drag.deltaDays);
+    return { start: item.start, end: end < item.start ? item.start : end };
+  };
+
+  useEffect(() => {
+    if (!drag) return;
+    const handleMove = (e: PointerEvent) => {
+      setDrag(d => d && { ...d, deltaDays: Math.round((e.clientX - d.originX) / dayWidth) });
+    };
+    const handleUp = () => {
+      const { start, end } = previewDates(drag.item);
+      const field = drag.edge === 'start' ? drag.item.startField : drag.item.endField;
+      const date = drag.edge === 'start' ? start : end;
+      const original = drag.edge === 'start' ? drag.item.start : drag.item.end;
+      if (field && date !== original) {
+        onReschedule({ treeId: drag.item.treeId, kind: drag.item.kind, id: drag.item.id, field, date });
+      }
+      setDrag(null);
+    };
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [drag, dayWidth, onReschedule]);
+
+  const startDrag = (e: React.PointerEvent, item: TimelineItem, edge: 'start' | 'end') => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDrag({ item, edge, originX: e.clientX, deltaDays: 0 });
+  };
+
+  // Header ticks: days when zoomed in, month starts otherwise
+  const ticks = useMemo(() => {
+    const result: { offset: number; label: string; major: boolean }[] = [];
+    for (let i = 0; i < totalDays; i++) {
+      const date = parseDay(addDays(rangeStart, i));
+      const isMonthStart = date.getDate() === 1;
+      if (zoom === 'week') {
+        result.push({ offset: i, label: isMonthStart || i === 0 ? date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' }) : String(date.getDate()), major: isMonthStart || date.getDay() === 1 });
+      } else if (isMonthStart || i === 0) {
+        result.push({ offset: i, label: date.toLocaleDateString(undefined, { month: 'short', year: zoom === 'quarter' || date.getMonth() === 0 ? '2-digit' : undefined }), major: true });
+      } else if (zoom === 'month' && date.getDay() === 1) {
+        result.push({ offset: i, label: '', major: false });
+      }
+    }
+    return result;
+  }, [rangeStart, totalDays, zoom]);
+
+  const renderBar = (item: TimelineItem) => {
+    const { start, end } = previewDates(item);
+    const left = daysBetween(rangeStart, start) * dayWidth;
+    const width = (daysBetween(start, end) + 1) * dayWidth;
+    const colors = item.isDone ? BAR_COLORS.done : item.isOverdue ? BAR_COLORS.overdue : BAR_COLORS[item.kind];
+    const isDragging = drag?.item.key === item.key;
+
+    return (
+      <div
+        className="absolute rounded"
+        style={{
+          left, width, top: 9, height: ROW_HEIGHT - 18,
+          backgroundColor: colors.bg,
+          border: `1px solid ${colors.border}`,
+          boxShadow: isDragging ? '0 0 0 2px rgba(99, 102, 241, 0.4)' : undefined,
+        }}
+        title={`${item.label}\n${start} → ${end}${item.owner ? `\n${item.owner}` : ''}\n${item.status}${item.isOverdue ? ' (overdue)' : ''}`}
+      >
+        {item.startField && (
+          <div
+            onPointerDown={(e) => startDrag(e, item, 'start')}
+            className="absolute left-0 top-0 bottom-0 w-2 cursor-ew-resize rounded-l hover:bg-black/20"
+            title="Drag to change the start date"
+          />
+        )}
+        <div
+          onPointerDown={(e) => startDrag(e, item, 'end')}
+          className="absolute right-0 top-0 bottom-0 w-2 cursor-ew-resize rounded-r hover:bg-black/20"
+          title={`Drag to change the ${item.kind === 'action' ? 'due' : 'target'} date`}
+        />
+        {isDragging && (
+          <div className="absolute -top-5 text-[10px] font-mono whitespace-nowrap px-1 rounded bg-indigo-600 text-white" style={drag.edge === 'start' ? { left: 0 } : { right: 0 }}>
+            {drag.edge === 'start' ? start : end}
+          </div>
+        )}
+        {item.milestones.map(m => (
+          <div
+            key={m.label}
+            className="absolute w-2.5 h-2.5 rotate-45"
+            style={{
+              left: daysBetween(start, m.date) * dayWidth + dayWidth / 2 - 5,
+              top: (ROW_HEIGHT - 18) / 2 - 6,
+              backgroundColor: m.label === 'Verified' ? '#16a34a' : '#0ea5e9',
+              border: '1px solid white',
+            }}
+            title={`${m.label} ${m.date}`}
+          />
+        ))}
+      </div>
+    );
+  };
+
+  const renderRow = (item: TimelineItem) => {
+    const tree = trees.find(t => t.id === item.treeId);
+    return (
+      <div key={item.key} className="flex" style={{ height: ROW_HEIGHT, borderTop: '1px solid var(--color-border-primary)' }}>
+        <div
+          className="sticky left-0 z-10 shrink-0 flex items-center gap-2 px-3 text-sm"
+          style={{ width: LABEL_WIDTH, backgroundColor: 'var(--color-surface-primary)', borderRight: '1px solid var(--color-border-primary)' }}
+        >
+          <span className="text-[10px] uppercase font-semibold shrink-0" style={{ color: 'var(--color-text-muted)' }}>
+            {item.kind === 'action' ? 'Act' : 'CA'}
+          </span>
+          <span className="truncate flex-1" style={{ color: item.isDone ? 'var(--color-text-muted)' : 'var(--color-text-primary)' }} title={item.label}>
+            {item.label}
+          </span>
+          {item.isOverdue && <AlertTriangle size={12} className="text-red-600 shrink-0" />}
+          {tree && item.causeIds[0] && (
+            <button
+              onClick={() => onNavigateToNode(item.causeIds[0], item.treeId)}
+              className="p-0.5 rounded shrink-0"
+              style={{ color: 'var(--color-text-muted)' }}
+              title="Open the linked cause in the tree"
+            >
+              <ExternalLink size={12} />
+            </button>
+          )}
+        </div>
+        <div className="relative shrink-0" style={{ width: totalDays * dayWidth }}>
+          {renderBar(item)}
+        </div>
+      </div>
+    );
+  };
+
+  const groups = scopedTrees
+    .map(tree => ({
+      tree,
+      items: items
+        .filter(i => i.treeId === tree.id)
+        .sort((a, b) => a.kind === b.kind ? a.start.localeCompare(b.start) : a.kind === 'action' ? -1 : 1),
+    }))
+    .filter(g => g.items.length > 0);
+  const overdueCount = items.filter(i => i.isOverdue).length;
+  const todayOffset = daysBetween(rangeStart, todayDay) * dayWidth + dayWidth / 2;
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden p-6" style={{ backgroundColor: 'var(--color-surface-secondary)' }}>
+      {/* Header */}
+      <div className="flex items-center justify-between mb-4 shrink-0">
+        <div>
+          <h2 className="text-xl font-bold flex items-center gap-2" style={{ color: 'var(--color-text-primary)' }}>
+            <CalendarRange size={24} /> Timeline
+          </h2>
+          <p className="text-sm mt-1" style={{ color: 'var(--color-text-muted)' }}>
+            {items.length} scheduled item{items.length !== 1 ? 's' : ''}
+            {overdueCount > 0 && <span className="text-red-600"> — {overdueCount} overdue</span>}
+            {' '}· Drag a bar end to reschedule
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex rounded-lg overflow-hidden text-sm" style={{ border: '1px solid var(--color-border-primary)' }}>
+            {(['tree', 'project'] as const).map((s, i) => (
+              <button
+                key={s}
+                onClick={() => setScope(s)}
+                disabled={s === 'tree' && !activeTreeId}
+                className={`px-3 py-1.5 font-medium transition-colors disabled:opacity-40 ${scope === s ? 'bg-indigo-600 text-white' : ''}`}
+                style={scope !== s ? { backgroundColor: 'var(--color-surface-tertiary)', color: 'var(--color-text-secondary)', borderLeft: i > 0 ? '1px solid var(--color-border-primary)' : undefined } : undefined}
+              >
+                {s === 'tree' ? 'This Investigation' : 'Whole Project'}
+              </button>
+            ))}
+          </div>
+          <select
+            value={zoom}
+            onChange={(e) => setZoom(e.target.value as Zoom)}
+            className="text-sm rounded px-2 py-1.5"
+            style={{ backgroundColor: 'var(--color-surface-primary)', border: '1px solid var(--color-border-primary)', color: 'var(--color-text-secondary)' }}
+          >
+            <option value="week">Days</option>
+            <option value="month">Weeks</option>
+            <option value="quarter">Months</option>
+          </select>
+        </div>
+      </div>
+
+      {/* Chart */}
+      {groups.length === 0 ? (
+        <div className="text-center py-12" style={{ color: 'var(--color-text-muted)' }}>
+          <CalendarRange size={48} className="mx-auto mb-4 opacity-50" />
+          <p className="text-lg font-medium">Nothing scheduled</p>
+          <p className="text-sm mt-1">Actions with a due date and corrective actions with a target date appear here.</p>
+        </div>
+      ) : (
+        <div
+          className={`flex-1 overflow-auto rounded-lg ${drag ? 'select-none cursor-ew-resize' : ''}`}
+          style={{ backgroundColor: 'var(--color-surface-primary)', border: '1px solid var(--color-border-primary)' }}
+        >
+          <div className="relative" style={{ width: LABEL_WIDTH + totalDays * dayWidth }}>
+            {/* Date header */}
+            <div className="flex sticky top-0 z-20" style={{ height: 28, backgroundColor: 'var(--color-surface-tertiary)' }}>
+              <div className="sticky left-0 z-10 shrink-0" style={{ width: LABEL_WIDTH, backgroundColor: 'var(--color-surface-tertiary)', borderRight: '1px solid var(--color-border-primary)' }} />
+              <div className="relative shrink-0" style={{ width: totalDays * dayWidth }}>
+                {ticks.map(t => (
+                  <div
+                    key={t.offset}
+                    className="absolute top-0 bottom-0 text-[10px] pl-1 pt-1.5 whitespace-nowrap"
+                    style={{ left: t.offset * dayWidth, borderLeft: `1px solid ${t.major ? 'var(--color-border-secondary)' : 'var(--color-border-primary)'}`, color: 'var(--color-text-tertiary)' }}
+                  >
+                    {t.label}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Today line */}
+            <div
+              className="absolute top-0 bottom-0 w-px bg-red-500 z-0 pointer-events-none"
+              style={{ left: LABEL_WIDTH + todayOffset }}
+              title="Today"
+            />
+
+            {groups.map(group => (
+              <div key={group.tree.id}>
+                {scope === 'project' && (
+                  <div
+                    className="sticky left-0 px-3 py-1.5 text-xs font-semibold uppercase"
+                    style={{ width: LABEL_WIDTH, color: 'var(--color-text-tertiary)', borderTop: '1px solid var(--color-border-primary)' }}
+                  >
+                    {group.tree.name}
+                  </div>
+                )}
+                {group.items.map(renderRow)}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {unscheduled.length > 0 && (
+        <p className="text-xs mt-3 shrink-0" style={{ color: 'var(--color-text-muted)' }}>
+          Not shown (no date): {unscheduled.map(u => u.label || 'Untitled').join(', ')}
+        </p>
+      )}
+    </div>
+  );
+};
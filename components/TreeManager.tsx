@@ -1,7 +1,7 @@
 import React, { useState, useRef } from 'react';
 import { SavedTree } from '../types';
 import { STATUS_COLORS } from '../constants';
-import { ChevronDown, Plus, Upload, Download, Trash2, Pencil, Check, X, Package, FileText, FileStack, CheckCircle2, Circle, Eye, EyeOff } from 'lucide-react';
+import { ChevronDown, Plus, Upload, Download, Trash2, Pencil, Check, X, Package, FileText, FileSpreadsheet, FileStack, CheckCircle2, Circle, Eye, EyeOff } from 'lucide-react';
 
 interface TreeManagerProps {
   trees: SavedTree[];
@@ -14,6 +14,7 @@ interface TreeManagerProps {
   onFileSelected: (file: File) => void;
   onExportTree: (id: string) => void;
   onExportAll: () => void;
+  onExportFmeaWorkbook: () => void;
   onGenerateReport: (id: string) => void;
   onGenerateBulkReport: () => void;
 }
@@ -29,6 +30,7 @@ export const TreeManager: React.FC<TreeManagerProps> = ({
   onFileSelected,
   onExportTree,
   onExportAll,
+  onExportFmeaWorkbook,
   onGenerateReport,
   onGenerateBulkReport,
 }) => {
@@ -264,6 +266,15 @@ export const TreeManager: React.FC<TreeManagerProps> = ({
                 <Package size={15} />
                 Export All
               </button>
+              <button
+                onClick={() => { onExportFmeaWorkbook(); }}
+                className="flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded-lg transition-colors"
+                style={{ backgroundColor: 'var(--color-surface-tertiary)', color: 'var(--color-text-secondary)' }}
+                title="Download an FMEA workbook (XLSX) with one sheet per investigation"
+              >
+                <FileSpreadsheet size={15} />
+                FMEA
+              </button>
               <button
                 onClick={() => { onGenerateBulkReport(); }}
                 className="flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors"
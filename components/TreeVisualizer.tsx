@@ -3,7 +3,11 @@ import * as d3 from 'd3';
 import html2canvas from 'html2canvas';
 import { CauseNode, ActionItem, NodeStatus, ResolutionItem } from '../types';
 import { CARD_WIDTH, CARD_HEIGHT, STATUS_COLORS } from '../constants';
-import { Plus, Move, ClipboardList, Crosshair, Shield, Download } from 'lucide-react';
+import { validateMove, flattenTree, findNodeById, pruneCollapsed, focusOnBranch, getGate, describeGate } from '../treeUtils';
+import { computeProbabilities, formatProbability } from '../probability';
+import { computeRpn, rpnBand, RISK_BAND_COLORS } from '../fmea';
+import { checklistProgressByCause } from '../checklists';
+import { Plus, Move, ClipboardList, Crosshair, Shield, Download, ChevronDown, ChevronRight, Focus, X, Flame, ListChecks } from 'lucide-react';
 
 interface TreeVisualizerProps {
   data: CauseNode;
@@ -11,23 +15,68 @@ interface TreeVisualizerProps {
   actions: ActionItem[];
   resolutions: ResolutionItem[];
   treeName?: string;
+  collapsedNodeIds?: string[];
+  onToggleCollapse: (nodeId: string) => void;
   onSelectNode: (node: CauseNode) => void;
   onAddNode: (parentId: string) => void;
+  onMoveNode: (nodeId: string, newParentId: string) => void;
 }
 
+const NODE_DRAG_TYPE = 'application/x-rcca-node';
+
+// Heat map color for causes that have not been fully rated
+const UNRATED_COLORS = { bg: 'var(--color-surface-primary)', border: 'var(--color-border-secondary)', text: 'var(--color-text-muted)' };
+
+// Standard fault tree gate symbols, centered on the origin (output on top, inputs below).
+// k-of-n (voting) gates use the OR outline with the threshold written inside.
+const GATE_PATHS = {
+  AND: 'M-12,12 L-12,0 A12,12 0 0 1 12,0 L12,12 Z',
+  OR: 'M-12,12 Q0,4 12,12 Q10,-4 0,-13 Q-10,-4 -12,12 Z',
+};
+
 export const TreeVisualizer: React.FC<TreeVisualizerProps> = ({
   data,
   selectedId,
   actions,
   resolutions,
   treeName = 'fault-tree',
+  collapsedNodeIds = [],
+  onToggleCollapse,
   onSelectNode,
-  onAddNode
+  onAddNode,
+  onMoveNode
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const [transform, setTransform] = useState({ k: 1, x: 0, y: 0 });
   const containerRef = useRef<HTMLDivElement>(null);
   const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [heatMap, setHeatMap] = useState(false);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [focusId, setFocusId] = useState<string | null>(null);
+
+  // Drop focus if the focused node no longer exists (deleted, undone, tree switched)
+  const focusNode = focusId ? findNodeById(data, focusId) : null;
+  useEffect(() => {
+    if (focusId && !focusNode) setFocusId(null);
+  }, [focusId, focusNode]);
+
+  const collapsedSet = useMemo(() => new Set(collapsedNodeIds), [collapsedNodeIds]);
+
+  // For each collapsed node: how many descendants and open actions are hidden beneath it
+  const hiddenSummary = useMemo(() => {
+    const map = new Map<string, { descendants: number; openActions: number }>();
+    for (const id of collapsedSet) {
+      const node = findNodeById(data, id);
+      if (!node || !node.children || node.children.length === 0) continue;
+      const hiddenIds = new Set(flattenTree(node).slice(1).map(n => n.id));
+      const openActions = actions.filter(a =>
+        hiddenIds.has(a.causeId) && a.status !== 'Complete' && a.status !== 'Closed'
+      ).length;
+      map.set(id, { descendants: hiddenIds.size, openActions });
+    }
+    return map;
+  }, [data, actions, collapsedSet]);
 
   // Build a set of node IDs that have actions for quick lookup
   const nodesWithActions = useMemo(() => {
@@ -38,6 +87,8 @@ export const TreeVisualizer: React.FC<TreeVisualizerProps> = ({
     return set;
   }, [actions]);
 
+  const checklistProgress = useMemo(() => checklistProgressByCause(actions), [actions]);
+
   // Build a set of node IDs that have resolutions linked
   const nodesWithResolutions = useMemo(() => {
     const set = new Set<string>();
@@ -51,8 +102,11 @@ export const TreeVisualizer: React.FC<TreeVisualizerProps> = ({
 
   // Process data with D3
   const { nodes, links } = useMemo(() => {
+    // Apply focus mode and collapsed branches before layout
+    const visible = pruneCollapsed(focusNode ? focusOnBranch(data, focusNode.id) : data, collapsedSet);
+
     // Create hierarchy
-    const root = d3.hierarchy(data);
+    const root = d3.hierarchy(visible);
 
     // Set tree layout settings
     const treeLayout = d3.tree<CauseNode>()
@@ -64,7 +118,7 @@ export const TreeVisualizer: React.FC<TreeVisualizerProps> = ({
       nodes: root.descendants(),
       links: root.links()
     };
-  }, [data]);
+  }, [data, focusNode, collapsedSet]);
 
   // Setup Zoom/Pan
   useEffect(() => {
@@ -72,6 +126,12 @@ export const TreeVisualizer: React.FC<TreeVisualizerProps> = ({
 
     const zoom = d3.zoom<SVGSVGElement, unknown>()
       .scaleExtent([0.1, 2])
+      // Let cards receive their own drag events; wheel zoom still works everywhere
+      .filter((event) => {
+        if (event.type === 'wheel') return true;
+        if (event.ctrlKey || event.button) return false;
+        return !(event.target as Element).closest?.('[data-node-id]');
+      })
       .on('zoom', (event) => {
         setTransform(event.transform);
       });
@@ -138,6 +198,12 @@ export const TreeVisualizer: React.FC<TreeVisualizerProps> = ({
     }
   };
 
+  // Computed on the full tree so collapsed or unfocused branches still count
+  const probabilities = useMemo(() => computeProbabilities(data), [data]);
+
+  // Gate thresholds count every child, including those hidden by collapse or focus
+  const fullGateNode = (node: CauseNode) => findNodeById(data, node.id) ?? node;
+
   // Render Logic using curved paths for standard tree look
   const generatePath = (link: d3.HierarchyLink<CauseNode>) => {
     const sourceX = link.source.x + CARD_WIDTH / 2;
@@ -155,7 +221,7 @@ export const TreeVisualizer: React.FC<TreeVisualizerProps> = ({
     <div ref={containerRef} className="w-full h-full overflow-hidden relative cursor-move" style={{ backgroundColor: 'var(--color-surface-secondary)' }}>
       <div className="absolute top-4 left-4 z-10 flex gap-2">
         <div className="backdrop-blur p-2 rounded shadow text-xs" style={{ backgroundColor: 'var(--color-surface-primary)', color: 'var(--color-text-tertiary)', opacity: 0.8 }}>
-          <div className="flex items-center gap-2"><Move size={14} /> Pan & Zoom</div>
+          <div className="flex items-center gap-2"><Move size={14} /> Pan & Zoom · Drag cards to re-parent</div>
         </div>
         <button
           onClick={handleRecenter}
@@ -174,6 +240,33 @@ export const TreeVisualizer: React.FC<TreeVisualizerProps> = ({
         >
           <Download size={14} /> {isExporting ? 'Exporting...' : 'Export Image'}
         </button>
+        <button
+          onClick={() => setHeatMap(!heatMap)}
+          className={`backdrop-blur p-2 rounded shadow text-xs flex items-center gap-2 transition-opacity ${heatMap ? 'bg-indigo-600 text-white' : 'hover:opacity-100'}`}
+          style={heatMap ? undefined : { backgroundColor: 'var(--color-surface-primary)', color: 'var(--color-text-secondary)', opacity: 0.8 }}
+          title="Color cards by FMEA risk (RPN) instead of status"
+        >
+          <Flame size={14} /> Heat Map
+        </button>
+        {focusNode ? (
+          <button
+            onClick={() => setFocusId(null)}
+            className="backdrop-blur p-2 rounded shadow text-xs flex items-center gap-2 bg-indigo-600 text-white"
+            title="Show the whole tree again"
+          >
+            <X size={14} /> Exit focus: <span className="max-w-40 truncate">{focusNode.label}</span>
+          </button>
+        ) : (
+          <button
+            onClick={() => selectedId && setFocusId(selectedId)}
+            disabled={!selectedId || selectedId === data.id}
+            className="backdrop-blur p-2 rounded shadow text-xs flex items-center gap-2 hover:opacity-100 transition-opacity disabled:opacity-50"
+            style={{ backgroundColor: 'var(--color-surface-primary)', color: 'var(--color-text-secondary)', opacity: 0.8 }}
+            title="Show only the selected node's ancestors and branch"
+          >
+            <Focus size={14} /> Focus Branch
+          </button>
+        )}
       </div>
 
       <svg ref={svgRef} className="w-full h-full">
@@ -195,12 +288,46 @@ export const TreeVisualizer: React.FC<TreeVisualizerProps> = ({
             );
           })}
 
+          {/* Logic gates, drawn over the start of the links they combine */}
+          {nodes.filter(node => node.data.gate && (node.children?.length ?? 0) > 0).map((node) => {
+            const gate = getGate(node.data);
+            const cx = node.x + CARD_WIDTH / 2;
+            const cy = node.y + CARD_HEIGHT + 24;
+            return (
+              <g key={`gate-${node.data.id}`} transform={`translate(${cx},${cy})`} pointerEvents="none">
+                <title>{`${describeGate(fullGateNode(node.data))} gate`}</title>
+                <path
+                  d={gate === 'AND' ? GATE_PATHS.AND : GATE_PATHS.OR}
+                  fill="var(--color-surface-primary)"
+                  stroke="var(--color-text-tertiary)"
+                  strokeWidth={1.5}
+                />
+                {gate === 'K_OF_N' && (
+                  <text y={8} textAnchor="middle" fontSize={8} fontWeight={700} fill="var(--color-text-secondary)">
+                    {describeGate(fullGateNode(node.data)).replace('-of-', '/')}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+
           {/* Nodes */}
           {nodes.map((node) => {
-            const styles = STATUS_COLORS[node.data.status];
+            const rpn = computeRpn(node.data.risk);
+            const styles = !heatMap
+              ? STATUS_COLORS[node.data.status]
+              : rpn !== null ? RISK_BAND_COLORS[rpnBand(rpn)] : UNRATED_COLORS;
             const isSelected = node.data.id === selectedId;
             const hasActions = nodesWithActions.has(node.data.id);
             const hasResolutions = nodesWithResolutions.has(node.data.id);
+            const checklist = checklistProgress.get(node.data.id);
+            const isDragging = node.data.id === draggingId;
+            const isDropTarget = node.data.id === dropTargetId;
+            const canDrag = node.data.parentId !== null;
+            const isCollapsed = collapsedSet.has(node.data.id);
+            const hidden = hiddenSummary.get(node.data.id);
+            const fullNode = findNodeById(data, node.data.id);
+            const hasChildren = (fullNode?.children?.length ?? 0) > 0;
 
             return (
               <foreignObject
@@ -212,21 +339,55 @@ export const TreeVisualizer: React.FC<TreeVisualizerProps> = ({
                 className="overflow-visible"
               >
                 <div
+                  data-node-id={node.data.id}
+                  draggable={canDrag}
                   onClick={(e) => {
                     e.stopPropagation();
                     onSelectNode(node.data);
                   }}
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData(NODE_DRAG_TYPE, node.data.id);
+                    e.dataTransfer.effectAllowed = 'move';
+                    setDraggingId(node.data.id);
+                  }}
+                  onDragEnd={() => {
+                    setDraggingId(null);
+                    setDropTargetId(null);
+                  }}
+                  onDragOver={(e) => {
+                    if (!draggingId || validateMove(data, draggingId, node.data.id)) return;
+                    e.preventDefault();
+                    e.dataTransfer.dropEffect = 'move';
+                    if (dropTargetId !== node.data.id) setDropTargetId(node.data.id);
+                  }}
+                  onDragLeave={(e) => {
+                    if (e.currentTarget.contains(e.relatedTarget as Node)) return;
+                    if (dropTargetId === node.data.id) setDropTargetId(null);
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    const draggedId = e.dataTransfer.getData(NODE_DRAG_TYPE);
+                    setDraggingId(null);
+                    setDropTargetId(null);
+                    if (draggedId && !validateMove(data, draggedId, node.data.id)) {
+                      onMoveNode(draggedId, node.data.id);
+                    }
+                  }}
                   className={`
                     w-full h-full rounded-lg shadow-sm border-2 p-3 flex flex-col justify-between transition-all duration-200
                     hover:shadow-md cursor-pointer relative group
                     ${isSelected ? 'ring-4 ring-indigo-500/30 translate-y-[-2px]' : ''}
+                    ${isDropTarget ? 'ring-4 ring-indigo-500 scale-105' : ''}
+                    ${isDragging ? 'opacity-40' : ''}
                   `}
                   style={{
                     backgroundColor: styles.bg,
-                    borderColor: isSelected ? '#6366f1' : (node.data.isRootCause ? '#f59e0b' : styles.border),
+                    borderColor: isSelected || isDropTarget ? '#6366f1' : (node.data.isRootCause ? '#f59e0b' : styles.border),
+                    borderStyle: isDropTarget ? 'dashed' : undefined,
                     color: styles.text,
                     boxShadow: node.data.isRootCause ? '0 0 0 2px rgba(245,158,11,0.3)' : undefined,
                   }}
+                  title={canDrag ? 'Drag onto another card to move this branch' : undefined}
                 >
                   {/* Status Indicator Dot */}
                   <div className={`absolute -top-2 -right-2 w-4 h-4 rounded-full border border-white shadow-sm
@@ -270,6 +431,56 @@ export const TreeVisualizer: React.FC<TreeVisualizerProps> = ({
                         {node.data.type}
                      </span>
 
+                     {checklist && (
+                       <span
+                         className="text-[10px] font-mono font-semibold px-1.5 rounded flex items-center gap-0.5"
+                         style={{
+                           backgroundColor: 'var(--color-surface-primary)',
+                           color: checklist.done === checklist.total ? 'var(--color-action-complete-text)' : 'var(--color-text-secondary)',
+                         }}
+                         title={`${checklist.done} of ${checklist.total} checklist actions done`}
+                       >
+                         <ListChecks size={10} /> {checklist.done}/{checklist.total}
+                       </span>
+                     )}
+
+                     {heatMap && rpn !== null && (
+                       <span className="text-[10px] font-mono font-bold px-1.5 rounded" style={{ border: `1px solid ${styles.border}` }} title="Risk Priority Number">
+                         RPN {rpn}
+                       </span>
+                     )}
+
+                     {/* Probability: entered on leaves, rolled up through the gates elsewhere */}
+                     {probabilities.get(node.data.id) != null && (
+                       <span
+                         className="text-[10px] font-mono font-semibold px-1.5 rounded"
+                         style={{ backgroundColor: 'var(--color-surface-primary)', color: 'var(--color-text-secondary)' }}
+                         title={hasChildren ? 'Computed probability from the causes below' : 'Estimated probability of this cause'}
+                       >
+                         P={formatProbability(probabilities.get(node.data.id)!)}
+                       </span>
+                     )}
+
+                     <div className="flex items-center gap-1">
+                     {/* Collapse / expand toggle */}
+                     {hasChildren && (
+                       <button
+                          onClick={(e) => {
+                              e.stopPropagation();
+                              onToggleCollapse(node.data.id);
+                          }}
+                          className="p-1 rounded shadow-sm"
+                          style={{
+                              backgroundColor: 'var(--color-surface-primary)',
+                              color: 'var(--color-text-secondary)',
+                              border: '1px solid var(--color-border-primary)',
+                          }}
+                          title={isCollapsed ? 'Expand branch' : 'Collapse branch'}
+                       >
+                          {isCollapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+                       </button>
+                     )}
+
                      {/* Quick Add Child Button - visible on hover or selection */}
                      <button
                         onClick={(e) => {
@@ -291,8 +502,25 @@ export const TreeVisualizer: React.FC<TreeVisualizerProps> = ({
                      >
                         <Plus size={14} />
                      </button>
+                     </div>
                   </div>
 
+                  {/* Hidden branch summary for collapsed nodes */}
+                  {isCollapsed && hidden && (
+                    <div
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onToggleCollapse(node.data.id);
+                      }}
+                      className="absolute -bottom-3 right-2 px-2 py-0.5 rounded-full bg-slate-600 border border-white shadow-sm cursor-pointer"
+                      title="Click to expand"
+                    >
+                      <span className="text-[9px] font-bold text-white whitespace-nowrap">
+                        +{hidden.descendants} hidden{hidden.openActions > 0 ? ` · ${hidden.openActions} open action${hidden.openActions !== 1 ? 's' : ''}` : ''}
+                      </span>
+                    </div>
+                  )}
+
                   {/* Root Cause badge */}
                   {node.data.isRootCause && (
                     <div
@@ -302,6 +530,17 @@ export const TreeVisualizer: React.FC<TreeVisualizerProps> = ({
                       <span className="text-[9px] font-bold text-white uppercase tracking-wider whitespace-nowrap">Root Cause</span>
                     </div>
                   )}
+
+                  {/* 5-Whys candidate badge, until reviewed */}
+                  {!node.data.isRootCause && node.data.isRootCauseCandidate && (
+                    <div
+                      className="absolute -bottom-2 left-1/2 -translate-x-1/2 px-2 py-0.5 rounded-full border border-dashed border-amber-500 shadow-sm"
+                      style={{ backgroundColor: 'var(--color-surface-primary)' }}
+                      title="Root cause candidate from a 5-Whys drill-down, awaiting review"
+                    >
+                      <span className="text-[9px] font-bold text-amber-600 uppercase tracking-wider whitespace-nowrap">Candidate</span>
+                    </div>
+                  )}
                 </div>
               </foreignObject>
             );
@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { Project, StatusWorkflow, WorkflowDefinition } from '../types';
+import {
+  DEFAULT_WORKFLOW,
+  WORKFLOW_ENTITY_LABELS,
+  WORKFLOW_REQUIREMENTS,
+  WORKFLOW_STATUSES,
+  WorkflowEntity,
+  getProjectWorkflow,
+  isSameWorkflow,
+  statusLabel,
+} from '../workflow';
+import { X, Check, Workflow, RotateCcw } from 'lucide-react';
+
+interface WorkflowDialogProps {
+  project: Project;
+  onSave: (workflow: WorkflowDefinition | undefined) => void;
+  onClose: () => void;
+}
+
+const ENTITIES = Object.keys(WORKFLOW_ENTITY_LABELS) as WorkflowEntity[];
+
+const toggle = (list: string[], value: string, on: boolean) =>
+  on ? [...list.filter(v => v !== value), value] : list.filter(v => v !== value);
+
+export const WorkflowDialog: React.FC<WorkflowDialogProps> = ({
+  project,
+  onSave,
+  onClose,
+}) => {
+  const [workflow, setWorkflow] = useState<WorkflowDefinition>(() => getProjectWorkflow(project));
+  const [entity, setEntity] = useState<WorkflowEntity>('cause');
+  const statuses = WORKFLOW_STATUSES[entity];
+  const rules = workflow[entity];
+  const requirements = Object.entries(WORKFLOW_REQUIREMENTS[entity]);
+
+  const updateRules = (changes: Partial<StatusWorkflow>) => {
+    setWorkflow(prev => ({ ...prev, [entity]: { ...prev[entity], ...changes } }));
+  };
+
+  const setTransition = (from: string, to: string, allowed: boolean) => {
+    updateRules({ transitions: { ...rules.transitions, [from]: toggle(rules.transitions[from] ?? [], to, allowed) } });
+  };
+
+  const setRequirement = (status: string, requirement: string, required: boolean) => {
+    updateRules({ required: { ...rules.required, [status]: toggle(rules.required[status] ?? [], requirement, required) } });
+  };
+
+  const handleSave = () => {
+    // Saving the default unchanged keeps the project following future default changes
+    onSave(isSameWorkflow(workflow, DEFAULT_WORKFLOW) ? undefined : workflow);
+    onClose();
+  };
+
+  const cellStyle = { borderBottom: '1px solid var(--color-border-primary)' };
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black/50 z-50" onClick={onClose} />
+
+      {/* Modal */}
+      <div
+        className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-50 w-[760px] max-h-[80vh] rounded-xl shadow-2xl overflow-hidden flex flex-col"
+        style={{ backgroundColor: 'var(--color-surface-primary)', border: '1px solid var(--color-border-primary)' }}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 shrink-0" style={{ borderBottom: '1px solid var(--color-border-primary)' }}>
+          <h2 className="text-lg font-bold flex items-center gap-2" style={{ color: 'var(--color-text-primary)' }}>
+            <Workflow size={18} /> Status Workflow — {project.name}
+          </h2>
+          <button onClick={onClose} className="p-1.5 rounded transition-colors" style={{ color: 'var(--color-text-muted)' }}>
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Entity tabs */}
+        <div className="flex gap-1 px-6 pt-3 shrink-0" style={{ borderBottom: '1px solid var(--color-border-primary)' }}>
+          {ENTITIES.map(e => (
+            <button
+              key={e}
+              onClick={() => setEntity(e)}
+              className={`px-3 py-1.5 text-sm font-medium border-b-2 -mb-px ${e === entity ? 'border-indigo-600 text-indigo-600' : 'border-transparent'}`}
+              style={e !== entity ? { color: 'var(--color-text-secondary)' } : undefined}
+            >
+              {WORKFLOW_ENTITY_LABELS[e]}
+            </button>
+          ))}
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-6">
+          <div>
+            <h3 className="text-xs uppercase font-semibold mb-1" style={{ color: 'var(--color-text-muted)' }}>Allowed changes</h3>
+            <p className="text-xs mb-2" style={{ color: 'var(--color-text-tertiary)' }}>
+              Each row is the current status; tick the statuses it may change to.
+            </p>
+            <table className="w-full text-xs">
+              <thead>
+                <tr>
+                  <th className="text-left py-1.5 pr-2 font-semibold" style={{ ...cellStyle, color: 'var(--color-text-muted)' }}>From \ To</th>
+                  {statuses.map(to => (
+                    <th key={to} className="py-1.5 px-1 font-semibold text-center" style={{ ...cellStyle, color: 'var(--color-text-secondary)' }}>
+                      {statusLabel(entity, to)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {statuses.map(from => (
+                  <tr key={from}>
+                    <td className="py-1.5 pr-2 font-medium" style={{ ...cellStyle, color: 'var(--color-text-secondary)' }}>{statusLabel(entity, from)}</td>
+                    {statuses.map(to => (
+                      <td key={to} className="py-1.5 px-1 text-center" style={cellStyle}>
+                        {from === to ? (
+                          <span style={{ color: 'var(--color-text-muted)' }}>—</span>
+                        ) : (
+                          <input
+                            type="checkbox"
+                            checked={(rules.transitions[from] ?? []).includes(to)}
+                            onChange={(e) => setTransition(from, to, e.target.checked)}
+                            className="rounded"
+                            title={`${statusLabel(entity, from)} → ${statusLabel(entity, to)}`}
+                          />
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <h3 className="text-xs uppercase font-semibold mb-1" style={{ color: 'var(--color-text-muted)' }}>Required before entering</h3>
+            <p className="text-xs mb-2" style={{ color: 'var(--color-text-tertiary)' }}>
+              A status change is refused, with the missing items listed next to the status control, until these are filled in.
+            </p>
+            <table className="w-full text-xs">
+              <thead>
+                <tr>
+                  <th className="text-left py-1.5 pr-2 font-semibold" style={{ ...cellStyle, color: 'var(--color-text-muted)' }}>Status</th>
+                  {requirements.map(([key, label]) => (
+                    <th key={key} className="py-1.5 px-1 font-semibold text-center" style={{ ...cellStyle, color: 'var(--color-text-secondary)' }}>
+                      {label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {statuses.map(status => (
+                  <tr key={status}>
+                    <td className="py-1.5 pr-2 font-medium" style={{ ...cellStyle, color: 'var(--color-text-secondary)' }}>{statusLabel(entity, status)}</td>
+                    {requirements.map(([key, label]) => (
+                      <td key={key} className="py-1.5 px-1 text-center" style={cellStyle}>
+                        <input
+                          type="checkbox"
+                          checked={(rules.required[status] ?? []).includes(key)}
+                          onChange={(e) => setRequirement(status, key, e.target.checked)}
+                          className="rounded"
+                          title={`${label} before ${statusLabel(entity, status)}`}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center gap-2 px-6 py-4 shrink-0" style={{ borderTop: '1px solid var(--color-border-primary)' }}>
+          <button
+            onClick={() => setWorkflow(DEFAULT_WORKFLOW)}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg transition-colors mr-auto"
+            style={{ color: 'var(--color-text-secondary)' }}
+            title="Any status change allowed; evidence required before ruling a cause out"
+          >
+            <RotateCcw size={14} /> Reset to Default
+          </button>
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm rounded-lg transition-colors"
+            style={{ color: 'var(--color-text-secondary)' }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors"
+          >
+            <Check size={14} /> Save Workflow
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,39 @@
+import React from 'react';
+import { WorkflowViolation } from '../workflow';
+import { Ban, X } from 'lucide-react';
+
+interface WorkflowViolationsProps {
+  violations: WorkflowViolation[];
+  onDismiss: () => void;
+  action?: { label: string; onClick: () => void };   // Shortcut to where the missing detail is filled in
+  className?: string;
+}
+
+// Inline list of the workflow rules a status change broke, shown next to the status control
+export const WorkflowViolations: React.FC<WorkflowViolationsProps> = ({
+  violations,
+  onDismiss,
+  action,
+  className,
+}) => {
+  if (violations.length === 0) return null;
+
+  return (
+    <div className={`flex items-start gap-2 p-2 rounded border border-red-300 bg-red-50 text-red-700 text-xs ${className ?? ''}`} role="alert">
+      <Ban size={12} className="mt-0.5 shrink-0" />
+      <div className="flex-1 min-w-0">
+        <ul className="space-y-0.5">
+          {violations.map(v => <li key={v.message}>{v.message}</li>)}
+        </ul>
+        {action && (
+          <button onClick={action.onClick} className="mt-1 font-semibold underline hover:text-red-900">
+            {action.label}
+          </button>
+        )}
+      </div>
+      <button onClick={onDismiss} className="shrink-0 hover:text-red-900" title="Dismiss">
+        <X size={12} />
+      </button>
+    </div>
+  );
+};
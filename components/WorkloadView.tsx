@@ -0,0 +1,329 @@
+import React, { useMemo, useState } from 'react';
+import { Project, SavedTreeV2 } from '../types';
+import { RESOLUTION_STATUS_COLORS } from '../constants';
+import {
+  WorkloadItem,
+  WorkloadItemKind,
+  WorkloadStatusFilter,
+  collectWorkloadItems,
+  groupByPerson,
+  matchesStatusFilter,
+  workloadWeekStarts,
+} from '../workload';
+import { parseDay } from '../timeline';
+import { Users, User, Filter, AlertTriangle, ExternalLink, ChevronRight, Calendar } from 'lucide-react';
+
+const ACTION_STATUS_COLORS: Record<string, { bg: string; border: string; text: string }> = {
+  'Open': { bg: 'var(--color-action-open-bg)', border: 'var(--color-action-open-border)', text: 'var(--color-action-open-text)' },
+  'In Progress': { bg: 'var(--color-action-progress-bg)', border: 'var(--color-action-progress-border)', text: 'var(--color-action-progress-text)' },
+  'Complete': { bg: 'var(--color-action-complete-bg)', border: 'var(--color-action-complete-border)', text: 'var(--color-action-complete-text)' },
+  'Blocked': { bg: 'var(--color-action-blocked-bg)', border: 'var(--color-action-blocked-border)', text: 'var(--color-action-blocked-text)' },
+  'Closed': { bg: 'var(--color-action-closed-bg)', border: 'var(--color-action-closed-border)', text: 'var(--color-action-closed-text)' },
+};
+
+const STATUS_FILTERS: { value: WorkloadStatusFilter; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'overdue', label: 'Overdue' },
+  { value: 'due-this-week', label: 'Due This Week' },
+  { value: 'done', label: 'Done' },
+  { value: 'all', label: 'All' },
+];
+
+interface WorkloadViewProps {
+  trees: SavedTreeV2[];          // Every tree, across projects
+  projects: Project[];
+  activeProjectId: string | null;
+  currentUser: string;
+  onOpenItem: (treeId: string, nodeId: string | null) => void;
+}
+
+export const WorkloadView: React.FC<WorkloadViewProps> = ({
+  trees,
+  projects,
+  activeProjectId,
+  currentUser,
+  onOpenItem,
+}) => {
+  const [scope, setScope] = useState<'project' | 'all'>('project');
+  const [personFilter, setPersonFilter] = useState<string | null>(currentUser || null);
+  const [kindFilter, setKindFilter] = useState<WorkloadItemKind | 'all'>('all');
+  const [statusFilter, setStatusFilter] = useState<WorkloadStatusFilter>('open');
+  const [collapsed, setCollapsed] = useState<Record<string, boolean>>({});
+
+  const scopedTrees = useMemo(
+    () => scope === 'project' ? trees.filter(t => t.projectId === activeProjectId) : trees,
+    [scope, trees, activeProjectId]
+  );
+  const allItems = useMemo(() => collectWorkloadItems(scopedTrees, projects), [scopedTrees, projects]);
+  const weekStarts = workloadWeekStarts();
+
+  // The load grid always covers everyone in scope; the list below follows the filters
+  const loads = useMemo(
+    () => groupByPerson(allItems.filter(i => kindFilter === 'all' || i.kind === kindFilter), weekStarts),
+    [allItems, kindFilter]
+  );
+  const filteredGroups = groupByPerson(
+    allItems.filter(i =>
+      (personFilter === null || i.person.toLowerCase() === personFilter.toLowerCase()) &&
+      (kindFilter === 'all' || i.kind === kindFilter) &&
+      matchesStatusFilter(i, statusFilter)
+    ),
+    weekStarts
+  );
+  const filteredCount = filteredGroups.reduce((sum, g) => sum + g.items.length, 0);
+  const maxLoad = Math.max(1, ...loads.flatMap(l => l.weeks));
+
+  const renderCount = (count: number, highlight?: 'red') => (
+    <td className="px-2 py-1.5 text-center text-sm">
+      {count > 0 ? (
+        <span className={highlight ? 'font-semibold text-red-600' : ''} style={highlight ? undefined : { color: 'var(--color-text-secondary)' }}>{count}</span>
+      ) : (
+        <span style={{ color: 'var(--color-text-muted)' }}>–</span>
+      )}
+    </td>
+  );
+
+  const renderItem = (item: WorkloadItem) => {
+    const colors = item.kind === 'action'
+      ? ACTION_STATUS_COLORS[item.status] ?? ACTION_STATUS_COLORS['Open']
+      : RESOLUTION_STATUS_COLORS[item.status] ?? RESOLUTION_STATUS_COLORS['Open'];
+    return (
+      <div
+        key={item.key}
+        className="flex items-center gap-3 px-4 py-2.5 text-sm"
+        style={{ borderTop: '1px solid var(--color-border-primary)', opacity: item.isDone ? 0.6 : 1 }}
+      >
+        <span
+          className="text-[10px] uppercase font-semibold w-10 shrink-0"
+          style={{ color: 'var(--color-text-muted)' }}
+          title={item.kind === 'action' ? 'Investigation action' : 'Corrective action'}
+        >
+          {item.kind === 'action' ? 'Action' : 'CA'}
+        </span>
+        <div className="flex-1 min-w-0">
+          <button
+            onClick={() => onOpenItem(item.treeId, item.causeId)}
+            className="font-medium truncate block max-w-full text-left hover:underline"
+            style={{ color: 'var(--color-text-primary)' }}
+            title="Open in the investigation tree"
+          >
+            {item.title || 'Untitled'}
+          </button>
+          <div className="flex items-center gap-1 text-xs truncate" style={{ color: 'var(--color-text-muted)' }}>
+            {scope === 'all' && item.projectName && <span>{item.projectName} ›</span>}
+            <span>{item.treeName}</span>
+            {item.causeLabel && <span className="truncate">› {item.causeLabel}</span>}
+          </div>
+        </div>
+        <span
+          className="text-xs px-2 py-0.5 rounded border shrink-0"
+          style={{ backgroundColor: colors.bg, borderColor: colors.border, color: colors.text }}
+        >
+          {item.status}
+        </span>
+        <span
+          className={`flex items-center gap-1 text-xs w-28 shrink-0 ${item.isOverdue ? 'text-red-600 font-medium' : ''}`}
+          style={item.isOverdue ? undefined : { color: 'var(--color-text-tertiary)' }}
+        >
+          {item.isOverdue ? <AlertTriangle size={12} /> : <Calendar size={12} />}
+          {item.dueDate ? parseDay(item.dueDate).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' }) : 'No date'}
+        </span>
+        <button
+          onClick={() => onOpenItem(item.treeId, item.causeId)}
+          className="p-1 rounded shrink-0"
+          style={{ color: 'var(--color-text-muted)' }}
+          title={item.causeId ? 'Open the linked cause' : 'Open the investigation'}
+        >
+          <ExternalLink size={14} />
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex-1 overflow-auto p-6" style={{ backgroundColor: 'var(--color-surface-secondary)' }}>
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold flex items-center gap-2" style={{ color: 'var(--color-text-primary)' }}>
+              <Users size={24} /> Workload
+            </h2>
+            <p className="text-sm mt-1" style={{ color: 'var(--color-text-muted)' }}>
+              Actions and corrective actions across {scope === 'project' ? 'this project' : 'all projects'}, by person
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {currentUser && (
+              <button
+                onClick={() => setPersonFilter(personFilter === currentUser ? null : currentUser)}
+                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium ${personFilter === currentUser ? 'bg-indigo-600 text-white' : ''}`}
+                style={personFilter !== currentUser ? { backgroundColor: 'var(--color-surface-tertiary)', color: 'var(--color-text-secondary)', border: '1px solid var(--color-border-primary)' } : undefined}
+              >
+                <User size={14} /> My Items
+              </button>
+            )}
+            <div className="flex rounded-lg overflow-hidden text-sm" style={{ border: '1px solid var(--color-border-primary)' }}>
+              {(['project', 'all'] as const).map((s, i) => (
+                <button
+                  key={s}
+                  onClick={() => setScope(s)}
+                  className={`px-3 py-1.5 font-medium transition-colors ${scope === s ? 'bg-indigo-600 text-white' : ''}`}
+                  style={scope !== s ? { backgroundColor: 'var(--color-surface-tertiary)', color: 'var(--color-text-secondary)', borderLeft: i > 0 ? '1px solid var(--color-border-primary)' : undefined } : undefined}
+                >
+                  {s === 'project' ? 'This Project' : 'All Projects'}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Load per person per week */}
+        <div className="rounded-lg overflow-x-auto" style={{ backgroundColor: 'var(--color-surface-primary)', border: '1px solid var(--color-border-primary)' }}>
+          <table className="w-full">
+            <thead>
+              <tr className="text-xs uppercase" style={{ color: 'var(--color-text-muted)', backgroundColor: 'var(--color-surface-tertiary)' }}>
+                <th className="px-4 py-2 text-left font-semibold">Person</th>
+                <th className="px-2 py-2 font-semibold">Open</th>
+                <th className="px-2 py-2 font-semibold">Overdue</th>
+                {weekStarts.map((start, i) => (
+                  <th key={start} className="px-2 py-2 font-semibold whitespace-nowrap">
+                    {i === 0 ? 'This wk' : parseDay(start).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                  </th>
+                ))}
+                <th className="px-2 py-2 font-semibold">Later</th>
+                <th className="px-2 py-2 font-semibold">No date</th>
+              </tr>
+            </thead>
+            <tbody>
+              {loads.length === 0 && (
+                <tr>
+                  <td colSpan={weekStarts.length + 5} className="px-4 py-6 text-center text-sm" style={{ color: 'var(--color-text-muted)' }}>
+                    No actions or corrective actions yet.
+                  </td>
+                </tr>
+              )}
+              {loads.map(load => {
+                const isSelected = personFilter !== null && personFilter.toLowerCase() === load.person.toLowerCase();
+                return (
+                  <tr
+                    key={load.person.toLowerCase()}
+                    onClick={() => setPersonFilter(isSelected ? null : load.person)}
+                    className="cursor-pointer"
+                    style={{
+                      borderTop: '1px solid var(--color-border-primary)',
+                      backgroundColor: isSelected ? 'var(--color-surface-hover)' : undefined,
+                    }}
+                    title={isSelected ? 'Show everyone' : `Show only ${load.person || 'unassigned'} items`}
+                  >
+                    <td className="px-4 py-1.5 text-sm font-medium" style={{ color: load.person ? 'var(--color-text-primary)' : 'var(--color-text-muted)' }}>
+                      {load.person || 'Unassigned'}
+                      {load.person && load.person.toLowerCase() === currentUser.toLowerCase() && (
+                        <span className="ml-1.5 text-xs font-normal" style={{ color: 'var(--color-text-muted)' }}>(you)</span>
+                      )}
+                    </td>
+                    {renderCount(load.open)}
+                    {renderCount(load.overdue, 'red')}
+                    {load.weeks.map((count, i) => (
+                      <td key={weekStarts[i]} className="px-1 py-1">
+                        <div
+                          className="rounded text-center text-sm py-0.5"
+                          style={{
+                            backgroundColor: count > 0 ? `rgba(79, 70, 229, ${0.1 + 0.5 * (count / maxLoad)})` : undefined,
+                            color: count > 0 ? 'var(--color-text-primary)' : 'var(--color-text-muted)',
+                          }}
+                        >
+                          {count > 0 ? count : '–'}
+                        </div>
+                      </td>
+                    ))}
+                    {renderCount(load.later)}
+                    {renderCount(load.undated)}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-3">
+          <Filter size={14} style={{ color: 'var(--color-text-muted)' }} />
+          <select
+            value={personFilter === null ? '' : personFilter || '\u0000'}
+            onChange={(e) => setPersonFilter(e.target.value === '' ? null : e.target.value === '\u0000' ? '' : e.target.value)}
+            className="text-sm rounded px-2 py-1.5"
+            style={{ backgroundColor: 'var(--color-surface-primary)', border: '1px solid var(--color-border-primary)', color: 'var(--color-text-secondary)' }}
+          >
+            <option value="">Everyone</option>
+            {loads.map(load => (
+              <option key={load.person.toLowerCase()} value={load.person || '\u0000'}>{load.person || 'Unassigned'}</option>
+            ))}
+          </select>
+          <select
+            value={kindFilter}
+            onChange={(e) => setKindFilter(e.target.value as WorkloadItemKind | 'all')}
+            className="text-sm rounded px-2 py-1.5"
+            style={{ backgroundColor: 'var(--color-surface-primary)', border: '1px solid var(--color-border-primary)', color: 'var(--color-text-secondary)' }}
+          >
+            <option value="all">Actions &amp; corrective actions</option>
+            <option value="action">Actions only</option>
+            <option value="resolution">Corrective actions only</option>
+          </select>
+          <div className="flex rounded-lg overflow-hidden text-sm" style={{ border: '1px solid var(--color-border-primary)' }}>
+            {STATUS_FILTERS.map((f, i) => (
+              <button
+                key={f.value}
+                onClick={() => setStatusFilter(f.value)}
+                className={`px-3 py-1.5 font-medium transition-colors ${statusFilter === f.value ? 'bg-indigo-600 text-white' : ''}`}
+                style={statusFilter !== f.value ? { backgroundColor: 'var(--color-surface-tertiary)', color: 'var(--color-text-secondary)', borderLeft: i > 0 ? '1px solid var(--color-border-primary)' : undefined } : undefined}
+              >
+                {f.label}
+              </button>
+            ))}
+          </div>
+          <span className="text-sm ml-auto" style={{ color: 'var(--color-text-muted)' }}>
+            {filteredCount} item{filteredCount !== 1 ? 's' : ''}
+          </span>
+        </div>
+
+        {/* Items by person */}
+        {filteredGroups.length === 0 ? (
+          <div className="text-center py-12" style={{ color: 'var(--color-text-muted)' }}>
+            <Users size={48} className="mx-auto mb-4 opacity-50" />
+            <p className="text-lg font-medium">Nothing matches these filters</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {filteredGroups.map(group => {
+              const id = group.person.toLowerCase();
+              return (
+                <div key={id} className="rounded-lg overflow-hidden" style={{ backgroundColor: 'var(--color-surface-primary)', border: '1px solid var(--color-border-primary)' }}>
+                  <button
+                    onClick={() => setCollapsed(prev => ({ ...prev, [id]: !prev[id] }))}
+                    className="w-full flex items-center gap-2 px-4 py-2.5 text-left"
+                    style={{ backgroundColor: 'var(--color-surface-tertiary)' }}
+                  >
+                    <ChevronRight size={16} className={`transition-transform ${collapsed[id] ? '' : 'rotate-90'}`} style={{ color: 'var(--color-text-muted)' }} />
+                    <span className="font-semibold" style={{ color: 'var(--color-text-primary)' }}>{group.person || 'Unassigned'}</span>
+                    <span className="text-sm" style={{ color: 'var(--color-text-muted)' }}>
+                      {group.items.length} item{group.items.length !== 1 ? 's' : ''}
+                    </span>
+                    {group.overdue > 0 && (
+                      <span className="flex items-center gap-1 text-xs font-medium text-red-600">
+                        <AlertTriangle size={12} /> {group.overdue} overdue
+                      </span>
+                    )}
+                  </button>
+                  {!collapsed[id] && [...group.items]
+                    .sort((a, b) => (a.dueDate || '9999').localeCompare(b.dueDate || '9999'))
+                    .map(renderItem)}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -27,6 +27,13 @@ export const STATUS_COLORS = {
   }
 };
 
+export const NODE_STATUS_LABELS: Record<NodeStatus, string> = {
+  [NodeStatus.PENDING]: 'Pending',
+  [NodeStatus.ACTIVE]: 'Active',
+  [NodeStatus.RULED_OUT]: 'Ruled Out',
+  [NodeStatus.CONFIRMED]: 'Confirmed',
+};
+
 // Hardcoded light-mode colors for standalone HTML reports
 export const REPORT_STATUS_COLORS = {
   [NodeStatus.PENDING]: {
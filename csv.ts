@@ -0,0 +1,62 @@
+export type CellValue = string | number | null | undefined;
+
+// Text starting with one of these is run as a formula by Excel and Sheets. Text that
+// already starts with an apostrophe is escaped too, so parseCsv can undo it exactly.
+const NEEDS_APOSTROPHE = /^['=+\-@\t\r]/;
+
+function escapeCsvCell(value: CellValue): string {
+  if (value === null || value === undefined) return '';
+  // Free text gets a leading apostrophe so spreadsheets show it rather than evaluate it
+  const text = typeof value === 'string' && NEEDS_APOSTROPHE.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// RFC 4180 CSV with CRLF line endings. The byte order mark makes Excel read it as UTF-8.
+export function toCsv(rows: CellValue[][]): string {
+  return '\uFEFF' + rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+// Parses RFC 4180 CSV (quoted fields may contain commas, quotes and line breaks).
+// Also accepts bare LF line endings and a leading byte order mark.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  for (; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Drop blank lines, and undo the apostrophe toCsv puts before formula-like text
+  return rows
+    .filter(r => r.some(cell => cell.trim() !== ''))
+    .map(r => r.map(cell => cell.startsWith("'") && NEEDS_APOSTROPHE.test(cell.slice(1)) ? cell.slice(1) : cell));
+}
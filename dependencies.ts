@@ -0,0 +1,155 @@
+import { ActionDependency, ActionItem, SavedTree } from './types';
+
+// Dependencies between actions, within one investigation or across the project.
+// A dependency lives on the successor and points at its predecessor.
+
+export interface ResolvedDependency {
+  ref: ActionDependency;
+  treeId: string;
+  tree: SavedTree | null;
+  action: ActionItem | null;   // Null when the predecessor has been deleted
+}
+
+export const isActionDone = (status: ActionItem['status']) => status === 'Complete' || status === 'Closed';
+
+const keyOf = (treeId: string, actionId: string) => `${treeId}:${actionId}`;
+
+export function makeDependency(ownerTreeId: string, treeId: string, actionId: string): ActionDependency {
+  return treeId === ownerTreeId ? { actionId } : { actionId, treeId };
+}
+
+export function isSameDependency(a: ActionDependency, b: ActionDependency, ownerTreeId: string): boolean {
+  return a.actionId === b.actionId && (a.treeId ?? ownerTreeId) === (b.treeId ?? ownerTreeId);
+}
+
+export function resolvePredecessors(trees: SavedTree[], treeId: string, action: ActionItem): ResolvedDependency[] {
+  return (action.predecessors ?? []).map(ref => {
+    const refTreeId = ref.treeId ?? treeId;
+    const tree = trees.find(t => t.id === refTreeId) ?? null;
+    return { ref, treeId: refTreeId, tree, action: tree?.actions.find(a => a.id === ref.actionId) ?? null };
+  });
+}
+
+export function openPredecessors(trees: SavedTree[], treeId: string, action: ActionItem): ResolvedDependency[] {
+  return resolvePredecessors(trees, treeId, action).filter(d => d.action && !isActionDone(d.action.status));
+}
+
+// An unfinished predecessor due after its successor will hold the successor up
+export function isSlipping(predecessor: ActionItem, successor: ActionItem): boolean {
+  return !isActionDone(predecessor.status) && !isActionDone(successor.status) &&
+    !!predecessor.dueDate && !!successor.dueDate && predecessor.dueDate > successor.dueDate;
+}
+
+export function slippingPredecessors(trees: SavedTree[], treeId: string, action: ActionItem): ResolvedDependency[] {
+  return resolvePredecessors(trees, treeId, action).filter(d => d.action && isSlipping(d.action, action));
+}
+
+// Whether making (treeId, actionId) depend on candidate would close a loop
+export function createsCycle(trees: SavedTree[], treeId: string, actionId: string, candidate: ActionDependency): boolean {
+  const target = keyOf(treeId, actionId);
+  const seen = new Set<string>();
+  const visit = (refTreeId: string, refActionId: string): boolean => {
+    const key = keyOf(refTreeId, refActionId);
+    if (key === target) return true;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    const action = trees.find(t => t.id === refTreeId)?.actions.find(a => a.id === refActionId);
+    return (action?.predecessors ?? []).some(ref => visit(ref.treeId ?? refTreeId, ref.actionId));
+  };
+  return visit(candidate.treeId ?? treeId, candidate.actionId);
+}
+
+export function applyCompletionOverride(action: ActionItem, reason: string, author: string): ActionItem {
+  const createdAt = new Date().toISOString();
+  return {
+    ...action,
+    completionOverride: { reason, author: author || undefined, createdAt },
+    updates: [...(action.updates ?? []), {
+      id: crypto.randomUUID(),
+      content: `Completed with open predecessors: ${reason}`,
+      createdAt,
+      author: author || undefined,
+    }],
+  };
+}
+
+// Points links into other investigations at their new ids after those were re-keyed on import
+export function remapDependencyTrees(actions: ActionItem[], treeIds: Map<string, string>): ActionItem[] {
+  const moved = (ref: ActionDependency) => !!ref.treeId && treeIds.has(ref.treeId);
+  return actions.map(a => a.predecessors?.some(moved)
+    ? { ...a, predecessors: a.predecessors.map(ref => moved(ref) ? { ...ref, treeId: treeIds.get(ref.treeId!)! } : ref) }
+    : a);
+}
+
+// Drops links to an action that is being deleted from the same investigation
+export function removeDependenciesOn(actions: ActionItem[], actionId: string): ActionItem[] {
+  return actions.map(a => a.predecessors?.some(ref => !ref.treeId && ref.actionId === actionId)
+    ? { ...a, predecessors: a.predecessors.filter(ref => ref.treeId || ref.actionId !== actionId) }
+    : a);
+}
+
+// ---- Graph ----
+
+export interface DependencyGraphNode {
+  key: string;
+  treeId: string;
+  treeName: string;
+  action: ActionItem;
+  depth: number;     // Length of the longest predecessor chain leading here
+  row: number;       // Position within its depth column
+}
+
+export interface DependencyGraphEdge {
+  from: string;
+  to: string;
+  isSlipping: boolean;
+  isOpen: boolean;   // Predecessor not finished yet
+}
+
+// Every action that has or is a predecessor, laid out left (first) to right (last)
+export function buildDependencyGraph(trees: SavedTree[]): { nodes: DependencyGraphNode[]; edges: DependencyGraphEdge[] } {
+  const lookup = new Map<string, { tree: SavedTree; action: ActionItem }>();
+  for (const tree of trees) {
+    for (const action of tree.actions) lookup.set(keyOf(tree.id, action.id), { tree, action });
+  }
+
+  const edges: DependencyGraphEdge[] = [];
+  const involved = new Set<string>();
+  for (const tree of trees) {
+    for (const action of tree.actions) {
+      for (const ref of action.predecessors ?? []) {
+        const from = keyOf(ref.treeId ?? tree.id, ref.actionId);
+        const predecessor = lookup.get(from);
+        if (!predecessor) continue;
+        const to = keyOf(tree.id, action.id);
+        edges.push({ from, to, isSlipping: isSlipping(predecessor.action, action), isOpen: !isActionDone(predecessor.action.status) });
+        involved.add(from);
+        involved.add(to);
+      }
+    }
+  }
+
+  const depths = new Map<string, number>();
+  const depthOf = (key: string, stack: Set<string>): number => {
+    const known = depths.get(key);
+    if (known !== undefined) return known;
+    if (stack.has(key)) return 0;   // Cycles are rejected when linking, but imports may contain them
+    stack.add(key);
+    const depth = Math.max(0, ...edges.filter(e => e.to === key).map(e => depthOf(e.from, stack) + 1));
+    stack.delete(key);
+    depths.set(key, depth);
+    return depth;
+  };
+
+  const rows = new Map<number, number>();
+  const nodes = [...involved]
+    .map(key => ({ key, depth: depthOf(key, new Set()), ...lookup.get(key)! }))
+    .sort((a, b) => a.depth - b.depth || a.tree.name.localeCompare(b.tree.name) || (a.action.dueDate || '9999').localeCompare(b.action.dueDate || '9999'))
+    .map(({ key, depth, tree, action }): DependencyGraphNode => {
+      const row = rows.get(depth) ?? 0;
+      rows.set(depth, row + 1);
+      return { key, treeId: tree.id, treeName: tree.name, action, depth, row };
+    });
+
+  return { nodes, edges };
+}
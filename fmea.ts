@@ -0,0 +1,152 @@
+import { CauseNode, NodeType, ResolutionItem, RiskRating, SavedTree } from './types';
+import { flattenTree } from './treeUtils';
+import { NODE_STATUS_LABELS } from './constants';
+import { CellValue } from './csv';
+
+export const RATING_MIN = 1;
+export const RATING_MAX = 10;
+
+export const RATING_DIMENSIONS: { key: keyof RiskRating; label: string; short: string; hint: string }[] = [
+  { key: 'severity', label: 'Severity', short: 'S', hint: 'How serious is the effect if this cause occurs?' },
+  { key: 'occurrence', label: 'Occurrence', short: 'O', hint: 'How likely is this cause to occur?' },
+  { key: 'detection', label: 'Detection', short: 'D', hint: 'How unlikely is it to be caught before it reaches the customer?' },
+];
+
+export type RiskBand = 'low' | 'medium' | 'high';
+
+// Common rule-of-thumb action thresholds on the 1-1000 RPN scale
+const MEDIUM_RPN = 100;
+const HIGH_RPN = 200;
+
+export const RISK_BAND_COLORS: Record<RiskBand, { bg: string; border: string; text: string }> = {
+  low: { bg: '#f0fdf4', border: '#22c55e', text: '#166534' },
+  medium: { bg: '#fefce8', border: '#eab308', text: '#854d0e' },
+  high: { bg: '#fef2f2', border: '#ef4444', text: '#991b1b' },
+};
+
+export const RISK_BAND_LABELS: Record<RiskBand, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+};
+
+// Risk Priority Number, or null until all three dimensions are rated
+export function computeRpn(rating: RiskRating | undefined): number | null {
+  if (!rating) return null;
+  const { severity, occurrence, detection } = rating;
+  if (severity === undefined || occurrence === undefined || detection === undefined) return null;
+  return severity * occurrence * detection;
+}
+
+export function rpnBand(rpn: number): RiskBand {
+  if (rpn >= HIGH_RPN) return 'high';
+  if (rpn >= MEDIUM_RPN) return 'medium';
+  return 'low';
+}
+
+export function clampRating(value: number): number {
+  return Math.min(Math.max(Math.round(value), RATING_MIN), RATING_MAX);
+}
+
+// A cause can be re-rated once one of its corrective actions has been verified
+export function verifiedResolutionsFor(nodeId: string, resolutions: ResolutionItem[]): ResolutionItem[] {
+  return resolutions.filter(r =>
+    r.linkedCauseIds.includes(nodeId) &&
+    (r.status === 'Verified' || (r.status === 'Closed' && !!r.verifiedDate))
+  );
+}
+
+export interface RiskRow {
+  node: CauseNode;
+  rpn: number | null;
+  residualRpn: number | null;   // Only when a linked corrective action is verified
+  isVerified: boolean;
+}
+
+// One row per cause in the tree (the problem statement itself is not rated)
+export function buildRiskRows(root: CauseNode, resolutions: ResolutionItem[]): RiskRow[] {
+  return flattenTree(root)
+    .filter(n => n.type !== NodeType.ISSUE)
+    .map(node => {
+      const isVerified = verifiedResolutionsFor(node.id, resolutions).length > 0;
+      return {
+        node,
+        rpn: computeRpn(node.risk),
+        residualRpn: isVerified ? computeRpn(node.residualRisk) : null,
+        isVerified,
+      };
+    });
+}
+
+export const FMEA_COLUMNS: { header: string; width: number }[] = [
+  { header: 'Issue', width: 30 },
+  { header: 'Category', width: 22 },
+  { header: 'Cause Path', width: 50 },
+  { header: 'Cause', width: 30 },
+  { header: 'Type', width: 10 },
+  { header: 'Status', width: 12 },
+  { header: 'Root Cause', width: 11 },
+  { header: 'Rationale', width: 40 },
+  { header: 'Evidence', width: 50 },
+  { header: 'S', width: 5 },
+  { header: 'O', width: 5 },
+  { header: 'D', width: 5 },
+  { header: 'RPN', width: 7 },
+  { header: 'Actions', width: 50 },
+  { header: 'Resolutions', width: 50 },
+  { header: 'Residual S', width: 10 },
+  { header: 'Residual O', width: 10 },
+  { header: 'Residual D', width: 10 },
+  { header: 'Residual RPN', width: 12 },
+];
+
+// Worksheet rows for one investigation: a header, then one row per cause path
+// (Issue → Category → Cause) in tree order. Multi-valued cells are newline separated.
+export function buildFmeaRows(tree: SavedTree): CellValue[][] {
+  const rows: CellValue[][] = [FMEA_COLUMNS.map(c => c.header)];
+
+  const visit = (node: CauseNode, path: CauseNode[]) => {
+    const here = [...path, node];
+    if (node.type !== NodeType.ISSUE) {
+      const category = here.find(n => n.type === NodeType.CATEGORY) ?? here[1] ?? node;
+      const evidence = tree.notes
+        .filter(n => n.referenceId === node.id && n.isEvidence)
+        .map(n => n.content.trim())
+        .filter(Boolean);
+      const actions = tree.actions
+        .filter(a => a.causeId === node.id)
+        .map(a => [a.action, a.assignee, a.status, a.dueDate && `due ${a.dueDate}`].filter(Boolean).join(' — '));
+      const resolutions = tree.resolutions
+        .filter(r => r.linkedCauseIds.includes(node.id))
+        .map(r => [r.title, r.owner, r.status].filter(Boolean).join(' — '));
+      const isVerified = verifiedResolutionsFor(node.id, tree.resolutions).length > 0;
+      const residual = isVerified ? node.residualRisk : undefined;
+
+      rows.push([
+        here[0].label,
+        category.label,
+        here.map(n => n.label).join(' → '),
+        node.label,
+        node.type === NodeType.CATEGORY ? 'Category' : 'Cause',
+        NODE_STATUS_LABELS[node.status],
+        node.isRootCause ? 'Yes' : node.isRootCauseCandidate ? 'Candidate' : '',
+        node.rationale,
+        evidence.join('\n'),
+        node.risk?.severity,
+        node.risk?.occurrence,
+        node.risk?.detection,
+        computeRpn(node.risk),
+        actions.join('\n'),
+        resolutions.join('\n'),
+        residual?.severity,
+        residual?.occurrence,
+        residual?.detection,
+        computeRpn(residual),
+      ]);
+    }
+    node.children?.forEach(child => visit(child, here));
+  };
+
+  visit(tree.treeData, []);
+  return rows;
+}
@@ -0,0 +1,215 @@
+import { CauseNode, SavedTree, SavedTreeV2 } from './types';
+import { NODE_STATUS_LABELS } from './constants';
+
+export const MAX_HISTORY_ENTRIES = 100;
+
+// Consecutive edits with the same coalesce key inside this window collapse
+// into a single undo step (e.g. typing into a label field)
+const COALESCE_WINDOW_MS = 1500;
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: string;
+  coalesceKey?: string;
+  snapshot: SavedTree; // Tree state before (undo stack) or after (redo stack) the change
+}
+
+export interface TreeHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export type HistoryState = Record<string, TreeHistory>;
+
+export interface HistoryLabel {
+  label: string;
+  coalesceKey?: string;
+}
+
+const EMPTY_HISTORY: TreeHistory = { past: [], future: [] };
+
+export function getTreeHistory(state: HistoryState, treeId: string | null): TreeHistory {
+  if (!treeId) return EMPTY_HISTORY;
+  return state[treeId] ?? EMPTY_HISTORY;
+}
+
+function createEntry(snapshot: SavedTree, label: string, coalesceKey?: string): HistoryEntry {
+  return {
+    id: crypto.randomUUID(),
+    label,
+    timestamp: new Date().toISOString(),
+    coalesceKey,
+    snapshot,
+  };
+}
+
+// Record the state of a tree before a mutation. Clears the redo stack.
+export function recordChange(
+  state: HistoryState,
+  treeId: string,
+  before: SavedTree,
+  change: HistoryLabel
+): HistoryState {
+  const history = getTreeHistory(state, treeId);
+  const last = history.past[history.past.length - 1];
+
+  if (
+    change.coalesceKey &&
+    last?.coalesceKey === change.coalesceKey &&
+    Date.now() - new Date(last.timestamp).getTime() < COALESCE_WINDOW_MS
+  ) {
+    // Keep the original snapshot, just extend the window
+    const merged = { ...last, timestamp: new Date().toISOString() };
+    return {
+      ...state,
+      [treeId]: { past: [...history.past.slice(0, -1), merged], future: [] },
+    };
+  }
+
+  const past = [...history.past, createEntry(before, change.label, change.coalesceKey)];
+  return {
+    ...state,
+    [treeId]: {
+      past: past.slice(-MAX_HISTORY_ENTRIES),
+      future: [],
+    },
+  };
+}
+
+// Step back `steps` entries. Returns the snapshot to restore, or null if there is nothing to undo.
+export function undo(
+  state: HistoryState,
+  treeId: string,
+  current: SavedTree,
+  steps: number = 1
+): { state: HistoryState; restored: SavedTree } | null {
+  const history = getTreeHistory(state, treeId);
+  if (history.past.length === 0 || steps < 1) return null;
+
+  const count = Math.min(steps, history.past.length);
+  const past = [...history.past];
+  const future = [...history.future];
+  let present = current;
+
+  for (let i = 0; i < count; i++) {
+    const entry = past.pop()!;
+    future.push({ ...entry, snapshot: present });
+    present = entry.snapshot;
+  }
+
+  return {
+    state: { ...state, [treeId]: { past, future: future.slice(-MAX_HISTORY_ENTRIES) } },
+    restored: present,
+  };
+}
+
+export function redo(
+  state: HistoryState,
+  treeId: string,
+  current: SavedTree
+): { state: HistoryState; restored: SavedTree } | null {
+  const history = getTreeHistory(state, treeId);
+  if (history.future.length === 0) return null;
+
+  const future = [...history.future];
+  const entry = future.pop()!;
+  const past = [...history.past, { ...entry, snapshot: current }];
+
+  return {
+    state: { ...state, [treeId]: { past: past.slice(-MAX_HISTORY_ENTRIES), future } },
+    restored: entry.snapshot,
+  };
+}
+
+export function clearTreeHistory(state: HistoryState, treeId: string): HistoryState {
+  if (!(treeId in state)) return state;
+  const next = { ...state };
+  delete next[treeId];
+  return next;
+}
+
+// The investigations and their undo stacks share one reducer state, so an edit and the
+// snapshot it records always come from the same "before" tree, however many updates are
+// queued in a tick and however often React runs the reducer.
+export interface TreesState {
+  trees: SavedTreeV2[];
+  history: HistoryState;
+}
+
+type Update<T> = T | ((prev: T) => T);
+
+export type TreesAction =
+  | { type: 'setTrees'; update: Update<SavedTreeV2[]> }
+  | { type: 'setHistory'; update: Update<HistoryState> }
+  | { type: 'update'; treeId: string; apply: (tree: SavedTreeV2) => SavedTreeV2; change: HistoryLabel }
+  | { type: 'undo'; treeId: string; steps: number; restore: (current: SavedTreeV2, restored: SavedTree) => SavedTreeV2 }
+  | { type: 'redo'; treeId: string; restore: (current: SavedTreeV2, restored: SavedTree) => SavedTreeV2 };
+
+const resolve = <T,>(update: Update<T>, prev: T): T =>
+  typeof update === 'function' ? (update as (prev: T) => T)(prev) : update;
+
+export function treesReducer(state: TreesState, action: TreesAction): TreesState {
+  switch (action.type) {
+    case 'setTrees':
+      return { ...state, trees: resolve(action.update, state.trees) };
+    case 'setHistory':
+      return { ...state, history: resolve(action.update, state.history) };
+    case 'update': {
+      const before = state.trees.find(t => t.id === action.treeId);
+      if (!before) return state;
+      return {
+        trees: state.trees.map(t => t === before ? action.apply(t) : t),
+        history: recordChange(state.history, action.treeId, before, action.change),
+      };
+    }
+    case 'undo':
+    case 'redo': {
+      const current = state.trees.find(t => t.id === action.treeId);
+      if (!current) return state;
+      const result = action.type === 'undo'
+        ? undo(state.history, action.treeId, current, action.steps)
+        : redo(state.history, action.treeId, current);
+      if (!result) return state;
+      return {
+        trees: state.trees.map(t => t === current ? action.restore(t, result.restored) : t),
+        history: result.state,
+      };
+    }
+  }
+}
+
+// Build a human-readable label for a node edit by finding the field that changed
+export function describeNodeChange(before: CauseNode | null, after: CauseNode): HistoryLabel {
+  const name = before?.label || after.label || 'node';
+  if (!before) return { label: `Edit "${name}"` };
+
+  if (before.status !== after.status) {
+    return { label: `Set "${name}" to ${NODE_STATUS_LABELS[after.status]}` };
+  }
+  if ((before.isRootCause ?? false) !== (after.isRootCause ?? false)) {
+    return { label: after.isRootCause ? `Mark "${name}" as root cause` : `Unmark "${name}" as root cause` };
+  }
+  if ((before.isRootCauseCandidate ?? false) !== (after.isRootCauseCandidate ?? false)) {
+    return { label: after.isRootCauseCandidate ? `Flag "${name}" as root cause candidate` : `Clear root cause candidate flag on "${name}"` };
+  }
+  if (before.gate !== after.gate || before.gateK !== after.gateK) {
+    return { label: `Change logic gate of "${name}"`, coalesceKey: `node:${after.id}:gate` };
+  }
+  if (before.probability !== after.probability) {
+    return { label: `Set probability of "${name}"`, coalesceKey: `node:${after.id}:probability` };
+  }
+  if (JSON.stringify(before.risk) !== JSON.stringify(after.risk) || JSON.stringify(before.residualRisk) !== JSON.stringify(after.residualRisk)) {
+    return { label: `Rate risk of "${name}"`, coalesceKey: `node:${after.id}:risk` };
+  }
+  if (before.label !== after.label) {
+    return { label: `Rename "${before.label}"`, coalesceKey: `node:${after.id}:label` };
+  }
+  if (before.description !== after.description) {
+    return { label: `Edit description of "${name}"`, coalesceKey: `node:${after.id}:description` };
+  }
+  if (before.rationale !== after.rationale) {
+    return { label: `Edit rationale of "${name}"`, coalesceKey: `node:${after.id}:rationale` };
+  }
+  return { label: `Edit "${name}"`, coalesceKey: `node:${after.id}` };
+}
@@ -0,0 +1,125 @@
+// Minimal promise wrapper around the browser's IndexedDB, which holds the app
+// state (one record per project and per investigation) and binary attachments.
+
+const DB_NAME = 'rcca-helper';
+const DB_VERSION = 2;
+
+export const ATTACHMENTS_STORE = 'attachments';
+export const PROJECTS_STORE = 'projects';
+export const TREES_STORE = 'trees';
+export const META_STORE = 'meta';
+
+const ALL_STORES = [ATTACHMENTS_STORE, PROJECTS_STORE, TREES_STORE, META_STORE];
+
+// Thrown when another tab holds a connection to an older version of the database
+export class DatabaseBlockedError extends Error {}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    let blocked = false;
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const storeName of ALL_STORES) {
+        if (!db.objectStoreNames.contains(storeName)) db.createObjectStore(storeName);
+      }
+    };
+    request.onblocked = () => {
+      blocked = true;
+      dbPromise = null;
+      reject(new DatabaseBlockedError('The app is open in another tab running an older version. Close the other tabs and reload this page.'));
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // The other tabs closed after we gave up; don't keep a connection nobody uses
+      if (blocked) {
+        db.close();
+        return;
+      }
+      // Let a newer version of the app in another tab upgrade the database
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(new Error('Failed to open local database'));
+    };
+  });
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Database request failed'));
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error ?? new Error('Database transaction failed'));
+    tx.onabort = () => reject(tx.error ?? new Error('Database transaction aborted'));
+  });
+}
+
+export async function idbGet<T>(storeName: string, key: string): Promise<T | undefined> {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, 'readonly');
+  return requestToPromise(tx.objectStore(storeName).get(key) as IDBRequest<T | undefined>);
+}
+
+export async function idbPut(storeName: string, key: string, value: unknown): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, 'readwrite');
+  tx.objectStore(storeName).put(value, key);
+  return transactionDone(tx);
+}
+
+export async function idbDelete(storeName: string, keys: string[]): Promise<void> {
+  if (keys.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, 'readwrite');
+  const store = tx.objectStore(storeName);
+  for (const key of keys) store.delete(key);
+  return transactionDone(tx);
+}
+
+export async function idbKeys(storeName: string): Promise<string[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, 'readonly');
+  const keys = await requestToPromise(tx.objectStore(storeName).getAllKeys());
+  return keys.map(String);
+}
+
+export async function idbGetAll<T>(storeName: string): Promise<T[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, 'readonly');
+  return requestToPromise(tx.objectStore(storeName).getAll() as IDBRequest<T[]>);
+}
+
+export interface IdbWrite {
+  storeName: string;
+  key: string;
+  value?: unknown;   // Omitted to delete the key
+}
+
+// Apply several puts/deletes atomically in a single transaction
+export async function idbWriteBatch(writes: IdbWrite[]): Promise<void> {
+  if (writes.length === 0) return;
+  const db = await openDatabase();
+  const storeNames = [...new Set(writes.map(w => w.storeName))];
+  const tx = db.transaction(storeNames, 'readwrite');
+  for (const write of writes) {
+    const store = tx.objectStore(write.storeName);
+    if (write.value === undefined) store.delete(write.key);
+    else store.put(write.value, write.key);
+  }
+  return transactionDone(tx);
+}
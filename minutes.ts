@@ -0,0 +1,180 @@
+import { ActionItem, ActionUpdate, CauseNode, NodeStatus, Note, ResolutionItem, SavedTree } from './types';
+import { flattenTree } from './treeUtils';
+import { NODE_STATUS_LABELS } from './constants';
+
+// Meeting recording: the project's investigations are captured when a session starts and
+// compared with their state when it stops. Trees are updated immutably, so holding on to
+// the objects is enough for a snapshot.
+
+export interface RecordingSession {
+  projectId: string;
+  startedAt: string;
+  endedAt?: string;
+  recordedBy: string;
+  baseline: SavedTree[];
+}
+
+export interface NodeStatusChange {
+  node: CauseNode;
+  from: NodeStatus;
+  to: NodeStatus;
+}
+
+export interface ResolutionProgress {
+  resolution: ResolutionItem;
+  from?: ResolutionItem['status'];    // Absent for corrective actions created in the session
+  updates: ActionUpdate[];
+}
+
+export interface TreeChanges {
+  tree: SavedTree;             // For a deleted investigation, its state when the session started
+  isNew: boolean;
+  isDeleted: boolean;
+  nodesAdded: CauseNode[];
+  nodesRemoved: CauseNode[];
+  statusChanges: NodeStatusChange[];
+  rootCausesIdentified: CauseNode[];
+  evidenceAdded: Note[];
+  actionsAdded: ActionItem[];
+  actionsClosed: ActionItem[];
+  resolutionProgress: ResolutionProgress[];
+}
+
+const isDone = (status: ActionItem['status']) => status === 'Complete' || status === 'Closed';
+
+export function startRecording(projectId: string, trees: SavedTree[], recordedBy: string): RecordingSession {
+  return { projectId, startedAt: new Date().toISOString(), recordedBy, baseline: trees };
+}
+
+export function diffTree(before: SavedTree | undefined, after: SavedTree): TreeChanges {
+  const beforeNodes = new Map((before ? flattenTree(before.treeData) : []).map(n => [n.id, n]));
+  const afterNodes = flattenTree(after.treeData);
+  const afterIds = new Set(afterNodes.map(n => n.id));
+  const beforeNotes = new Map((before?.notes ?? []).map(n => [n.id, n]));
+  const beforeActions = new Map((before?.actions ?? []).map(a => [a.id, a]));
+  const beforeResolutions = new Map((before?.resolutions ?? []).map(r => [r.id, r]));
+
+  const statusChanges: NodeStatusChange[] = [];
+  const rootCausesIdentified: CauseNode[] = [];
+  for (const node of afterNodes) {
+    const previous = beforeNodes.get(node.id);
+    if (previous && previous.status !== node.status) statusChanges.push({ node, from: previous.status, to: node.status });
+    if (node.isRootCause && !previous?.isRootCause) rootCausesIdentified.push(node);
+  }
+
+  const resolutionProgress: ResolutionProgress[] = [];
+  for (const resolution of after.resolutions ?? []) {
+    const previous = beforeResolutions.get(resolution.id);
+    const seenUpdates = new Set((previous?.updates ?? []).map(u => u.id));
+    const updates = (resolution.updates ?? []).filter(u => !seenUpdates.has(u.id));
+    if (!previous || previous.status !== resolution.status || updates.length > 0) {
+      resolutionProgress.push({ resolution, from: previous?.status, updates });
+    }
+  }
+
+  return {
+    tree: after,
+    isNew: !before,
+    isDeleted: false,
+    nodesAdded: afterNodes.filter(n => !beforeNodes.has(n.id)),
+    nodesRemoved: [...beforeNodes.values()].filter(n => !afterIds.has(n.id)),
+    statusChanges,
+    rootCausesIdentified,
+    // New evidence notes, and existing notes marked as evidence during the session
+    evidenceAdded: after.notes.filter(n => n.isEvidence && !beforeNotes.get(n.id)?.isEvidence),
+    actionsAdded: after.actions.filter(a => !beforeActions.has(a.id)),
+    actionsClosed: after.actions.filter(a => {
+      const previous = beforeActions.get(a.id);
+      return isDone(a.status) && (!previous || !isDone(previous.status));
+    }),
+    resolutionProgress,
+  };
+}
+
+function deletedTreeChanges(tree: SavedTree): TreeChanges {
+  return {
+    tree,
+    isNew: false,
+    isDeleted: true,
+    nodesAdded: [],
+    nodesRemoved: [],
+    statusChanges: [],
+    rootCausesIdentified: [],
+    evidenceAdded: [],
+    actionsAdded: [],
+    actionsClosed: [],
+    resolutionProgress: [],
+  };
+}
+
+export function hasChanges(changes: TreeChanges): boolean {
+  return changes.isDeleted || changes.nodesAdded.length > 0 || changes.nodesRemoved.length > 0 ||
+    changes.statusChanges.length > 0 || changes.rootCausesIdentified.length > 0 ||
+    changes.evidenceAdded.length > 0 || changes.actionsAdded.length > 0 ||
+    changes.actionsClosed.length > 0 || changes.resolutionProgress.length > 0;
+}
+
+// Investigations changed since the session started, in their current order, followed
+// by those deleted during the session
+export function diffSession(session: RecordingSession, current: SavedTree[]): TreeChanges[] {
+  const baseline = new Map(session.baseline.map(t => [t.id, t]));
+  const currentIds = new Set(current.map(t => t.id));
+  return [
+    ...current.map(tree => diffTree(baseline.get(tree.id), tree)).filter(hasChanges),
+    ...session.baseline.filter(t => !currentIds.has(t.id)).map(deletedTreeChanges),
+  ];
+}
+
+// ---- Markdown ----
+
+const md = (text: string) => text.replace(/([\\`*_[\]#|])/g, '\\$1').replace(/\s*\n\s*/g, ' ');
+
+// What a note is attached to: a cause, or one of the investigation's actions
+export function noteSubjectLabel(tree: SavedTree, referenceId: string): string {
+  return flattenTree(tree.treeData).find(n => n.id === referenceId)?.label
+    ?? tree.actions.find(a => a.id === referenceId)?.action
+    ?? 'Unknown cause';
+}
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+
+export function generateMinutesMarkdown(session: RecordingSession, changes: TreeChanges[]): string {
+  const endedAt = session.endedAt ?? new Date().toISOString();
+  const lines: string[] = [
+    `# Meeting Minutes — ${new Date(session.startedAt).toLocaleDateString()}`,
+    '',
+    `${formatTime(session.startedAt)} – ${formatTime(endedAt)}` +
+      (session.recordedBy ? ` · Recorded by ${md(session.recordedBy)}` : ''),
+    '',
+  ];
+
+  if (changes.length === 0) {
+    lines.push('_No changes were made during this session._', '');
+  }
+
+  for (const c of changes) {
+    lines.push(`## ${md(c.tree.name)}${c.isNew ? ' (new investigation)' : c.isDeleted ? ' (deleted)' : ''}`, '');
+    if (c.isDeleted) {
+      lines.push('_This investigation was deleted during the session._', '');
+      continue;
+    }
+    const section = (title: string, items: string[]) => {
+      if (items.length === 0) return;
+      lines.push(`### ${title}`, '', ...items.map(item => `- ${item}`), '');
+    };
+    section('Causes added', c.nodesAdded.map(n => md(n.label)));
+    section('Causes removed', c.nodesRemoved.map(n => md(n.label)));
+    section('Status changes', c.statusChanges.map(s => `${md(s.node.label)}: ${NODE_STATUS_LABELS[s.from]} → **${NODE_STATUS_LABELS[s.to]}**`));
+    section('Root causes identified', c.rootCausesIdentified.map(n => md(n.label)));
+    section('New evidence', c.evidenceAdded.map(n => `${md(noteSubjectLabel(c.tree, n.referenceId))}: ${md(n.content)}${n.owner ? ` (${md(n.owner)})` : ''}`));
+    section('New actions', c.actionsAdded.map(a => `${md(a.action)} — ${md(a.assignee || 'Unassigned')}${a.dueDate ? `, due ${a.dueDate}` : ''}`));
+    section('Actions closed', c.actionsClosed.map(a => `${md(a.action)} (${a.status})`));
+    section('Corrective action progress', c.resolutionProgress.map(p => {
+      const status = p.from === undefined ? `new, ${p.resolution.status}` : p.from !== p.resolution.status ? `${p.from} → **${p.resolution.status}**` : p.resolution.status;
+      const updates = p.updates.map(u => `; ${md(u.content)}`).join('');
+      return `${md(p.resolution.title)} (${status})${updates}`;
+    }));
+  }
+
+  return lines.join('\n');
+}
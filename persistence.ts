@@ -1,7 +1,11 @@
 import { AppState, AppSettings, AppStateV2, Project, SavedTree, SavedTreeV2 } from './types';
+import { migrateAppState, migrateTree, isTreeLike, SchemaError, DEFAULT_PROJECT_ID } from './schema';
+import { buildFmeaRows, FMEA_COLUMNS } from './fmea';
+import { toCsv, parseCsv } from './csv';
+import { buildActionCsvRows } from './actionCsv';
+import { buildXlsx } from './xlsx';
 
 const STORAGE_KEY = 'rcca-helper-state';
-const DEFAULT_PROJECT_ID = 'default-project';
 const SETTINGS_KEY = 'rcca-helper-settings';
 const LAST_EXPORT_KEY = 'rcca-helper-last-export';
 
@@ -10,6 +14,7 @@ export const DEFAULT_SETTINGS: AppSettings = {
   autoBackupIntervalMinutes: 15,
   projectFileName: 'RCCA_Backup',
   theme: 'light',
+  userName: '',
 };
 
 export function loadSettings(): AppSettings {
@@ -34,72 +39,21 @@ export function setLastExportTimestamp(): void {
   localStorage.setItem(LAST_EXPORT_KEY, new Date().toISOString());
 }
 
-// Ensure backward compatibility by adding resolutions array if missing
-function migrateTree(tree: SavedTree): SavedTree {
-  return {
-    ...tree,
-    resolutions: tree.resolutions ?? []
-  };
-}
-
-// Migrate V1 (flat trees) to V2 (with projects)
-function migrateV1toV2(v1State: AppState): AppStateV2 {
-  const now = new Date().toISOString();
-
-  const defaultProject: Project = {
-    id: DEFAULT_PROJECT_ID,
-    name: 'Default Project',
-    description: 'Migrated investigations',
-    createdAt: now,
-    updatedAt: now,
-  };
-
-  const migratedTrees: SavedTreeV2[] = v1State.trees.map(tree => ({
-    ...migrateTree(tree),
-    projectId: DEFAULT_PROJECT_ID,
-  }));
-
-  return {
-    version: 2,
-    activeProjectId: DEFAULT_PROJECT_ID,
-    activeTreeId: v1State.activeTreeId,
-    projects: [defaultProject],
-    trees: migratedTrees,
-  };
-}
-
-export function loadAppState(): AppStateV2 | null {
+// Read the state saved by versions that kept everything in one localStorage key.
+// Only used to migrate into IndexedDB (see storage.ts).
+export function loadLegacyAppState(): AppStateV2 | null {
   try {
     const raw = localStorage.getItem(STORAGE_KEY);
     if (!raw) return null;
 
-    const parsed = JSON.parse(raw);
-
-    // Check if V1 (no version field) - migrate to V2
-    if (!('version' in parsed)) {
-      const v1State = parsed as AppState;
-      const migratedState = migrateV1toV2(v1State);
-      // Save migrated state immediately
-      saveAppState(migratedState);
-      return migratedState;
-    }
-
-    // Already V2
-    const state = parsed as AppStateV2;
-    return {
-      ...state,
-      trees: state.trees.map(tree => ({
-        ...migrateTree(tree),
-        projectId: tree.projectId
-      }))
-    };
+    return migrateAppState(JSON.parse(raw) as AppState | AppStateV2);
   } catch {
     return null;
   }
 }
 
-export function saveAppState(state: AppStateV2): void {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+export function clearLegacyAppState(): void {
+  localStorage.removeItem(STORAGE_KEY);
 }
 
 export function createDefaultProject(): Project {
@@ -112,12 +66,14 @@ export function createDefaultProject(): Project {
   };
 }
 
-export function exportProjectAsJson(project: Project, trees: SavedTreeV2[]): void {
+// `attachments` holds the contents of note attachments as data URLs keyed by attachment id
+export function exportProjectAsJson(project: Project, trees: SavedTreeV2[], attachments: Record<string, string> = {}): void {
   const projectTrees = trees.filter(t => t.projectId === project.id);
-  const exportData = {
+  const exportData: ProjectImportData = {
     type: 'rcca-project',
     project,
-    trees: projectTrees
+    trees: projectTrees,
+    attachments,
   };
   const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
   const url = URL.createObjectURL(blob);
@@ -132,6 +88,7 @@ export interface ProjectImportData {
   type: 'rcca-project';
   project: Project;
   trees: SavedTreeV2[];
+  attachments?: Record<string, string>;
 }
 
 export function parseProjectImportFile(file: File): Promise<ProjectImportData | SavedTree[]> {
@@ -142,8 +99,13 @@ export function parseProjectImportFile(file: File): Promise<ProjectImportData |
         const data = JSON.parse(reader.result as string);
 
         // Check if it's a project export
-        if (data.type === 'rcca-project' && data.project && data.trees) {
-          resolve(data as ProjectImportData);
+        if (data.type === 'rcca-project' && data.project && Array.isArray(data.trees)) {
+          const invalid = (data.trees as unknown[]).find(t => !isTreeLike(t));
+          if (invalid) {
+            reject(new Error(`Invalid investigation in project: "${(invalid as { name?: string }).name || 'unknown'}"`));
+            return;
+          }
+          resolve({ ...data, trees: (data.trees as SavedTreeV2[]).map(migrateTree) } as ProjectImportData);
           return;
         }
 
@@ -156,16 +118,15 @@ export function parseProjectImportFile(file: File): Promise<ProjectImportData |
 
         const validated: SavedTree[] = [];
         for (const item of candidates) {
-          const tree = item as SavedTree;
-          if (!tree.treeData || !tree.id || !tree.name) {
+          if (!isTreeLike(item)) {
             reject(new Error(`Invalid investigation in file: "${(item as { name?: string }).name || 'unknown'}"`));
             return;
           }
-          validated.push(migrateTree(tree));
+          validated.push(migrateTree(item));
         }
         resolve(validated);
-      } catch {
-        reject(new Error('Failed to parse JSON file'));
+      } catch (err) {
+        reject(err instanceof SchemaError ? err : new Error('Failed to parse JSON file'));
       }
     };
     reader.onerror = () => reject(new Error('Failed to read file'));
@@ -194,15 +155,15 @@ export function importAllTreesFromJson(file: File): Promise<SavedTree[]> {
           return;
         }
         for (const tree of data) {
-          if (!tree.treeData || !tree.id || !tree.name) {
+          if (!isTreeLike(tree)) {
             reject(new Error(`Invalid tree in file: "${tree.name || 'unknown'}"`));
             return;
           }
         }
         // Migrate all trees for backward compatibility
         resolve((data as SavedTree[]).map(migrateTree));
-      } catch {
-        reject(new Error('Failed to parse JSON file'));
+      } catch (err) {
+        reject(err instanceof SchemaError ? err : new Error('Failed to parse JSON file'));
       }
     };
     reader.onerror = () => reject(new Error('Failed to read file'));
@@ -220,6 +181,69 @@ export function exportTreeAsJson(tree: SavedTree): void {
   URL.revokeObjectURL(url);
 }
 
+// FMEA worksheet for one investigation, one row per cause path
+export function exportTreeAsFmeaCsv(tree: SavedTree): void {
+  const blob = new Blob([toCsv(buildFmeaRows(tree))], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${tree.name.replace(/[^a-z0-9]/gi, '_')}_FMEA_${new Date().toISOString().split('T')[0]}.csv`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// FMEA workbook with one sheet per investigation
+export function exportTreesAsFmeaXlsx(trees: SavedTree[], fileName: string): void {
+  const blob = buildXlsx(trees.map(tree => ({
+    name: tree.name,
+    rows: buildFmeaRows(tree),
+    columnWidths: FMEA_COLUMNS.map(c => c.width),
+  })));
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${fileName.replace(/[^a-z0-9]/gi, '_')}_FMEA_${new Date().toISOString().split('T')[0]}.xlsx`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// RAIL action list with cause paths and the latest update on each action
+export function exportActionsAsCsv(tree: SavedTree): void {
+  const blob = new Blob([toCsv(buildActionCsvRows(tree.actions, tree.treeData))], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${tree.name.replace(/[^a-z0-9]/gi, '_')}_Actions_${new Date().toISOString().split('T')[0]}.csv`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export function exportMinutesAsMarkdown(markdown: string, startedAt: string): void {
+  const blob = new Blob([markdown], { type: 'text/markdown;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `Meeting_Minutes_${startedAt.split('T')[0]}.md`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export function parseCsvFile(file: File): Promise<string[][]> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const rows = parseCsv(reader.result as string);
+      if (rows.length < 2) {
+        reject(new Error('The CSV file needs a header row and at least one data row'));
+        return;
+      }
+      resolve(rows);
+    };
+    reader.onerror = () => reject(new Error('Failed to read file'));
+    reader.readAsText(file);
+  });
+}
+
 export function parseImportFile(file: File): Promise<SavedTree[]> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -235,17 +259,16 @@ export function parseImportFile(file: File): Promise<SavedTree[]> {
 
         const validated: SavedTree[] = [];
         for (const item of candidates) {
-          const tree = item as SavedTree;
-          if (!tree.treeData || !tree.id || !tree.name) {
+          if (!isTreeLike(item)) {
             reject(new Error(`Invalid investigation in file: "${(item as { name?: string }).name || 'unknown'}"`));
             return;
           }
-          validated.push(migrateTree(tree));
+          validated.push(migrateTree(item));
         }
 
         resolve(validated);
-      } catch {
-        reject(new Error('Failed to parse JSON file'));
+      } catch (err) {
+        reject(err instanceof SchemaError ? err : new Error('Failed to parse JSON file'));
       }
     };
     reader.onerror = () => reject(new Error('Failed to read file'));
@@ -258,15 +281,15 @@ export function importTreeFromJson(file: File): Promise<SavedTree> {
     const reader = new FileReader();
     reader.onload = () => {
       try {
-        const data = JSON.parse(reader.result as string) as SavedTree;
-        if (!data.treeData || !data.id || !data.name) {
+        const data = JSON.parse(reader.result as string);
+        if (!isTreeLike(data)) {
           reject(new Error('Invalid tree file format'));
           return;
         }
         // Migrate tree for backward compatibility
         resolve(migrateTree(data));
-      } catch {
-        reject(new Error('Failed to parse JSON file'));
+      } catch (err) {
+        reject(err instanceof SchemaError ? err : new Error('Failed to parse JSON file'));
       }
     };
     reader.onerror = () => reject(new Error('Failed to read file'));
@@ -0,0 +1,97 @@
+import { CauseNode } from './types';
+import { flattenTree, getGate, gateThreshold } from './treeUtils';
+
+// Probabilities are propagated assuming independent events. A cause that appears in
+// several branches is counted once per branch, so results are an approximation when
+// the tree repeats causes (the minimal cut sets show such overlaps).
+
+// Probability that at least k of the independent events occur
+function atLeastK(probabilities: number[], k: number): number {
+  // dist[j] = probability that exactly j of the events seen so far occurred
+  let dist = [1];
+  for (const p of probabilities) {
+    const next = new Array(dist.length + 1).fill(0);
+    dist.forEach((q, j) => {
+      next[j] += q * (1 - p);
+      next[j + 1] += q * p;
+    });
+    dist = next;
+  }
+  return dist.slice(k).reduce((sum, q) => sum + q, 0);
+}
+
+// Probability of every node, keyed by id. Leaves use their own `probability`; other
+// nodes combine their children through the logic gate. A node is null while any
+// leaf beneath it has no value. `overrides` replaces leaf values (for sensitivity).
+export function computeProbabilities(root: CauseNode, overrides?: Map<string, number>): Map<string, number | null> {
+  const result = new Map<string, number | null>();
+
+  const visit = (node: CauseNode): number | null => {
+    const children = node.children ?? [];
+    let value: number | null;
+    if (children.length === 0) {
+      value = overrides?.get(node.id) ?? node.probability ?? null;
+    } else {
+      const childValues = children.map(visit);
+      if (childValues.some(v => v === null)) {
+        value = null;
+      } else {
+        const ps = childValues as number[];
+        const gate = getGate(node);
+        if (gate === 'AND') value = ps.reduce((prod, p) => prod * p, 1);
+        else if (gate === 'OR') value = 1 - ps.reduce((prod, p) => prod * (1 - p), 1);
+        else value = atLeastK(ps, gateThreshold(node));
+      }
+    }
+    result.set(node.id, value);
+    return value;
+  };
+
+  visit(root);
+  return result;
+}
+
+export interface LeafSensitivity {
+  node: CauseNode;
+  probability: number;
+  importance: number;   // Birnbaum importance: P(top | leaf occurs) - P(top | leaf does not occur)
+  contribution: number; // Share of the top probability removed if the leaf could never occur
+}
+
+// Rank leaves by how strongly the top event probability depends on them
+export function rankSensitivity(root: CauseNode): LeafSensitivity[] {
+  const top = computeProbabilities(root).get(root.id);
+  if (top === null || top === undefined) return [];
+
+  const leaves = flattenTree(root).filter(n => n !== root && (n.children?.length ?? 0) === 0);
+  return leaves
+    .map(leaf => {
+      const ifOccurs = computeProbabilities(root, new Map([[leaf.id, 1]])).get(root.id) ?? 0;
+      const ifNot = computeProbabilities(root, new Map([[leaf.id, 0]])).get(root.id) ?? 0;
+      return {
+        node: leaf,
+        probability: leaf.probability ?? 0,
+        importance: ifOccurs - ifNot,
+        contribution: top > 0 ? (top - ifNot) / top : 0,
+      };
+    })
+    .sort((a, b) => b.importance - a.importance);
+}
+
+export function formatProbability(p: number): string {
+  if (p === 0) return '0';
+  if (p < 0.001) return p.toExponential(1);
+  return p.toPrecision(2);
+}
+
+// Parse user input such as "0.02", "2%" or "1e-4". Returns null for blank input
+// and undefined for anything that is not a probability.
+export function parseProbability(input: string): number | null | undefined {
+  const text = input.trim();
+  if (!text) return null;
+  const isPercent = text.endsWith('%');
+  const value = Number(isPercent ? text.slice(0, -1) : text);
+  if (!Number.isFinite(value)) return undefined;
+  const p = isPercent ? value / 100 : value;
+  return p >= 0 && p <= 1 ? p : undefined;
+}
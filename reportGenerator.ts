@@ -1,13 +1,14 @@
-import { SavedTree, CauseNode, NodeStatus, ResolutionItem } from './types';
-import { REPORT_STATUS_COLORS as STATUS_COLORS, REPORT_RESOLUTION_STATUS_COLORS } from './constants';
-import { flattenTree, getTreeStats, formatDate } from './treeUtils';
-
-const STATUS_LABELS: Record<NodeStatus, string> = {
-  [NodeStatus.PENDING]: 'Pending',
-  [NodeStatus.ACTIVE]: 'Active',
-  [NodeStatus.RULED_OUT]: 'Ruled Out',
-  [NodeStatus.CONFIRMED]: 'Confirmed',
-};
+import { SavedTree, CauseNode, Note, NoteAttachment, NodeStatus, ResolutionItem } from './types';
+import { NODE_STATUS_LABELS, REPORT_STATUS_COLORS as STATUS_COLORS, REPORT_RESOLUTION_STATUS_COLORS } from './constants';
+import { flattenTree, getTreeStats, formatDate, describeGate } from './treeUtils';
+import { computeProbabilities, rankSensitivity, formatProbability } from './probability';
+import { describeAuditEntry, AUDIT_FIELD_LABELS } from './audit';
+import { formatFileSize } from './attachments';
+import { TagupSession, formatDuration } from './tagup';
+import { RecordingSession, TreeChanges, noteSubjectLabel } from './minutes';
+
+// Attachment contents as data URLs keyed by attachment id (see loadAttachmentDataUrls)
+type AttachmentData = Record<string, string>;
 
 function escapeHtml(text: string): string {
   return text
@@ -21,7 +22,28 @@ function statusBadge(status: string, colors: { bg: string; border: string; text:
   return `<span style="display:inline-block;padding:2px 8px;border-radius:9999px;font-size:12px;font-weight:500;background:${colors.bg};color:${colors.text};border:1px solid ${colors.border}">${escapeHtml(status)}</span>`;
 }
 
-function renderTreeHierarchy(node: CauseNode, notes: { referenceId: string; content: string; isEvidence: boolean }[], depth: number = 0): string {
+function renderAttachments(attachments: NoteAttachment[], attachmentData: AttachmentData): string {
+  if (attachments.length === 0) return '';
+  let html = `<div style="display:flex;flex-wrap:wrap;gap:8px;margin-top:6px">`;
+  for (const attachment of attachments) {
+    const dataUrl = attachmentData[attachment.id];
+    const caption = `${escapeHtml(attachment.name)} (${formatFileSize(attachment.size)})`;
+    if (dataUrl && attachment.mimeType.startsWith('image/')) {
+      html += `<figure style="margin:0;max-width:240px">
+        <img src="${escapeHtml(dataUrl)}" alt="${escapeHtml(attachment.name)}" style="max-width:240px;max-height:180px;border:1px solid #e2e8f0;border-radius:4px;display:block">
+        <figcaption style="font-size:10px;color:#94a3b8">${caption}</figcaption>
+      </figure>`;
+    } else if (dataUrl) {
+      html += `<a href="${escapeHtml(dataUrl)}" download="${escapeHtml(attachment.name)}" style="font-size:11px;color:#4f46e5;padding:4px 8px;border:1px solid #e2e8f0;border-radius:4px;text-decoration:none">&#128206; ${caption}</a>`;
+    } else {
+      html += `<span style="font-size:11px;color:#94a3b8;padding:4px 8px;border:1px dashed #e2e8f0;border-radius:4px">&#128206; ${caption} — not available</span>`;
+    }
+  }
+  html += `</div>`;
+  return html;
+}
+
+function renderTreeHierarchy(node: CauseNode, notes: Note[], attachmentData: AttachmentData, depth: number = 0): string {
   const colors = STATUS_COLORS[node.status];
   const indent = depth * 24;
   const nodeNotes = notes.filter(n => n.referenceId === node.id);
@@ -32,8 +54,10 @@ function renderTreeHierarchy(node: CauseNode, notes: { referenceId: string; cont
         <span style="width:10px;height:10px;border-radius:50%;background:${colors.border};display:inline-block;flex-shrink:0"></span>
         <strong style="color:${colors.text}">${escapeHtml(node.label)}</strong>
         <span style="font-size:11px;color:#64748b;text-transform:uppercase">${escapeHtml(node.type)}</span>
-        ${statusBadge(STATUS_LABELS[node.status], colors)}
+        ${statusBadge(NODE_STATUS_LABELS[node.status], colors)}
+        ${node.gate && (node.children?.length ?? 0) > 0 ? `<span style="display:inline-block;padding:1px 6px;border-radius:4px;font-size:10px;font-weight:700;border:1px solid #64748b;color:#475569;margin-left:4px">${escapeHtml(describeGate(node))} GATE</span>` : ''}
         ${node.isRootCause ? '<span style="display:inline-block;padding:1px 6px;border-radius:4px;font-size:10px;font-weight:700;background:#f59e0b;color:#fff;margin-left:4px">ROOT CAUSE</span>' : ''}
+        ${!node.isRootCause && node.isRootCauseCandidate ? '<span style="display:inline-block;padding:1px 6px;border-radius:4px;font-size:10px;font-weight:700;border:1px dashed #f59e0b;color:#d97706;margin-left:4px">CANDIDATE</span>' : ''}
       </div>`;
 
   if (node.description) {
@@ -48,7 +72,7 @@ function renderTreeHierarchy(node: CauseNode, notes: { referenceId: string; cont
       const prefix = note.isEvidence
         ? `<span style="font-weight:600;color:#166534;font-size:11px;text-transform:uppercase">Evidence: </span>`
         : '';
-      html += `<div style="font-size:12px;color:#64748b;margin-top:2px;padding:4px 8px;background:${note.isEvidence ? '#f0fdf4' : '#f8fafc'};border-radius:4px">${prefix}${escapeHtml(note.content)}</div>`;
+      html += `<div style="font-size:12px;color:#64748b;margin-top:2px;padding:4px 8px;background:${note.isEvidence ? '#f0fdf4' : '#f8fafc'};border-radius:4px">${prefix}${escapeHtml(note.content)}${renderAttachments(note.attachments ?? [], attachmentData)}</div>`;
     }
     html += `</div>`;
   }
@@ -57,7 +81,7 @@ function renderTreeHierarchy(node: CauseNode, notes: { referenceId: string; cont
 
   if (node.children) {
     for (const child of node.children) {
-      html += renderTreeHierarchy(child, notes, depth + 1);
+      html += renderTreeHierarchy(child, notes, attachmentData, depth + 1);
     }
   }
   return html;
@@ -173,6 +197,80 @@ function renderResolutionsTable(tree: SavedTree): string {
   return html;
 }
 
+function renderAuditTable(tree: SavedTree): string {
+  const log = tree.auditLog ?? [];
+  if (log.length === 0) {
+    return '<p style="color:#94a3b8;font-style:italic">No changes recorded.</p>';
+  }
+
+  let html = `
+    <table style="width:100%;border-collapse:collapse;font-size:12px">
+      <thead>
+        <tr style="background:#f1f5f9;text-align:left">
+          <th style="padding:6px 8px;border:1px solid #e2e8f0">When</th>
+          <th style="padding:6px 8px;border:1px solid #e2e8f0">Who</th>
+          <th style="padding:6px 8px;border:1px solid #e2e8f0">Change</th>
+          <th style="padding:6px 8px;border:1px solid #e2e8f0">Field</th>
+          <th style="padding:6px 8px;border:1px solid #e2e8f0">Old Value</th>
+          <th style="padding:6px 8px;border:1px solid #e2e8f0">New Value</th>
+        </tr>
+      </thead>
+      <tbody>`;
+
+  for (let i = 0; i < log.length; i++) {
+    const entry = log[i];
+    const rowBg = i % 2 === 0 ? '#ffffff' : '#f8fafc';
+    const field = entry.field ? AUDIT_FIELD_LABELS[entry.field] ?? entry.field : '—';
+    html += `
+      <tr style="background:${rowBg}">
+        <td style="padding:6px 8px;border:1px solid #e2e8f0;white-space:nowrap">${new Date(entry.timestamp).toLocaleString()}</td>
+        <td style="padding:6px 8px;border:1px solid #e2e8f0">${escapeHtml(entry.author)}</td>
+        <td style="padding:6px 8px;border:1px solid #e2e8f0">${escapeHtml(describeAuditEntry(entry))}</td>
+        <td style="padding:6px 8px;border:1px solid #e2e8f0">${escapeHtml(field)}</td>
+        <td style="padding:6px 8px;border:1px solid #e2e8f0;color:#64748b">${escapeHtml(entry.oldValue) || '—'}</td>
+        <td style="padding:6px 8px;border:1px solid #e2e8f0">${escapeHtml(entry.newValue) || '—'}</td>
+      </tr>`;
+  }
+
+  html += `</tbody></table>`;
+  return html;
+}
+
+function renderProbabilityAnalysis(tree: SavedTree): string {
+  const top = computeProbabilities(tree.treeData).get(tree.treeData.id);
+  if (top === null || top === undefined) {
+    return '<p style="color:#94a3b8;font-style:italic">Not every leaf cause has a probability, so the problem probability cannot be computed.</p>';
+  }
+
+  let html = `<p style="font-size:14px">Probability of <strong>${escapeHtml(tree.treeData.label)}</strong>: <strong style="font-family:monospace">${formatProbability(top)}</strong>
+    <span style="font-size:12px;color:#64748b">(independent causes combined through the logic gates)</span></p>`;
+  html += `
+    <table style="width:100%;border-collapse:collapse;font-size:13px">
+      <thead>
+        <tr style="background:#f1f5f9;text-align:left">
+          <th style="padding:6px 8px;border:1px solid #e2e8f0">Rank</th>
+          <th style="padding:6px 8px;border:1px solid #e2e8f0">Leaf Cause</th>
+          <th style="padding:6px 8px;border:1px solid #e2e8f0">Probability</th>
+          <th style="padding:6px 8px;border:1px solid #e2e8f0">Birnbaum Importance</th>
+          <th style="padding:6px 8px;border:1px solid #e2e8f0">Reduction if Eliminated</th>
+        </tr>
+      </thead>
+      <tbody>`;
+  rankSensitivity(tree.treeData).forEach((row, i) => {
+    const rowBg = i % 2 === 0 ? '#ffffff' : '#f8fafc';
+    html += `
+      <tr style="background:${rowBg}">
+        <td style="padding:6px 8px;border:1px solid #e2e8f0">${i + 1}</td>
+        <td style="padding:6px 8px;border:1px solid #e2e8f0">${escapeHtml(row.node.label)}</td>
+        <td style="padding:6px 8px;border:1px solid #e2e8f0;font-family:monospace">${formatProbability(row.probability)}</td>
+        <td style="padding:6px 8px;border:1px solid #e2e8f0;font-family:monospace">${formatProbability(row.importance)}</td>
+        <td style="padding:6px 8px;border:1px solid #e2e8f0">${(row.contribution * 100).toFixed(1)}%</td>
+      </tr>`;
+  });
+  html += `</tbody></table>`;
+  return html;
+}
+
 function renderStatGrid(label: string, counts: Record<string, number>, colorMap: Record<string, { bg: string; border: string; text: string }>): string {
   let html = `<div style="margin-bottom:16px"><div style="font-size:13px;font-weight:600;color:#475569;margin-bottom:6px">${escapeHtml(label)}</div><div style="display:flex;gap:8px;flex-wrap:wrap">`;
   for (const [key, count] of Object.entries(counts)) {
@@ -186,7 +284,7 @@ function renderStatGrid(label: string, counts: Record<string, number>, colorMap:
   return html;
 }
 
-function renderInvestigation(tree: SavedTree, headingTag: 'h1' | 'h2' = 'h1', anchorId?: string): string {
+function renderInvestigation(tree: SavedTree, attachmentData: AttachmentData, headingTag: 'h1' | 'h2' = 'h1', anchorId?: string): string {
   const stats = getTreeStats(tree);
   const rootColors = STATUS_COLORS[tree.treeData.status];
 
@@ -200,11 +298,11 @@ function renderInvestigation(tree: SavedTree, headingTag: 'h1' | 'h2' = 'h1', an
 
   const nodeStatusDisplay: Record<string, { bg: string; border: string; text: string }> = {};
   for (const s of Object.values(NodeStatus)) {
-    nodeStatusDisplay[STATUS_LABELS[s]] = STATUS_COLORS[s];
+    nodeStatusDisplay[NODE_STATUS_LABELS[s]] = STATUS_COLORS[s];
   }
   const nodeCountsDisplay: Record<string, number> = {};
   for (const [s, count] of Object.entries(stats.nodesByStatus)) {
-    nodeCountsDisplay[STATUS_LABELS[s as NodeStatus]] = count;
+    nodeCountsDisplay[NODE_STATUS_LABELS[s as NodeStatus]] = count;
   }
 
   let html = '';
@@ -214,7 +312,7 @@ function renderInvestigation(tree: SavedTree, headingTag: 'h1' | 'h2' = 'h1', an
     <${headingTag} style="color:#1e293b;margin-bottom:4px">${escapeHtml(tree.name)}</${headingTag}>
     <div style="display:flex;align-items:center;gap:8px;margin-bottom:16px;color:#64748b;font-size:13px">
       <span style="width:10px;height:10px;border-radius:50%;background:${rootColors.border};display:inline-block"></span>
-      <span>Root status: ${STATUS_LABELS[tree.treeData.status]}</span>
+      <span>Root status: ${NODE_STATUS_LABELS[tree.treeData.status]}</span>
       <span>|</span>
       <span>Created: ${formatDate(tree.createdAt)}</span>
       <span>|</span>
@@ -258,7 +356,7 @@ function renderInvestigation(tree: SavedTree, headingTag: 'h1' | 'h2' = 'h1', an
 
   // Detail appendix
   html += `<h3 style="color:#334155;border-bottom:1px solid #e2e8f0;padding-bottom:6px;margin-top:24px">Fault Tree Hierarchy</h3>`;
-  html += renderTreeHierarchy(tree.treeData, tree.notes);
+  html += renderTreeHierarchy(tree.treeData, tree.notes, attachmentData);
 
   html += `<h3 style="color:#334155;border-bottom:1px solid #e2e8f0;padding-bottom:6px;margin-top:24px">Action Items (${tree.actions.length})</h3>`;
   html += renderActionsTable(tree);
@@ -311,14 +409,20 @@ function wrapInHtmlPage(title: string, bodyContent: string): string {
 </html>`;
 }
 
-export function generateSingleReport(tree: SavedTree): string {
-  return wrapInHtmlPage(
-    `RCCA Report — ${tree.name}`,
-    renderInvestigation(tree, 'h1')
-  );
+export function generateSingleReport(tree: SavedTree, attachmentData: AttachmentData = {}): string {
+  const auditLog = tree.auditLog ?? [];
+  let body = renderInvestigation(tree, attachmentData, 'h1');
+  // Only investigations that use probabilities get the quantitative section
+  if (flattenTree(tree.treeData).some(n => n.probability !== undefined)) {
+    body += `<h3 style="color:#334155;border-bottom:1px solid #e2e8f0;padding-bottom:6px;margin-top:24px">Probability Analysis</h3>`;
+    body += renderProbabilityAnalysis(tree);
+  }
+  body += `<h3 class="page-break" style="color:#334155;border-bottom:1px solid #e2e8f0;padding-bottom:6px;margin-top:24px">Change History (${auditLog.length})</h3>`;
+  body += renderAuditTable(tree);
+  return wrapInHtmlPage(`RCCA Report — ${tree.name}`, body);
 }
 
-export function generateBulkReport(trees: SavedTree[]): string {
+export function generateBulkReport(trees: SavedTree[], attachmentData: AttachmentData = {}): string {
   let body = `<h1 style="color:#1e293b">RCCA Investigations Report</h1>`;
   body += `<p style="color:#64748b;font-size:13px">${trees.length} investigation(s) | Generated ${formatDate(new Date().toISOString())}</p>`;
 
@@ -341,13 +445,137 @@ export function generateBulkReport(trees: SavedTree[]): string {
   // Each investigation
   for (let i = 0; i < trees.length; i++) {
     body += `<div class="${i > 0 ? 'page-break' : ''}">`;
-    body += renderInvestigation(trees[i], 'h2', `inv-${i}`);
+    body += renderInvestigation(trees[i], attachmentData, 'h2', `inv-${i}`);
     body += `</div>`;
   }
 
   return wrapInHtmlPage('RCCA Investigations Report', body);
 }
 
+// Minutes of a daily tagup: every item on the agenda with its time, status changes and updates
+export function generateTagupMinutes(session: TagupSession, trees: SavedTree[]): string {
+  const endedAt = session.endedAt ?? new Date().toISOString();
+  const records = Object.values(session.records);
+  const totalSeconds = Math.round((new Date(endedAt).getTime() - new Date(session.startedAt).getTime()) / 1000);
+  const discussed = records.filter(r => r.seconds > 0 || r.updates.length > 0 || r.statusChanges.length > 0).length;
+  const itemCount = session.agenda.reduce((sum, entry) => sum + entry.items.length, 0);
+
+  let body = `<h1 style="color:#1e293b">Daily Tagup Minutes</h1>`;
+  body += `<p style="color:#64748b;font-size:13px">${formatDate(session.startedAt)} – ${new Date(endedAt).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}`;
+  body += ` | Duration ${formatDuration(totalSeconds)}`;
+  if (session.facilitator) body += ` | Facilitator: ${escapeHtml(session.facilitator)}`;
+  body += `</p>`;
+  body += `<p style="color:#64748b;font-size:13px">${session.agenda.length} investigation(s), ${discussed} of ${itemCount} item(s) discussed, `;
+  body += `${records.reduce((sum, r) => sum + r.updates.length, 0)} update(s) recorded, ${records.reduce((sum, r) => sum + r.statusChanges.length, 0)} status change(s)</p>`;
+
+  for (const entry of session.agenda) {
+    const tree = trees.find(t => t.id === entry.treeId);
+    if (!tree) continue;
+    const nodeMap = new Map(flattenTree(tree.treeData).map(n => [n.id, n]));
+
+    body += `<h2 style="color:#1e293b;border-bottom:2px solid #e2e8f0;padding-bottom:6px">${escapeHtml(tree.name)}</h2>`;
+    body += `
+    <table style="width:100%;border-collapse:collapse;font-size:13px">
+      <thead>
+        <tr style="background:#f1f5f9;text-align:left">
+          <th style="padding:8px 10px;border:1px solid #e2e8f0">Item</th>
+          <th style="padding:8px 10px;border:1px solid #e2e8f0">Owner</th>
+          <th style="padding:8px 10px;border:1px solid #e2e8f0">Due</th>
+          <th style="padding:8px 10px;border:1px solid #e2e8f0">Status</th>
+          <th style="padding:8px 10px;border:1px solid #e2e8f0">Time</th>
+        </tr>
+      </thead>
+      <tbody>`;
+
+    entry.items.forEach((ref, i) => {
+      const record = session.records[ref.key];
+      const action = ref.kind === 'action' ? tree.actions.find(a => a.id === ref.id) : undefined;
+      const resolution = ref.kind === 'resolution' ? (tree.resolutions ?? []).find(r => r.id === ref.id) : undefined;
+      if (!action && !resolution) return;
+
+      const title = action ? action.action : resolution!.title;
+      const context = action
+        ? nodeMap.get(action.causeId)?.label
+        : resolution!.linkedCauseIds.map(id => nodeMap.get(id)?.label).filter(Boolean).join(', ');
+      const status = action ? action.status : resolution!.status;
+      const statusHtml = record?.statusChanges.length
+        ? `${escapeHtml(record.statusChanges[0].from)} → <strong>${escapeHtml(status)}</strong>`
+        : escapeHtml(status);
+      const updatesHtml = (record?.updates ?? []).map(u =>
+        `<div style="font-size:12px;color:#334155;margin-top:2px">• ${escapeHtml(u)}</div>`
+      ).join('');
+
+      body += `
+      <tr style="background:${i % 2 === 0 ? '#ffffff' : '#f8fafc'}">
+        <td style="padding:8px 10px;border:1px solid #e2e8f0">
+          <div><span style="font-size:11px;color:#94a3b8;text-transform:uppercase">${action ? 'Action' : 'Corrective'}</span> ${escapeHtml(title)}</div>
+          ${context ? `<div style="font-size:11px;color:#94a3b8;margin-top:2px">${escapeHtml(context)}</div>` : ''}
+          ${updatesHtml || (record?.seconds ? '' : '<div style="font-size:11px;color:#94a3b8;font-style:italic;margin-top:2px">Not discussed</div>')}
+        </td>
+        <td style="padding:8px 10px;border:1px solid #e2e8f0">${escapeHtml((action ? action.assignee : resolution!.owner) || '—')}</td>
+        <td style="padding:8px 10px;border:1px solid #e2e8f0">${(action ? action.dueDate : resolution!.targetDate) || '—'}</td>
+        <td style="padding:8px 10px;border:1px solid #e2e8f0">${statusHtml}</td>
+        <td style="padding:8px 10px;border:1px solid #e2e8f0">${record?.seconds ? formatDuration(record.seconds) : '—'}</td>
+      </tr>`;
+    });
+
+    body += `</tbody></table>`;
+  }
+
+  return wrapInHtmlPage(`Daily Tagup Minutes — ${new Date(session.startedAt).toLocaleDateString()}`, body);
+}
+
+// Minutes of a recorded session: what changed in each investigation between start and stop
+export function generateSessionMinutes(session: RecordingSession, changes: TreeChanges[]): string {
+  const endedAt = session.endedAt ?? new Date().toISOString();
+  let body = `<h1 style="color:#1e293b">Meeting Minutes</h1>`;
+  body += `<p style="color:#64748b;font-size:13px">${formatDate(session.startedAt)} – ${new Date(endedAt).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}`;
+  if (session.recordedBy) body += ` | Recorded by ${escapeHtml(session.recordedBy)}`;
+  body += `</p>`;
+
+  if (changes.length === 0) {
+    body += '<p style="color:#94a3b8;font-style:italic">No changes were made during this session.</p>';
+  }
+
+  const section = (title: string, items: string[]) => items.length === 0 ? '' :
+    `<h3 style="color:#334155;margin-bottom:4px">${title} (${items.length})</h3>
+    <ul style="margin-top:0;padding-left:20px;font-size:13px">${items.map(item => `<li style="margin-bottom:2px">${item}</li>`).join('')}</ul>`;
+
+  for (const c of changes) {
+    const tag = c.isNew ? 'new investigation' : c.isDeleted ? 'deleted' : '';
+    body += `<h2 style="color:#1e293b;border-bottom:2px solid #e2e8f0;padding-bottom:6px">${escapeHtml(c.tree.name)}${tag ? ` <span style="font-size:12px;color:#64748b;font-weight:normal">(${tag})</span>` : ''}</h2>`;
+    if (c.isDeleted) {
+      body += '<p style="color:#94a3b8;font-style:italic;font-size:13px">This investigation was deleted during the session.</p>';
+      continue;
+    }
+    body += section('Causes added', c.nodesAdded.map(n => escapeHtml(n.label)));
+    body += section('Causes removed', c.nodesRemoved.map(n => `<span style="text-decoration:line-through">${escapeHtml(n.label)}</span>`));
+    body += section('Status changes', c.statusChanges.map(ch =>
+      `${escapeHtml(ch.node.label)}: ${statusBadge(NODE_STATUS_LABELS[ch.from], STATUS_COLORS[ch.from])} → ${statusBadge(NODE_STATUS_LABELS[ch.to], STATUS_COLORS[ch.to])}`
+    ));
+    body += section('Root causes identified', c.rootCausesIdentified.map(n => `<strong>${escapeHtml(n.label)}</strong>`));
+    body += section('New evidence', c.evidenceAdded.map(n =>
+      `<span style="color:#64748b">${escapeHtml(noteSubjectLabel(c.tree, n.referenceId))}:</span> ${escapeHtml(n.content)}${n.owner ? ` <span style="color:#94a3b8">— ${escapeHtml(n.owner)}</span>` : ''}`
+    ));
+    body += section('New actions', c.actionsAdded.map(a =>
+      `${escapeHtml(a.action)} <span style="color:#94a3b8">— ${escapeHtml(a.assignee || 'Unassigned')}${a.dueDate ? `, due ${a.dueDate}` : ''}</span>`
+    ));
+    body += section('Actions closed', c.actionsClosed.map(a => `${escapeHtml(a.action)} <span style="color:#94a3b8">(${a.status})</span>`));
+    body += section('Corrective action progress', c.resolutionProgress.map(p => {
+      const colors = REPORT_RESOLUTION_STATUS_COLORS[p.resolution.status];
+      const status = p.from === undefined
+        ? `<span style="color:#94a3b8">new</span> ${statusBadge(p.resolution.status, colors)}`
+        : p.from !== p.resolution.status
+          ? `${statusBadge(p.from, REPORT_RESOLUTION_STATUS_COLORS[p.from])} → ${statusBadge(p.resolution.status, colors)}`
+          : statusBadge(p.resolution.status, colors);
+      const updates = p.updates.map(u => `<div style="font-size:12px;color:#64748b;margin-top:2px">${escapeHtml(u.content)}</div>`).join('');
+      return `${escapeHtml(p.resolution.title)} ${status}${updates}`;
+    }));
+  }
+
+  return wrapInHtmlPage(`Meeting Minutes — ${new Date(session.startedAt).toLocaleDateString()}`, body);
+}
+
 export function openReportInNewTab(html: string): void {
   const newWindow = window.open('', '_blank');
   if (newWindow) {
@@ -355,3 +583,21 @@ export function openReportInNewTab(html: string): void {
     newWindow.document.close();
   }
 }
+
+// Open the tab synchronously (so popup blockers allow it) and fill it in once the
+// report, which may need to read attachments, is ready.
+export function openPendingReportInNewTab(html: Promise<string>): void {
+  const newWindow = window.open('', '_blank');
+  if (!newWindow) return;
+  newWindow.document.write('<p style="font-family:sans-serif;color:#64748b">Generating report…</p>');
+  html
+    .then(content => {
+      newWindow.document.open();
+      newWindow.document.write(content);
+      newWindow.document.close();
+    })
+    .catch(() => {
+      newWindow.close();
+      alert('Failed to generate report');
+    });
+}
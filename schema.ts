@@ -0,0 +1,501 @@
+import { ActionChecklist, ActionItem, AppState, AppStateV2, AuditEntry, CauseNode, ChecklistStep, InvestigationTemplate, Note, NoteAttachment, NodeStatus, NodeType, Project, ResolutionItem, ResolutionStatus, SavedTree, StatusWorkflow } from './types';
+import { DEFAULT_WORKFLOW, WORKFLOW_REQUIREMENTS, WORKFLOW_STATUSES, WorkflowEntity } from './workflow';
+
+// Versioned schema for saved investigations.
+//
+//   v1  original format, no `resolutions`
+//   v2  adds `resolutions`
+//   v3  `schemaVersion` stamped on every tree; `actions`/`notes` always present
+//
+// Each migration takes a tree at version N and returns it at version N + 1.
+export const CURRENT_TREE_SCHEMA_VERSION = 3;
+
+type TreeMigration = (tree: SavedTree) => SavedTree;
+
+const TREE_MIGRATIONS: Record<number, TreeMigration> = {
+  1: tree => ({ ...tree, resolutions: tree.resolutions ?? [] }),
+  2: tree => ({ ...tree, actions: tree.actions ?? [], notes: tree.notes ?? [] }),
+};
+
+function detectTreeVersion(tree: SavedTree): number {
+  if (typeof tree.schemaVersion === 'number') return tree.schemaVersion;
+  return Array.isArray(tree.resolutions) ? 2 : 1;
+}
+
+export class SchemaError extends Error {}
+
+// Bring a tree up to the current schema version. Throws SchemaError for trees
+// written by a newer version of the app or carrying a version that never existed.
+export function migrateTree<T extends SavedTree>(tree: T): T {
+  let version = detectTreeVersion(tree);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new SchemaError(`"${tree.name}" has an invalid schema version (${version}); expected a whole number from 1 to ${CURRENT_TREE_SCHEMA_VERSION}`);
+  }
+  if (version > CURRENT_TREE_SCHEMA_VERSION) {
+    throw new SchemaError(`"${tree.name}" was saved by a newer version of RCCA Helper (schema v${version})`);
+  }
+  let migrated: SavedTree = tree;
+  while (version < CURRENT_TREE_SCHEMA_VERSION) {
+    migrated = TREE_MIGRATIONS[version](migrated);
+    version++;
+  }
+  return { ...migrated, schemaVersion: CURRENT_TREE_SCHEMA_VERSION } as T;
+}
+
+// App state versions: v1 is a flat list of trees, v2 groups them into projects
+export const CURRENT_STATE_VERSION = 2;
+export const DEFAULT_PROJECT_ID = 'default-project';
+
+function migrateStateV1toV2(v1State: AppState): AppStateV2 {
+  const now = new Date().toISOString();
+
+  const defaultProject: Project = {
+    id: DEFAULT_PROJECT_ID,
+    name: 'Default Project',
+    description: 'Migrated investigations',
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  return {
+    version: 2,
+    activeProjectId: DEFAULT_PROJECT_ID,
+    activeTreeId: v1State.activeTreeId,
+    projects: [defaultProject],
+    trees: v1State.trees.map(tree => ({ ...tree, projectId: DEFAULT_PROJECT_ID })),
+  };
+}
+
+export function migrateAppState(raw: AppState | AppStateV2): AppStateV2 {
+  const state = 'version' in raw ? raw : migrateStateV1toV2(raw);
+  if (state.version > CURRENT_STATE_VERSION) {
+    throw new SchemaError(`Saved data is from a newer version of RCCA Helper (v${state.version})`);
+  }
+  return { ...state, trees: state.trees.map(migrateTree) };
+}
+
+// --- Validation ---
+
+export interface ValidationIssue {
+  entity: string;    // e.g. 'Action "Check torque"'
+  message: string;
+  repair: string;    // What auto-repair will do about it
+}
+
+export interface ValidationResult {
+  issues: ValidationIssue[];
+  repaired: SavedTree;
+}
+
+const NODE_STATUSES = new Set<string>(Object.values(NodeStatus));
+const NODE_TYPES = new Set<string>(Object.values(NodeType));
+const GATE_TYPES = new Set<string>(['AND', 'OR', 'K_OF_N']);
+const ACTION_STATUSES = new Set<string>(['Open', 'In Progress', 'Complete', 'Blocked', 'Closed']);
+const RESOLUTION_STATUSES = new Set<string>(['Open', 'In Progress', 'On Hold', 'Implemented', 'Verified', 'Closed']);
+const AUDIT_ENTITY_TYPES = new Set<string>(['node', 'action', 'note', 'resolution']);
+const AUDIT_CHANGES = new Set<string>(['create', 'update', 'delete']);
+
+function asString(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+// Check a (migrated) tree for invalid enum values, dangling references, duplicate
+// ids and malformed fields. Returns every problem plus a repaired copy of the tree,
+// so the caller can report the issues and import either version.
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+export function validateTree(tree: SavedTree): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  const seenIds = new Set<string>();
+
+  // Assign a fresh id when one is missing or already used by another entity
+  const uniqueId = (id: unknown, entity: string): string => {
+    if (typeof id !== 'string' || id === '') {
+      issues.push({ entity, message: 'Missing id', repair: 'Assign a new id' });
+      const fresh = crypto.randomUUID();
+      seenIds.add(fresh);
+      return fresh;
+    }
+    if (seenIds.has(id)) {
+      issues.push({ entity, message: `Duplicate id "${id}"`, repair: 'Assign a new id' });
+      const fresh = crypto.randomUUID();
+      seenIds.add(fresh);
+      return fresh;
+    }
+    seenIds.add(id);
+    return id;
+  };
+
+  const checkText = <T extends object>(item: T, fields: (keyof T)[], entity: string): T => {
+    const result = { ...item };
+    for (const field of fields) {
+      if (typeof result[field] !== 'string') {
+        issues.push({ entity, message: `Field "${String(field)}" is not text`, repair: 'Set it to empty text' });
+        (result as Record<keyof T, unknown>)[field] = '';
+      }
+    }
+    return result;
+  };
+
+  const checkNode = (node: CauseNode, parentId: string | null): CauseNode => {
+    const entity = `Cause "${asString(node.label) || '(unnamed)'}"`;
+    let result: CauseNode = checkText(node, ['label', 'description', 'rationale'], entity);
+    result.id = uniqueId(node.id, entity);
+
+    if (!NODE_STATUSES.has(node.status)) {
+      issues.push({ entity, message: `Unknown status "${node.status}"`, repair: 'Set status to Pending' });
+      result.status = NodeStatus.PENDING;
+    }
+    if (!NODE_TYPES.has(node.type)) {
+      issues.push({ entity, message: `Unknown type "${node.type}"`, repair: `Set type to ${parentId === null ? 'Issue' : 'Cause'}` });
+      result.type = parentId === null ? NodeType.ISSUE : NodeType.CAUSE;
+    }
+    if (node.gate !== undefined && !GATE_TYPES.has(node.gate)) {
+      issues.push({ entity, message: `Unknown logic gate "${node.gate}"`, repair: 'Use an OR gate' });
+      result.gate = undefined;
+    }
+    if (node.gateK !== undefined && (typeof node.gateK !== 'number' || !Number.isInteger(node.gateK) || node.gateK < 1)) {
+      issues.push({ entity, message: 'Gate threshold is not a positive whole number', repair: 'Require one child' });
+      result.gateK = 1;
+    }
+    if (node.probability !== undefined && (typeof node.probability !== 'number' || !(node.probability >= 0 && node.probability <= 1))) {
+      issues.push({ entity, message: 'Probability is not a number between 0 and 1', repair: 'Clear the probability' });
+      result.probability = undefined;
+    }
+    for (const field of ['risk', 'residualRisk'] as const) {
+      const rating = node[field];
+      if (rating === undefined) continue;
+      if (!rating || typeof rating !== 'object') {
+        issues.push({ entity, message: 'Risk rating is not a set of ratings', repair: 'Clear the rating' });
+        result[field] = undefined;
+        continue;
+      }
+      const invalid = (['severity', 'occurrence', 'detection'] as const).filter(key => {
+        const v = rating[key];
+        return v !== undefined && !(Number.isInteger(v) && v >= 1 && v <= 10);
+      });
+      if (invalid.length > 0) {
+        issues.push({ entity, message: `${invalid.join(', ')} rating is not a whole number from 1 to 10`, repair: 'Clear those ratings' });
+        result[field] = { ...rating, ...Object.fromEntries(invalid.map(key => [key, undefined])) };
+      }
+    }
+    if (node.parentId !== parentId) {
+      issues.push({ entity, message: 'Parent reference does not match its position in the tree', repair: 'Point it at its actual parent' });
+      result.parentId = parentId;
+    }
+    if (node.children !== undefined && !Array.isArray(node.children)) {
+      issues.push({ entity, message: 'Children is not a list', repair: 'Remove the invalid children' });
+      result = { ...result, children: [] };
+    }
+    if (Array.isArray(result.children)) {
+      result.children = result.children
+        .filter((child, i) => {
+          if (child && typeof child === 'object') return true;
+          issues.push({ entity, message: `Child #${i + 1} is not a cause`, repair: 'Remove it' });
+          return false;
+        })
+        // Children of a node whose id was regenerated follow it, instead of each being reported as misplaced
+        .map(child => checkNode(result.id !== node.id && child.parentId === node.id ? { ...child, parentId: result.id } : child, result.id));
+    }
+    return result;
+  };
+
+  const treeData = checkNode(tree.treeData, null);
+
+  const nodeIds = new Set<string>();
+  const collect = (node: CauseNode) => {
+    nodeIds.add(node.id);
+    node.children?.forEach(collect);
+  };
+  collect(treeData);
+
+  const arrayField = <T,>(value: T[] | undefined, name: string): T[] => {
+    if (!Array.isArray(value)) {
+      issues.push({ entity: 'Investigation', message: `"${name}" is not a list`, repair: 'Replace it with an empty list' });
+      return [];
+    }
+    return value.filter((item, i) => {
+      if (isRecord(item)) return true;
+      issues.push({ entity: 'Investigation', message: `Entry #${i + 1} of "${name}" is not an object`, repair: 'Remove it' });
+      return false;
+    });
+  };
+
+  const actions: ActionItem[] = arrayField(tree.actions, 'actions').map(action => {
+    const entity = `Action "${asString(action.action) || '(untitled)'}"`;
+    const result = checkText(action, ['action', 'rationale', 'assignee', 'assignedDate', 'dueDate'], entity);
+    result.id = uniqueId(action.id, entity);
+    if (!ACTION_STATUSES.has(action.status)) {
+      issues.push({ entity, message: `Unknown status "${action.status}"`, repair: 'Set status to Open' });
+      result.status = 'Open';
+    }
+    if (!nodeIds.has(action.causeId)) {
+      issues.push({ entity, message: 'Linked cause does not exist', repair: 'Link it to the problem statement' });
+      result.causeId = treeData.id;
+    }
+    if (action.predecessors !== undefined) {
+      if (!Array.isArray(action.predecessors)) {
+        issues.push({ entity, message: 'Dependencies is not a list', repair: 'Clear the dependencies' });
+        result.predecessors = undefined;
+      } else {
+        const valid = action.predecessors.filter(ref =>
+          ref && typeof ref === 'object' && typeof ref.actionId === 'string' && (ref.treeId === undefined || typeof ref.treeId === 'string'));
+        if (valid.length < action.predecessors.length) {
+          issues.push({ entity, message: 'Some dependencies are not links to an action', repair: 'Remove them' });
+          result.predecessors = valid;
+        }
+      }
+    }
+    return result;
+  });
+  const actionIds = new Set(actions.map(a => a.id));
+
+  const notes: Note[] = arrayField(tree.notes, 'notes').map(note => {
+    const entity = `Note "${asString(note.content).slice(0, 40) || '(empty)'}"`;
+    const result = checkText(note, ['content', 'owner', 'createdAt'], entity);
+    result.id = uniqueId(note.id, entity);
+    if (typeof note.isEvidence !== 'boolean') {
+      issues.push({ entity, message: 'Evidence flag is not true/false', repair: 'Treat as a regular note' });
+      result.isEvidence = false;
+    }
+    if (!nodeIds.has(note.referenceId) && !actionIds.has(note.referenceId)) {
+      issues.push({ entity, message: 'Referenced cause or action does not exist', repair: 'Attach it to the problem statement' });
+      result.referenceId = treeData.id;
+    }
+    if (note.attachments !== undefined) {
+      if (!Array.isArray(note.attachments)) {
+        issues.push({ entity, message: 'Attachments is not a list', repair: 'Clear the attachments' });
+        result.attachments = [];
+      } else {
+        const valid = note.attachments.filter(isAttachment);
+        if (valid.length < note.attachments.length) {
+          issues.push({ entity, message: 'Some attachments are not file references', repair: 'Remove them' });
+          result.attachments = valid;
+        }
+      }
+    }
+    return result;
+  });
+
+  const resolutions: ResolutionItem[] = arrayField(tree.resolutions, 'resolutions').map(resolution => {
+    const entity = `Corrective action "${asString(resolution.title) || '(untitled)'}"`;
+    const result = checkText(resolution, ['title', 'description', 'owner', 'targetDate', 'implementedDate', 'verificationMethod', 'verificationResults', 'verifiedDate'], entity);
+    result.id = uniqueId(resolution.id, entity);
+    if (!RESOLUTION_STATUSES.has(resolution.status)) {
+      issues.push({ entity, message: `Unknown status "${resolution.status}"`, repair: 'Set status to Open' });
+      result.status = 'Open' as ResolutionStatus;
+    }
+    if (!Array.isArray(resolution.linkedCauseIds)) {
+      issues.push({ entity, message: 'Linked root causes is not a list', repair: 'Clear the links' });
+      result.linkedCauseIds = [];
+    } else {
+      const valid = resolution.linkedCauseIds.filter(id => nodeIds.has(id));
+      const broken = resolution.linkedCauseIds.length - valid.length;
+      if (broken > 0) {
+        issues.push({ entity, message: `${broken} linked root cause${broken !== 1 ? 's do' : ' does'} not exist`, repair: 'Remove the broken links' });
+        result.linkedCauseIds = valid;
+      }
+    }
+    return result;
+  });
+
+  const optional: Pick<SavedTree, 'collapsedNodeIds' | 'auditLog'> = {};
+  if (tree.collapsedNodeIds !== undefined && !isStringList(tree.collapsedNodeIds)) {
+    issues.push({ entity: 'Investigation', message: 'Collapsed causes is not a list of ids', repair: 'Remove the invalid entries' });
+    const ids: unknown[] = Array.isArray(tree.collapsedNodeIds) ? tree.collapsedNodeIds : [];
+    optional.collapsedNodeIds = ids.filter((id): id is string => typeof id === 'string');
+  }
+  if (tree.auditLog !== undefined) {
+    const log = Array.isArray(tree.auditLog) ? tree.auditLog : [];
+    optional.auditLog = log.filter(isAuditEntry);
+    if (!Array.isArray(tree.auditLog)) {
+      issues.push({ entity: 'Investigation', message: 'Audit trail is not a list', repair: 'Start an empty audit trail' });
+    } else if (optional.auditLog.length < log.length) {
+      const dropped = log.length - optional.auditLog.length;
+      issues.push({ entity: 'Investigation', message: `${dropped} audit trail entr${dropped !== 1 ? 'ies are' : 'y is'} malformed`, repair: 'Remove them' });
+    }
+  }
+
+  return {
+    issues,
+    repaired: { ...tree, treeData, actions, notes, resolutions, ...optional },
+  };
+}
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'string');
+
+function isAttachment(value: unknown): value is NoteAttachment {
+  return isRecord(value) &&
+    (['id', 'name', 'mimeType', 'createdAt'] as const).every(key => typeof value[key] === 'string') &&
+    typeof value.size === 'number';
+}
+
+function isAuditEntry(value: unknown): value is AuditEntry {
+  return isRecord(value) &&
+    (['id', 'timestamp', 'author', 'entityId', 'entityLabel', 'field', 'oldValue', 'newValue'] as const).every(key => typeof value[key] === 'string') &&
+    AUDIT_ENTITY_TYPES.has(value.entityType as string) &&
+    AUDIT_CHANGES.has(value.change as string) &&
+    isStringList(value.relatedNodeIds);
+}
+
+export interface ProjectValidationResult {
+  issues: ValidationIssue[];
+  repaired: Project;
+}
+
+// Check the project-level settings of an imported project: team roster, templates,
+// checklists and status workflow. Like validateTree, returns the problems and a
+// repaired copy; entries that cannot be salvaged are dropped.
+export function validateProject(project: Project): ProjectValidationResult {
+  const issues: ValidationIssue[] = [];
+  const repaired: Project = { ...project };
+
+  if (typeof project.name !== 'string' || !project.name.trim()) {
+    issues.push({ entity: 'Project', message: 'Name is missing', repair: 'Name it "Imported Project"' });
+    repaired.name = 'Imported Project';
+  }
+  if (project.description !== undefined && typeof project.description !== 'string') {
+    issues.push({ entity: 'Project', message: 'Description is not text', repair: 'Clear the description' });
+    repaired.description = undefined;
+  }
+
+  const listField = <K extends 'members' | 'templates' | 'checklists'>(key: K, label: string): unknown[] | undefined => {
+    const value = project[key];
+    if (value === undefined) return undefined;
+    if (Array.isArray(value)) return value;
+    issues.push({ entity: 'Project', message: `${label} is not a list`, repair: 'Clear it' });
+    return [];
+  };
+
+  const members = listField('members', 'Team roster');
+  if (members) {
+    repaired.members = members.filter((m): m is string => typeof m === 'string' && m.trim() !== '');
+    if (repaired.members.length < members.length) {
+      issues.push({ entity: 'Team roster', message: 'Some members are not names', repair: 'Remove them' });
+    }
+  }
+
+  const templates = listField('templates', 'Templates');
+  if (templates) {
+    let unlabeled = 0;
+    const templateNode = (value: unknown): CauseNode | null => {
+      if (!isRecord(value) || typeof value.label !== 'string') {
+        unlabeled++;
+        return null;
+      }
+      return {
+        id: '',
+        parentId: null,
+        label: value.label,
+        description: asString(value.description),
+        rationale: asString(value.rationale),
+        status: NodeStatus.PENDING,
+        type: NODE_TYPES.has(value.type as string) ? value.type as NodeType : NodeType.CAUSE,
+        children: (Array.isArray(value.children) ? value.children : []).map(templateNode).filter((n): n is CauseNode => n !== null),
+      };
+    };
+    repaired.templates = templates.flatMap((value, i): InvestigationTemplate[] => {
+      if (!isRecord(value) || typeof value.name !== 'string' || !Array.isArray(value.nodes)) {
+        issues.push({ entity: `Template #${i + 1}`, message: 'Not a template with a name and causes', repair: 'Remove it' });
+        return [];
+      }
+      unlabeled = 0;
+      const nodes = value.nodes.map(templateNode).filter((n): n is CauseNode => n !== null);
+      if (unlabeled > 0) {
+        issues.push({ entity: `Template "${value.name}"`, message: 'Some causes have no label', repair: 'Remove them' });
+      }
+      return [{
+        id: typeof value.id === 'string' && value.id ? value.id : crypto.randomUUID(),
+        name: value.name,
+        description: asString(value.description),
+        nodes,
+        createdAt: asString(value.createdAt),
+      }];
+    });
+  }
+
+  const checklists = listField('checklists', 'Checklists');
+  if (checklists) {
+    repaired.checklists = checklists.flatMap((value, i): ActionChecklist[] => {
+      if (!isRecord(value) || typeof value.name !== 'string' || !Array.isArray(value.steps)) {
+        issues.push({ entity: `Checklist #${i + 1}`, message: 'Not a checklist with a name and steps', repair: 'Remove it' });
+        return [];
+      }
+      const entity = `Checklist "${value.name}"`;
+      const steps = value.steps.flatMap((step): ChecklistStep[] => {
+        if (!isRecord(step) || typeof step.action !== 'string') return [];
+        const days = step.dueInDays;
+        return [{
+          id: typeof step.id === 'string' && step.id ? step.id : crypto.randomUUID(),
+          action: step.action,
+          rationale: asString(step.rationale),
+          dueInDays: typeof days === 'number' && Number.isInteger(days) && days >= 0 ? days : null,
+        }];
+      });
+      if (steps.length < value.steps.length) {
+        issues.push({ entity, message: 'Some steps have no action', repair: 'Remove them' });
+      }
+      const appliesTo = Array.isArray(value.appliesTo) ? value.appliesTo.filter((l): l is string => typeof l === 'string') : [];
+      if (value.appliesTo !== undefined && (!Array.isArray(value.appliesTo) || appliesTo.length < value.appliesTo.length)) {
+        issues.push({ entity, message: '"Suggested for" is not a list of labels', repair: 'Keep only the text labels' });
+      }
+      return [{
+        id: typeof value.id === 'string' && value.id ? value.id : crypto.randomUUID(),
+        name: value.name,
+        description: asString(value.description),
+        appliesTo,
+        steps,
+        createdAt: asString(value.createdAt),
+        updatedAt: asString(value.updatedAt),
+      }];
+    });
+  }
+
+  if (project.workflow !== undefined) {
+    if (!isRecord(project.workflow)) {
+      issues.push({ entity: 'Workflow', message: 'Not a workflow definition', repair: 'Use the default workflow' });
+      repaired.workflow = undefined;
+    } else {
+      const workflow = project.workflow as unknown as Record<string, unknown>;
+      // Keep only known statuses and requirements; an unreadable rule set falls back to the default
+      const statusRules = (entity: WorkflowEntity): StatusWorkflow => {
+        const rules = workflow[entity];
+        const statuses = WORKFLOW_STATUSES[entity];
+        const requirements = Object.keys(WORKFLOW_REQUIREMENTS[entity]);
+        if (!isRecord(rules) || !isRecord(rules.transitions) || !isRecord(rules.required)) {
+          issues.push({ entity: 'Workflow', message: `The ${entity} rules are malformed`, repair: 'Use the default rules for them' });
+          return DEFAULT_WORKFLOW[entity];
+        }
+        let dropped = false;
+        const clean = (map: Record<string, unknown>, allowed: string[]) => Object.fromEntries(
+          Object.entries(map).flatMap(([status, list]) => {
+            const valid = Array.isArray(list) ? list.filter((v): v is string => allowed.includes(v)) : [];
+            if (!statuses.includes(status) || !Array.isArray(list) || valid.length < list.length) dropped = true;
+            return statuses.includes(status) ? [[status, valid]] : [];
+          })
+        );
+        const result = { transitions: clean(rules.transitions, statuses), required: clean(rules.required, requirements) };
+        if (dropped) {
+          issues.push({ entity: 'Workflow', message: `The ${entity} rules name unknown statuses or requirements`, repair: 'Remove them' });
+        }
+        return result;
+      };
+      repaired.workflow = {
+        cause: statusRules('cause'),
+        action: statusRules('action'),
+        resolution: statusRules('resolution'),
+      };
+    }
+  }
+
+  return { issues, repaired };
+}
+
+// Structural check used before migration: anything failing this cannot be repaired
+export function isTreeLike(value: unknown): value is SavedTree {
+  if (!value || typeof value !== 'object') return false;
+  const tree = value as Partial<SavedTree>;
+  return typeof tree.id === 'string' && typeof tree.name === 'string' && !!tree.treeData && typeof tree.treeData === 'object';
+}
@@ -0,0 +1,141 @@
+import { SavedTree } from './types';
+import { flattenTree } from './treeUtils';
+
+export type SearchResultKind = 'node' | 'note' | 'action' | 'resolution';
+
+export interface SearchResult {
+  id: string;
+  kind: SearchResultKind;
+  treeId: string;
+  treeName: string;
+  entityId: string;
+  nodeId: string | null;   // Cause node to navigate to, if any
+  title: string;
+  field: string;           // Field the first term was found in
+  snippet: string;
+}
+
+interface SearchableField {
+  name: string;
+  value: string;
+}
+
+interface SearchableEntity {
+  kind: SearchResultKind;
+  entityId: string;
+  nodeId: string | null;
+  title: string;
+  fields: SearchableField[];
+}
+
+const SNIPPET_RADIUS = 40;
+
+function buildSnippet(text: string, term: string): string {
+  const flat = text.replace(/\s+/g, ' ');
+  const index = flat.toLowerCase().indexOf(term);
+  if (index === -1) return flat.slice(0, SNIPPET_RADIUS * 2);
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(flat.length, index + term.length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+}
+
+function collectEntities(tree: SavedTree): SearchableEntity[] {
+  const nodes = flattenTree(tree.treeData);
+  const nodeIds = new Set(nodes.map(n => n.id));
+  const actionCause = new Map(tree.actions.map(a => [a.id, a.causeId]));
+  const entities: SearchableEntity[] = [];
+
+  for (const node of nodes) {
+    entities.push({
+      kind: 'node',
+      entityId: node.id,
+      nodeId: node.id,
+      title: node.label,
+      fields: [
+        { name: 'Label', value: node.label },
+        { name: 'Description', value: node.description },
+        { name: 'Rationale', value: node.rationale ?? '' },
+      ],
+    });
+  }
+
+  for (const note of tree.notes) {
+    // Notes can reference a cause or an action
+    const nodeId = nodeIds.has(note.referenceId) ? note.referenceId : actionCause.get(note.referenceId) ?? null;
+    entities.push({
+      kind: 'note',
+      entityId: note.id,
+      nodeId,
+      title: note.isEvidence ? 'Evidence note' : 'Note',
+      fields: [
+        { name: 'Content', value: note.content },
+        { name: 'Owner', value: note.owner },
+      ],
+    });
+  }
+
+  for (const action of tree.actions) {
+    entities.push({
+      kind: 'action',
+      entityId: action.id,
+      nodeId: action.causeId,
+      title: action.action,
+      fields: [
+        { name: 'Action', value: action.action },
+        { name: 'Rationale', value: action.rationale },
+        { name: 'Assignee', value: action.assignee },
+        ...(action.updates ?? []).map(u => ({ name: 'Update', value: u.content })),
+      ],
+    });
+  }
+
+  for (const resolution of tree.resolutions ?? []) {
+    entities.push({
+      kind: 'resolution',
+      entityId: resolution.id,
+      nodeId: resolution.linkedCauseIds[0] ?? null,
+      title: resolution.title,
+      fields: [
+        { name: 'Title', value: resolution.title },
+        { name: 'Description', value: resolution.description },
+        { name: 'Owner', value: resolution.owner },
+        { name: 'Verification Method', value: resolution.verificationMethod },
+        { name: 'Verification Results', value: resolution.verificationResults },
+        ...(resolution.updates ?? []).map(u => ({ name: 'Update', value: u.content })),
+      ],
+    });
+  }
+
+  return entities;
+}
+
+// Case-insensitive search. Every whitespace-separated term must appear somewhere
+// in the entity's fields; the snippet is taken from the field matching the first term.
+export function searchTrees(trees: SavedTree[], query: string, limit: number = 200): SearchResult[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const results: SearchResult[] = [];
+  for (const tree of trees) {
+    for (const entity of collectEntities(tree)) {
+      const haystack = entity.fields.map(f => f.value.toLowerCase());
+      if (!terms.every(term => haystack.some(value => value.includes(term)))) continue;
+
+      const matchIndex = haystack.findIndex(value => value.includes(terms[0]));
+      const field = entity.fields[matchIndex];
+      results.push({
+        id: `${tree.id}:${entity.kind}:${entity.entityId}`,
+        kind: entity.kind,
+        treeId: tree.id,
+        treeName: tree.name,
+        entityId: entity.entityId,
+        nodeId: entity.nodeId,
+        title: entity.title || '(untitled)',
+        field: field.name,
+        snippet: buildSnippet(field.value, terms[0]),
+      });
+      if (results.length >= limit) return results;
+    }
+  }
+  return results;
+}
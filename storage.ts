@@ -0,0 +1,160 @@
+import { AppStateV2, Project, SavedTreeV2 } from './types';
+import { PROJECTS_STORE, TREES_STORE, META_STORE, IdbWrite, idbGet, idbGetAll, idbWriteBatch } from './idb';
+import { loadLegacyAppState, clearLegacyAppState } from './persistence';
+import { migrateTree } from './schema';
+
+// App state lives in IndexedDB as one record per project and per investigation,
+// plus a small meta record for the selection and ordering. Saves only write the records whose
+// objects changed since the last successful save; state updates are immutable, so
+// an identity check is enough to detect a change.
+
+const META_KEY = 'app';
+
+interface StoredMeta {
+  version: 2;
+  activeProjectId: string | null;
+  activeTreeId: string | null;
+  projectOrder: string[];
+  treeOrder: string[];
+}
+
+interface SavedSnapshot {
+  projects: Map<string, Project>;
+  trees: Map<string, SavedTreeV2>;
+  meta: StoredMeta | null;
+}
+
+let lastSaved: SavedSnapshot = { projects: new Map(), trees: new Map(), meta: null };
+let saveQueue: Promise<void> = Promise.resolve();
+
+function metaOf(state: AppStateV2): StoredMeta {
+  return {
+    version: 2,
+    activeProjectId: state.activeProjectId,
+    activeTreeId: state.activeTreeId,
+    projectOrder: state.projects.map(p => p.id),
+    treeOrder: state.trees.map(t => t.id),
+  };
+}
+
+function snapshotOf(state: AppStateV2): SavedSnapshot {
+  return {
+    projects: new Map(state.projects.map(p => [p.id, p])),
+    trees: new Map(state.trees.map(t => [t.id, t])),
+    meta: metaOf(state),
+  };
+}
+
+function sameMeta(a: StoredMeta | null, b: StoredMeta): boolean {
+  return !!a &&
+    a.activeProjectId === b.activeProjectId &&
+    a.activeTreeId === b.activeTreeId &&
+    a.projectOrder.join() === b.projectOrder.join() &&
+    a.treeOrder.join() === b.treeOrder.join();
+}
+
+function sortByOrder<T extends { id: string }>(items: T[], order: string[]): T[] {
+  const index = new Map(order.map((id, i) => [id, i]));
+  return items.sort((a, b) => (index.get(a.id) ?? Infinity) - (index.get(b.id) ?? Infinity));
+}
+
+function diffRecords<T extends { id: string }>(storeName: string, previous: Map<string, T>, next: T[]): IdbWrite[] {
+  const writes: IdbWrite[] = [];
+  const nextIds = new Set<string>();
+  for (const item of next) {
+    nextIds.add(item.id);
+    if (previous.get(item.id) !== item) writes.push({ storeName, key: item.id, value: item });
+  }
+  for (const id of previous.keys()) {
+    if (!nextIds.has(id)) writes.push({ storeName, key: id });
+  }
+  return writes;
+}
+
+function writeFullState(state: AppStateV2): Promise<void> {
+  return idbWriteBatch([
+    ...state.projects.map(p => ({ storeName: PROJECTS_STORE, key: p.id, value: p })),
+    ...state.trees.map(t => ({ storeName: TREES_STORE, key: t.id, value: t })),
+    { storeName: META_STORE, key: META_KEY, value: metaOf(state) },
+  ]);
+}
+
+let loadPromise: Promise<AppStateV2 | null> | null = null;
+
+// Load the stored state. On first run after the switch to IndexedDB the state is
+// moved over from the old localStorage key, which is then removed. Concurrent
+// callers share one load so the migration cannot run twice.
+export function loadStoredState(): Promise<AppStateV2 | null> {
+  if (!loadPromise) {
+    loadPromise = readStoredState().catch(err => {
+      loadPromise = null;
+      throw err;
+    });
+  }
+  return loadPromise;
+}
+
+async function readStoredState(): Promise<AppStateV2 | null> {
+  const meta = await idbGet<StoredMeta>(META_STORE, META_KEY);
+
+  if (!meta) {
+    const legacy = loadLegacyAppState();
+    if (!legacy) return null;
+    await writeFullState(legacy);
+    clearLegacyAppState();
+    lastSaved = snapshotOf(legacy);
+    return legacy;
+  }
+
+  const [projects, trees] = await Promise.all([
+    idbGetAll<Project>(PROJECTS_STORE),
+    idbGetAll<SavedTreeV2>(TREES_STORE),
+  ]);
+  const state: AppStateV2 = {
+    version: 2,
+    activeProjectId: meta.activeProjectId,
+    activeTreeId: meta.activeTreeId,
+    projects: sortByOrder(projects, meta.projectOrder),
+    trees: sortByOrder(trees, meta.treeOrder).map(migrateTree),
+  };
+  lastSaved = snapshotOf(state);
+  return state;
+}
+
+// Persist only what changed since the previous save. Saves run one at a time so a
+// slow write can never be overtaken by an older state.
+export function saveStateIncremental(state: AppStateV2): Promise<void> {
+  const run = async () => {
+    const writes = [
+      ...diffRecords(PROJECTS_STORE, lastSaved.projects, state.projects),
+      ...diffRecords(TREES_STORE, lastSaved.trees, state.trees),
+    ];
+    const meta = metaOf(state);
+    if (!sameMeta(lastSaved.meta, meta)) {
+      writes.push({ storeName: META_STORE, key: META_KEY, value: meta });
+    }
+    await idbWriteBatch(writes);
+    lastSaved = snapshotOf(state);
+  };
+  saveQueue = saveQueue.catch(() => undefined).then(run);
+  return saveQueue;
+}
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+  persisted: boolean;
+}
+
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  const persisted = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+  return { usage, quota, persisted };
+}
+
+// Ask the browser not to evict our data under storage pressure
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (!navigator.storage?.persist) return false;
+  return navigator.storage.persist();
+}
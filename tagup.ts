@@ -0,0 +1,95 @@
+import { ActionItem, ResolutionItem, SavedTree } from './types';
+import { isOverdue, isOverdueDate, isDueThisWeek } from './treeUtils';
+
+// Daily tagup: a facilitated walk through every unresolved investigation in the project,
+// covering the actions and corrective actions that are overdue or due this week.
+
+export type TagupItemKind = 'action' | 'resolution';
+
+export interface TagupItemRef {
+  key: string;               // Unique across the meeting
+  kind: TagupItemKind;
+  id: string;
+}
+
+export interface TagupAgendaEntry {
+  treeId: string;
+  items: TagupItemRef[];
+}
+
+export interface TagupStatusChange {
+  from: string;
+  to: string;
+}
+
+// What happened to one item during the meeting
+export interface TagupItemRecord {
+  seconds: number;
+  updates: string[];
+  statusChanges: TagupStatusChange[];
+}
+
+export interface TagupSession {
+  startedAt: string;
+  endedAt?: string;
+  facilitator: string;
+  timeboxSeconds: number;    // Per item; the timer turns red once exceeded
+  agenda: TagupAgendaEntry[];
+  currentIndex: number;      // Agenda entry on screen
+  activeItemKey: string | null;
+  records: Record<string, TagupItemRecord>;
+}
+
+export const TIMEBOX_OPTIONS = [60, 120, 180, 300];
+
+export const emptyTagupRecord = (): TagupItemRecord => ({ seconds: 0, updates: [], statusChanges: [] });
+
+export function isActionDue(action: ActionItem): boolean {
+  return isOverdue(action.dueDate, action.status) ||
+    (isDueThisWeek(action.dueDate) && action.status !== 'Complete' && action.status !== 'Closed');
+}
+
+export function isResolutionDue(resolution: ResolutionItem): boolean {
+  return isOverdueDate(resolution.targetDate, resolution.status) ||
+    (isDueThisWeek(resolution.targetDate) && resolution.status !== 'Verified' && resolution.status !== 'Closed');
+}
+
+const byDate = (a: string, b: string) => new Date(a).getTime() - new Date(b).getTime();
+
+// Unresolved investigations with something to discuss, items ordered by due date (overdue first)
+export function buildTagupAgenda(trees: SavedTree[]): TagupAgendaEntry[] {
+  return trees
+    .filter(tree => !tree.isResolved)
+    .map(tree => ({
+      treeId: tree.id,
+      items: [
+        ...tree.actions
+          .filter(isActionDue)
+          .sort((a, b) => byDate(a.dueDate, b.dueDate))
+          .map(a => ({ key: `${tree.id}:action:${a.id}`, kind: 'action' as const, id: a.id })),
+        ...(tree.resolutions ?? [])
+          .filter(isResolutionDue)
+          .sort((a, b) => byDate(a.targetDate, b.targetDate))
+          .map(r => ({ key: `${tree.id}:resolution:${r.id}`, kind: 'resolution' as const, id: r.id })),
+      ],
+    }))
+    .filter(entry => entry.items.length > 0);
+}
+
+export function createTagupSession(trees: SavedTree[], facilitator: string, timeboxSeconds: number): TagupSession {
+  return {
+    startedAt: new Date().toISOString(),
+    facilitator,
+    timeboxSeconds,
+    agenda: buildTagupAgenda(trees),
+    currentIndex: 0,
+    activeItemKey: null,
+    records: {},
+  };
+}
+
+export function formatDuration(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${String(s).padStart(2, '0')}`;
+}
@@ -0,0 +1,126 @@
+import { CauseNode, InvestigationTemplate, NodeStatus, NodeType } from './types';
+import { createInitialTree } from './constants';
+
+// Compact outline used to declare the built-in templates
+interface OutlineNode {
+  label: string;
+  description?: string;
+  children?: OutlineNode[];
+}
+
+function fromOutline(outline: OutlineNode, type: NodeType): CauseNode {
+  return {
+    id: '',
+    parentId: null,
+    label: outline.label,
+    description: outline.description ?? '',
+    rationale: '',
+    status: NodeStatus.PENDING,
+    type,
+    children: (outline.children ?? []).map(child => fromOutline(child, NodeType.CAUSE)),
+  };
+}
+
+function builtIn(id: string, name: string, description: string, categories: OutlineNode[]): InvestigationTemplate {
+  return {
+    id,
+    name,
+    description,
+    nodes: categories.map(c => fromOutline(c, NodeType.CATEGORY)),
+    createdAt: '',
+  };
+}
+
+export const BLANK_TEMPLATE_ID = 'builtin:blank';
+
+export const BUILT_IN_TEMPLATES: InvestigationTemplate[] = [
+  builtIn(BLANK_TEMPLATE_ID, 'Blank', 'Start from a single problem statement.', []),
+  builtIn('builtin:6m', '6M (Ishikawa)', 'The six classic fishbone categories for manufacturing and process problems.', [
+    { label: 'Man', description: 'People: training, skills, fatigue, communication.' },
+    { label: 'Machine', description: 'Equipment, tooling and their maintenance.' },
+    { label: 'Method', description: 'Procedures, work instructions and process parameters.' },
+    { label: 'Material', description: 'Raw materials, components and consumables.' },
+    { label: 'Measurement', description: 'Inspection, gauges, calibration and data.' },
+    { label: 'Environment', description: 'Temperature, humidity, cleanliness, lighting.' },
+  ]),
+  builtIn('builtin:8d', '8D Root Cause (D4)', 'The D4 structure of an 8D report: why it happened, why it escaped, and the systemic gap.', [
+    {
+      label: 'Occurrence',
+      description: 'Why did the problem occur?',
+      children: [
+        { label: 'Design / specification' },
+        { label: 'Process / manufacturing' },
+        { label: 'Supplier' },
+      ],
+    },
+    {
+      label: 'Non-detection (escape)',
+      description: 'Why was the problem not detected before it reached the customer?',
+      children: [
+        { label: 'Inspection / test coverage' },
+        { label: 'Control plan' },
+      ],
+    },
+    {
+      label: 'Systemic',
+      description: 'Which management system or practice allowed the occurrence and the escape?',
+      children: [
+        { label: 'Lessons learned not applied' },
+        { label: 'Change management' },
+      ],
+    },
+  ]),
+  builtIn('builtin:software-incident', 'Software Incident', 'Common contributing factors for outages and production defects.', [
+    { label: 'Code Change', description: 'Recent commits, feature flags and merges.', children: [{ label: 'Untested edge case' }, { label: 'Regression' }] },
+    { label: 'Deployment', description: 'Release process, rollout and rollback.' },
+    { label: 'Configuration', description: 'Environment variables, secrets and config drift.' },
+    { label: 'Infrastructure', description: 'Compute, network, storage and capacity.' },
+    { label: 'Dependencies', description: 'Third-party services, libraries and upstream APIs.' },
+    { label: 'Data', description: 'Schema changes, migrations and bad input.' },
+    { label: 'Detection & Response', description: 'Monitoring, alerting and on-call runbooks.' },
+  ]),
+];
+
+export function isBuiltInTemplate(template: InvestigationTemplate): boolean {
+  return template.id.startsWith('builtin:');
+}
+
+// Copy a subtree with fresh ids and investigation state reset, so it can be reused
+function cloneAsPending(node: CauseNode, parentId: string | null): CauseNode {
+  const id = crypto.randomUUID();
+  return {
+    id,
+    parentId,
+    label: node.label,
+    description: node.description,
+    rationale: node.rationale,
+    status: NodeStatus.PENDING,
+    type: node.type,
+    children: (node.children ?? []).map(child => cloneAsPending(child, id)),
+  };
+}
+
+// Build the tree for a new investigation from a template
+export function instantiateTemplate(template: InvestigationTemplate, issueLabel: string): CauseNode {
+  const root = createInitialTree(issueLabel);
+  return { ...root, children: template.nodes.map(node => cloneAsPending(node, root.id)) };
+}
+
+// Capture a branch as a template. Saving the problem statement itself keeps its
+// children (the statement is replaced by the new investigation's own); any other
+// node becomes a single top-level entry.
+export function createTemplateFromBranch(node: CauseNode, name: string, description: string = ''): InvestigationTemplate {
+  const nodes = node.type === NodeType.ISSUE ? node.children ?? [] : [node];
+  return {
+    id: crypto.randomUUID(),
+    name,
+    description,
+    nodes: nodes.map(n => cloneAsPending(n, null)),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export function countTemplateNodes(template: InvestigationTemplate): number {
+  const count = (node: CauseNode): number => 1 + (node.children ?? []).reduce((sum, c) => sum + count(c), 0);
+  return template.nodes.reduce((sum, n) => sum + count(n), 0);
+}
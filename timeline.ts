@@ -0,0 +1,171 @@
+import { ActionItem, ActionUpdate, ResolutionItem, SavedTree } from './types';
+import { isOverdue, isOverdueDate } from './treeUtils';
+
+// Timeline (Gantt) of actions and corrective actions. Dates are calendar days
+// (YYYY-MM-DD) handled in local time so a bar never shifts across time zones.
+
+export type TimelineItemKind = 'action' | 'resolution';
+
+// Date fields that can be moved by dragging a bar end
+export type RescheduleField = 'assignedDate' | 'dueDate' | 'targetDate';
+
+export interface TimelineMilestone {
+  label: string;
+  date: string;
+}
+
+export interface TimelineItem {
+  key: string;
+  treeId: string;
+  kind: TimelineItemKind;
+  id: string;
+  label: string;
+  owner: string;
+  status: string;
+  causeIds: string[];
+  start: string;
+  end: string;
+  startField: RescheduleField | null;   // Null when the start cannot be dragged
+  endField: RescheduleField;
+  isOverdue: boolean;
+  isDone: boolean;
+  milestones: TimelineMilestone[];
+}
+
+export interface RescheduleChange {
+  treeId: string;
+  kind: TimelineItemKind;
+  id: string;
+  field: RescheduleField;
+  date: string;
+}
+
+const FIELD_LABELS: Record<RescheduleField, string> = {
+  assignedDate: 'start date',
+  dueDate: 'due date',
+  targetDate: 'target date',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function parseDay(value: string): Date {
+  const [y, m, d] = value.slice(0, 10).split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
+
+export function formatDay(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+export function addDays(day: string, days: number): string {
+  const date = parseDay(day);
+  date.setDate(date.getDate() + days);
+  return formatDay(date);
+}
+
+// Whole days from a to b (rounded, so daylight saving changes do not matter)
+export function daysBetween(a: string, b: string): number {
+  return Math.round((parseDay(b).getTime() - parseDay(a).getTime()) / DAY_MS);
+}
+
+export const today = (): string => formatDay(new Date());
+
+function actionItem(treeId: string, action: ActionItem): TimelineItem | null {
+  if (!action.dueDate) return null;
+  const start = action.assignedDate && action.assignedDate <= action.dueDate ? action.assignedDate : action.dueDate;
+  return {
+    key: `${treeId}:action:${action.id}`,
+    treeId,
+    kind: 'action',
+    id: action.id,
+    label: action.action,
+    owner: action.assignee,
+    status: action.status,
+    causeIds: [action.causeId],
+    start,
+    end: action.dueDate,
+    startField: 'assignedDate',
+    endField: 'dueDate',
+    isOverdue: isOverdue(action.dueDate, action.status),
+    isDone: action.status === 'Complete' || action.status === 'Closed',
+    milestones: [],
+  };
+}
+
+function resolutionItem(treeId: string, resolution: ResolutionItem): TimelineItem | null {
+  if (!resolution.targetDate) return null;
+  const created = resolution.createdAt ? resolution.createdAt.slice(0, 10) : resolution.targetDate;
+  return {
+    key: `${treeId}:resolution:${resolution.id}`,
+    treeId,
+    kind: 'resolution',
+    id: resolution.id,
+    label: resolution.title,
+    owner: resolution.owner,
+    status: resolution.status,
+    causeIds: resolution.linkedCauseIds,
+    start: created <= resolution.targetDate ? created : resolution.targetDate,
+    end: resolution.targetDate,
+    startField: null,
+    endField: 'targetDate',
+    isOverdue: isOverdueDate(resolution.targetDate, resolution.status),
+    isDone: resolution.status === 'Verified' || resolution.status === 'Closed',
+    milestones: [
+      ...(resolution.implementedDate ? [{ label: 'Implemented', date: resolution.implementedDate.slice(0, 10) }] : []),
+      ...(resolution.verifiedDate ? [{ label: 'Verified', date: resolution.verifiedDate.slice(0, 10) }] : []),
+    ],
+  };
+}
+
+export interface TimelineRows {
+  items: TimelineItem[];
+  unscheduled: { treeId: string; kind: TimelineItemKind; id: string; label: string }[];
+}
+
+export function buildTimeline(trees: SavedTree[]): TimelineRows {
+  const items: TimelineItem[] = [];
+  const unscheduled: TimelineRows['unscheduled'] = [];
+  for (const tree of trees) {
+    for (const action of tree.actions) {
+      const item = actionItem(tree.id, action);
+      if (item) items.push(item);
+      else unscheduled.push({ treeId: tree.id, kind: 'action', id: action.id, label: action.action });
+    }
+    for (const resolution of tree.resolutions ?? []) {
+      const item = resolutionItem(tree.id, resolution);
+      if (item) items.push(item);
+      else unscheduled.push({ treeId: tree.id, kind: 'resolution', id: resolution.id, label: resolution.title });
+    }
+  }
+  return { items, unscheduled };
+}
+
+// Moves one date and records the move in the item's update log
+export function applyReschedule(tree: SavedTree, change: RescheduleChange, author: string): SavedTree {
+  const note = (from: string, to: string): ActionUpdate => ({
+    id: crypto.randomUUID(),
+    content: `Rescheduled ${FIELD_LABELS[change.field]} from ${from || 'unset'} to ${to}`,
+    createdAt: new Date().toISOString(),
+    author: author || undefined,
+  });
+
+  if (change.kind === 'action') {
+    const field = change.field as 'assignedDate' | 'dueDate';
+    return {
+      ...tree,
+      actions: tree.actions.map(a => a.id === change.id && a[field] !== change.date
+        ? { ...a, [field]: change.date, updates: [...(a.updates ?? []), note(a[field], change.date)] }
+        : a),
+    };
+  }
+  return {
+    ...tree,
+    resolutions: (tree.resolutions ?? []).map(r => r.id === change.id && r.targetDate !== change.date
+      ? { ...r, targetDate: change.date, updatedAt: new Date().toISOString(), updates: [...(r.updates ?? []), note(r.targetDate, change.date)] }
+      : r),
+  };
+}
+
+export function describeReschedule(change: RescheduleChange): string {
+  return `Reschedule ${change.kind === 'action' ? 'action' : 'resolution'} ${FIELD_LABELS[change.field]} to ${change.date}`;
+}
@@ -1,4 +1,4 @@
-import { CauseNode, SavedTree, ActionItem, ResolutionItem, NodeStatus } from './types';
+import { CauseNode, SavedTree, ActionItem, ResolutionItem, NodeStatus, NodeType, GateType } from './types';
 
 export interface TreeStats {
   totalNodes: number;
@@ -23,6 +23,245 @@ export function flattenTree(node: CauseNode): CauseNode[] {
   return result;
 }
 
+export function findNodeById(root: CauseNode, id: string): CauseNode | null {
+  if (root.id === id) return root;
+  if (root.children) {
+    for (const child of root.children) {
+      const found = findNodeById(child, id);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+// True if `nodeId` is `ancestorId` itself or sits anywhere beneath it
+export function isSameOrDescendant(root: CauseNode, ancestorId: string, nodeId: string): boolean {
+  const ancestor = findNodeById(root, ancestorId);
+  if (!ancestor) return false;
+  return findNodeById(ancestor, nodeId) !== null;
+}
+
+export function removeSubtree(root: CauseNode, nodeId: string): CauseNode {
+  if (!root.children) return root;
+  return {
+    ...root,
+    children: root.children
+      .filter(child => child.id !== nodeId)
+      .map(child => removeSubtree(child, nodeId))
+  };
+}
+
+export function insertSubtree(root: CauseNode, parentId: string, subtree: CauseNode): CauseNode {
+  if (root.id === parentId) {
+    return {
+      ...root,
+      children: [...(root.children || []), { ...subtree, parentId }]
+    };
+  }
+  if (root.children) {
+    return {
+      ...root,
+      children: root.children.map(child => insertSubtree(child, parentId, subtree))
+    };
+  }
+  return root;
+}
+
+export interface CauseChainStep {
+  answer: string;
+  rationale: string;
+}
+
+// Build a linear chain of CAUSE nodes, each the child of the previous answer (as produced
+// by a 5-Whys drill-down). The deepest answer is flagged as a root cause candidate for review.
+export function buildCauseChain(parentId: string, steps: CauseChainStep[]): CauseNode | null {
+  let chain: CauseNode | null = null;
+  const ids = steps.map(() => crypto.randomUUID());
+  for (let i = steps.length - 1; i >= 0; i--) {
+    chain = {
+      id: ids[i],
+      parentId: i === 0 ? parentId : ids[i - 1],
+      label: steps[i].answer.trim(),
+      description: '',
+      rationale: steps[i].rationale.trim(),
+      status: NodeStatus.PENDING,
+      type: NodeType.CAUSE,
+      isRootCauseCandidate: i === steps.length - 1 ? true : undefined,
+      children: chain ? [chain] : [],
+    };
+  }
+  return chain;
+}
+
+// Returns a reason the move is not allowed, or null if it is valid
+export function validateMove(root: CauseNode, nodeId: string, newParentId: string): string | null {
+  if (nodeId === root.id) return 'The root issue cannot be moved.';
+  const node = findNodeById(root, nodeId);
+  if (!node) return 'Node not found.';
+  if (!findNodeById(root, newParentId)) return 'Target node not found.';
+  if (node.parentId === newParentId) return 'Node is already under this parent.';
+  if (isSameOrDescendant(root, nodeId, newParentId)) return 'A node cannot be moved into its own branch.';
+  return null;
+}
+
+// Move a node (with its whole subtree) under a new parent. Node ids are preserved,
+// so actions, notes and resolutions linked to nodes in the subtree stay attached.
+export function moveSubtree(root: CauseNode, nodeId: string, newParentId: string): CauseNode {
+  if (validateMove(root, nodeId, newParentId)) return root;
+  const node = findNodeById(root, nodeId)!;
+  return insertSubtree(removeSubtree(root, nodeId), newParentId, node);
+}
+
+// Ids of every ancestor of a node, from the root down (excluding the node itself)
+export function getAncestorIds(root: CauseNode, nodeId: string): string[] {
+  if (root.id === nodeId) return [];
+  for (const child of root.children ?? []) {
+    if (child.id === nodeId) return [root.id];
+    const path = getAncestorIds(child, nodeId);
+    if (path.length > 0) return [root.id, ...path];
+  }
+  return [];
+}
+
+// Copy of the tree with the children of collapsed nodes removed (for display only)
+export function pruneCollapsed(root: CauseNode, collapsedIds: Set<string>): CauseNode {
+  if (collapsedIds.has(root.id)) return { ...root, children: [] };
+  if (!root.children) return root;
+  return { ...root, children: root.children.map(child => pruneCollapsed(child, collapsedIds)) };
+}
+
+// Copy of the tree containing only the path from the root to `focusId` plus its full subtree
+export function focusOnBranch(root: CauseNode, focusId: string): CauseNode {
+  if (root.id === focusId) return root;
+  const ancestors = getAncestorIds(root, focusId);
+  if (ancestors.length === 0) return root;
+
+  const keepPath = (node: CauseNode): CauseNode => {
+    if (node.id === focusId) return node;
+    const next = (node.children ?? []).find(c => c.id === focusId || ancestors.includes(c.id));
+    return { ...node, children: next ? [keepPath(next)] : [] };
+  };
+  return keepPath(root);
+}
+
+export function getGate(node: CauseNode): GateType {
+  return node.gate ?? 'OR';
+}
+
+// Number of children that must occur for the node to occur
+export function gateThreshold(node: CauseNode): number {
+  const n = node.children?.length ?? 0;
+  const gate = getGate(node);
+  if (gate === 'AND') return n;
+  if (gate === 'OR') return Math.min(1, n);
+  return Math.min(Math.max(node.gateK ?? 1, 1), n);
+}
+
+export function describeGate(node: CauseNode): string {
+  const gate = getGate(node);
+  if (gate === 'K_OF_N') return `${gateThreshold(node)}-of-${node.children?.length ?? 0}`;
+  return gate;
+}
+
+// A minimal cut set is a smallest combination of leaf causes that together produce the top event
+export type CutSet = string[];
+
+export interface CutSetResult {
+  cutSets: CutSet[];
+  truncated: boolean;   // Expansion stopped at MAX_CUT_SETS; the list is incomplete
+}
+
+const MAX_CUT_SETS = 1000;
+
+// Remove duplicates and any set that contains a smaller one, smallest first
+function minimizeCutSets(sets: CutSet[]): CutSet[] {
+  const unique = new Map<string, CutSet>();
+  for (const set of sets) {
+    const sorted = [...new Set(set)].sort();
+    unique.set(sorted.join('|'), sorted);
+  }
+  const kept: CutSet[] = [];
+  for (const set of [...unique.values()].sort((a, b) => a.length - b.length)) {
+    const members = new Set(set);
+    if (!kept.some(k => k.every(id => members.has(id)))) kept.push(set);
+  }
+  return kept;
+}
+
+// Yields the k-element subsets one at a time; a wide k-of-n gate has millions of them
+function* combinations<T>(items: T[], k: number, start: number = 0): Generator<T[]> {
+  if (k === 0) {
+    yield [];
+    return;
+  }
+  for (let i = start; i <= items.length - k; i++) {
+    for (const rest of combinations(items, k - 1, i + 1)) yield [items[i], ...rest];
+  }
+}
+
+// Compute the minimal cut sets of the tree, as lists of leaf node ids. Every leaf is a
+// basic event. With `excludeRuledOut`, ruled-out causes (and their branches) are
+// treated as events that cannot occur.
+export function computeMinimalCutSets(root: CauseNode, excludeRuledOut: boolean = true): CutSetResult {
+  let truncated = false;
+  const cap = (sets: CutSet[]): CutSet[] => {
+    if (sets.length <= MAX_CUT_SETS) return sets;
+    truncated = true;
+    return sets.slice(0, MAX_CUT_SETS);
+  };
+
+  // Accumulates cut sets, minimizing whenever twice the cap has built up so a wide
+  // product never materializes in full. `add` returns false once the minimized list
+  // is over the cap; the caller stops and the result is marked truncated.
+  const collector = () => {
+    let sets: CutSet[] = [];
+    return {
+      add: (set: CutSet): boolean => {
+        sets.push(set);
+        if (sets.length < 2 * MAX_CUT_SETS) return true;
+        sets = minimizeCutSets(sets);
+        if (sets.length <= MAX_CUT_SETS) return true;
+        truncated = true;
+        sets = sets.slice(0, MAX_CUT_SETS);
+        return false;
+      },
+      result: (): CutSet[] => cap(minimizeCutSets(sets)),
+    };
+  };
+
+  // Every way to pick one cut set from each group, merged
+  const product = (groups: CutSet[][]): CutSet[] => {
+    let result: CutSet[] = [[]];
+    for (const group of groups) {
+      const next = collector();
+      outer: for (const partial of result) {
+        for (const set of group) {
+          if (!next.add([...partial, ...set])) break outer;
+        }
+      }
+      result = next.result();
+    }
+    return result;
+  };
+
+  const expand = (node: CauseNode): CutSet[] => {
+    if (excludeRuledOut && node.status === NodeStatus.RULED_OUT) return [];
+    const children = node.children ?? [];
+    if (children.length === 0) return [[node.id]];
+
+    // Children that cannot occur add nothing to any combination
+    const childSets = children.map(expand).filter(sets => sets.length > 0);
+    const all = collector();
+    for (const combo of combinations(childSets, gateThreshold(node))) {
+      if (!product(combo).every(all.add)) break;
+    }
+    return all.result();
+  };
+
+  const cutSets = (root.children?.length ?? 0) === 0 ? [] : expand(root);
+  return { cutSets, truncated };
+}
+
 export function countNodesByStatus(nodes: CauseNode[]): Record<NodeStatus, number> {
   const counts: Record<NodeStatus, number> = {
     [NodeStatus.PENDING]: 0,
@@ -82,6 +321,32 @@ export function getTreeStats(tree: SavedTree): TreeStats {
   };
 }
 
+// Due-date checks shared by the action, corrective action and tagup views. An item due
+// today is not overdue yet; the week runs to the coming Sunday.
+export function isOverdue(dueDate: string, status: string): boolean {
+  if (!dueDate || status === 'Complete' || status === 'Closed') return false;
+  return new Date(dueDate) < new Date(new Date().toDateString());
+}
+
+export function isOverdueDate(targetDate: string, status: string): boolean {
+  if (!targetDate || status === 'Verified' || status === 'Closed') return false;
+  return new Date(targetDate) < new Date(new Date().toDateString());
+}
+
+export function isDueToday(date: string): boolean {
+  if (!date) return false;
+  return new Date(date).toDateString() === new Date().toDateString();
+}
+
+export function isDueThisWeek(date: string): boolean {
+  if (!date) return false;
+  const today = new Date();
+  const endOfWeek = new Date(today);
+  endOfWeek.setDate(today.getDate() + (7 - today.getDay()));
+  const due = new Date(date);
+  return due >= new Date(today.toDateString()) && due <= endOfWeek;
+}
+
 export function formatDate(iso: string): string {
   try {
     return new Date(iso).toLocaleDateString(undefined, {
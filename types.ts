@@ -11,6 +11,16 @@ export enum NodeType {
   CAUSE = 'CAUSE'
 }
 
+// FMEA ratings, each 1 (best) to 10 (worst). Unrated dimensions are left out.
+export interface RiskRating {
+  severity?: number;
+  occurrence?: number;
+  detection?: number;
+}
+
+// Fault tree logic gate combining a node's children. Nodes without a gate are OR.
+export type GateType = 'AND' | 'OR' | 'K_OF_N';
+
 export interface CauseNode {
   id: string;
   parentId: string | null;
@@ -20,6 +30,12 @@ export interface CauseNode {
   status: NodeStatus;
   type: NodeType;
   isRootCause?: boolean;
+  isRootCauseCandidate?: boolean; // Proposed by a 5-Whys drill-down, awaiting review
+  gate?: GateType;
+  gateK?: number;                 // Children that must occur for a K_OF_N gate
+  probability?: number;           // Likelihood (0-1) of a leaf cause; computed for other nodes
+  risk?: RiskRating;
+  residualRisk?: RiskRating;      // Re-rated once a linked corrective action is verified
   children?: CauseNode[];
 }
 
@@ -27,6 +43,7 @@ export interface ActionUpdate {
   id: string;
   content: string;
   createdAt: string;
+  author?: string;
 }
 
 export interface ActionItem {
@@ -39,6 +56,29 @@ export interface ActionItem {
   dueDate: string;
   status: 'Open' | 'In Progress' | 'Complete' | 'Blocked' | 'Closed';
   updates?: ActionUpdate[];
+  predecessors?: ActionDependency[];          // Actions that must finish first
+  completionOverride?: CompletionOverride;    // Set when completed while predecessors were open
+  checklistId?: string;                       // Checklist the action was created from
+}
+
+// treeId is omitted for actions in the same investigation, so the link survives re-import
+export interface ActionDependency {
+  actionId: string;
+  treeId?: string;
+}
+
+export interface CompletionOverride {
+  reason: string;
+  author?: string;
+  createdAt: string;
+}
+
+export interface NoteAttachment {
+  id: string;        // Key of the file contents in IndexedDB
+  name: string;
+  mimeType: string;
+  size: number;      // Bytes
+  createdAt: string;
 }
 
 export interface Note {
@@ -48,6 +88,7 @@ export interface Note {
   owner: string;
   createdAt: string;
   isEvidence: boolean; // True if this note serves as evidence for ruling out
+  attachments?: NoteAttachment[];
 }
 
 export type ResolutionStatus =
@@ -69,12 +110,29 @@ export interface ResolutionItem {
   verificationMethod: string;
   verificationResults: string;
   verifiedDate: string;
+  approvedBy?: string;
   status: ResolutionStatus;
   createdAt: string;
   updatedAt: string;
   updates?: ActionUpdate[];
 }
 
+export type AuditEntityType = 'node' | 'action' | 'note' | 'resolution';
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  author: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  entityLabel: string;          // Label/title at the time of the change
+  relatedNodeIds: string[];     // Cause nodes this entry belongs to (for per-node history)
+  change: 'create' | 'update' | 'delete';
+  field: string;                // Changed field; empty for create/delete
+  oldValue: string;
+  newValue: string;
+}
+
 export interface TreeLayoutData {
   x: number;
   y: number;
@@ -92,6 +150,9 @@ export interface SavedTree {
   notes: Note[];
   resolutions: ResolutionItem[];
   isResolved?: boolean;  // True if investigation is complete and should not appear in daily tagups
+  collapsedNodeIds?: string[];  // Nodes whose subtrees are hidden in the tree view
+  auditLog?: AuditEntry[];      // Append-only change log for traceability
+  schemaVersion?: number;       // See schema.ts; absent on trees saved before versioning
 }
 
 export interface AppSettings {
@@ -99,6 +160,7 @@ export interface AppSettings {
   autoBackupIntervalMinutes: number;
   projectFileName: string;
   theme: 'light' | 'dark';
+  userName: string;  // "I am" identity stamped on notes, updates and audit entries
 }
 
 export interface AppState {
@@ -108,10 +170,53 @@ export interface AppState {
 
 // V2 types with Projects support
 
+// Reusable starting structure for an investigation. `nodes` are placed under the
+// new problem statement; ids are regenerated every time the template is used.
+export interface InvestigationTemplate {
+  id: string;
+  name: string;
+  description: string;
+  nodes: CauseNode[];
+  createdAt: string;
+}
+
+export interface ChecklistStep {
+  id: string;
+  action: string;
+  rationale: string;
+  dueInDays: number | null;   // Days after the checklist is applied; null for no due date
+}
+
+export interface ActionChecklist {
+  id: string;
+  name: string;
+  description: string;
+  appliesTo: string[];        // Category or cause labels it is suggested for; empty for any cause
+  steps: ChecklistStep[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Status rules for one kind of item, keyed by status value
+export interface StatusWorkflow {
+  transitions: Record<string, string[]>;   // Statuses each status may change to
+  required: Record<string, string[]>;      // Requirements to meet before entering a status
+}
+
+export interface WorkflowDefinition {
+  cause: StatusWorkflow;
+  action: StatusWorkflow;
+  resolution: StatusWorkflow;
+}
+
 export interface Project {
   id: string;
   name: string;
   description?: string;
+  members?: string[];  // Team roster offered by the person pickers
+  templates?: InvestigationTemplate[];  // Saved from branches of this project's trees
+  checklists?: ActionChecklist[];       // Standard investigation steps applied to causes
+  workflow?: WorkflowDefinition;        // Default workflow when absent
   createdAt: string;
   updatedAt: string;
 }
@@ -0,0 +1,144 @@
+import { ActionItem, CauseNode, NodeStatus, Note, Project, ResolutionItem, StatusWorkflow, WorkflowDefinition } from './types';
+import { NODE_STATUS_LABELS } from './constants';
+
+// Status workflow: per project, which status changes are allowed and what has to be
+// filled in before an item may enter a status. Projects without their own definition
+// use the default, which keeps the long-standing rule that ruling out needs evidence.
+
+export type WorkflowEntity = keyof WorkflowDefinition;
+
+export const WORKFLOW_ENTITY_LABELS: Record<WorkflowEntity, string> = {
+  cause: 'Causes',
+  action: 'Investigation Actions',
+  resolution: 'Corrective Actions',
+};
+
+export const WORKFLOW_STATUSES: Record<WorkflowEntity, string[]> = {
+  cause: [NodeStatus.PENDING, NodeStatus.ACTIVE, NodeStatus.RULED_OUT, NodeStatus.CONFIRMED],
+  action: ['Open', 'In Progress', 'Blocked', 'Complete', 'Closed'],
+  resolution: ['Open', 'In Progress', 'On Hold', 'Implemented', 'Verified', 'Closed'],
+};
+
+// Requirements that can be attached to entering a status, with their labels
+export const WORKFLOW_REQUIREMENTS: Record<WorkflowEntity, Record<string, string>> = {
+  cause: {
+    evidence: 'An evidence note',
+    description: 'A description',
+    rationale: 'A rationale',
+  },
+  action: {
+    assignee: 'An assignee',
+    dueDate: 'A due date',
+    rationale: 'A rationale',
+    update: 'At least one update',
+  },
+  resolution: {
+    owner: 'An owner',
+    targetDate: 'A target date',
+    implementedDate: 'The implemented date',
+    verificationMethod: 'A verification method',
+    verificationResults: 'Verification results',
+    verifiedDate: 'The verified date',
+    approvedBy: 'An approver',
+  },
+};
+
+export function statusLabel(entity: WorkflowEntity, status: string): string {
+  return entity === 'cause' ? NODE_STATUS_LABELS[status as NodeStatus] ?? status : status;
+}
+
+const allowAll = (statuses: string[]): Record<string, string[]> =>
+  Object.fromEntries(statuses.map(s => [s, statuses.filter(t => t !== s)]));
+
+export const DEFAULT_WORKFLOW: WorkflowDefinition = {
+  cause: { transitions: allowAll(WORKFLOW_STATUSES.cause), required: { [NodeStatus.RULED_OUT]: ['evidence'] } },
+  action: { transitions: allowAll(WORKFLOW_STATUSES.action), required: {} },
+  resolution: { transitions: allowAll(WORKFLOW_STATUSES.resolution), required: {} },
+};
+
+export function getProjectWorkflow(project: Project | null | undefined): WorkflowDefinition {
+  return project?.workflow ?? DEFAULT_WORKFLOW;
+}
+
+// Compares status lists as sets; a missing status counts as an empty list
+const sameLists = (a: Record<string, string[]>, b: Record<string, string[]>) =>
+  [...new Set([...Object.keys(a), ...Object.keys(b)])].every(status => {
+    const left = new Set(a[status] ?? []);
+    const right = new Set(b[status] ?? []);
+    return left.size === right.size && [...left].every(s => right.has(s));
+  });
+
+export function isSameWorkflow(a: WorkflowDefinition, b: WorkflowDefinition): boolean {
+  return (Object.keys(WORKFLOW_STATUSES) as WorkflowEntity[]).every(entity =>
+    sameLists(a[entity].transitions, b[entity].transitions) && sameLists(a[entity].required, b[entity].required));
+}
+
+export interface WorkflowViolation {
+  requirement: string | null;   // Null when the transition itself is not allowed
+  message: string;
+}
+
+export function isTransitionAllowed(workflow: StatusWorkflow, from: string, to: string): boolean {
+  return from === to || (workflow.transitions[from] ?? []).includes(to);
+}
+
+function checkTransition(
+  workflow: StatusWorkflow,
+  entity: WorkflowEntity,
+  from: string,
+  to: string,
+  isMissing: (requirement: string) => boolean
+): WorkflowViolation[] {
+  if (from === to) return [];
+  if (!isTransitionAllowed(workflow, from, to)) {
+    return [{ requirement: null, message: `${statusLabel(entity, from)} cannot change to ${statusLabel(entity, to)} in this project's workflow.` }];
+  }
+  return (workflow.required[to] ?? [])
+    .filter(isMissing)
+    .map(requirement => ({
+      requirement,
+      message: `${WORKFLOW_REQUIREMENTS[entity][requirement] ?? requirement} needed before moving to ${statusLabel(entity, to)}.`,
+    }));
+}
+
+const isBlank = (value: string | undefined) => !value || !value.trim();
+const isUnassigned = (value: string | undefined) => isBlank(value) || value!.trim() === 'Unassigned';
+
+export function checkCauseTransition(workflow: WorkflowDefinition, node: CauseNode, to: NodeStatus, notes: Note[]): WorkflowViolation[] {
+  return checkTransition(workflow.cause, 'cause', node.status, to, requirement => {
+    switch (requirement) {
+      case 'evidence': return !notes.some(n => n.referenceId === node.id && n.isEvidence);
+      case 'description': return isBlank(node.description);
+      case 'rationale': return isBlank(node.rationale);
+      default: return false;
+    }
+  });
+}
+
+export function checkActionTransition(workflow: WorkflowDefinition, action: ActionItem, to: ActionItem['status']): WorkflowViolation[] {
+  return checkTransition(workflow.action, 'action', action.status, to, requirement => {
+    switch (requirement) {
+      case 'assignee': return isUnassigned(action.assignee);
+      case 'dueDate': return isBlank(action.dueDate);
+      case 'rationale': return isBlank(action.rationale);
+      case 'update': return (action.updates ?? []).length === 0;
+      default: return false;
+    }
+  });
+}
+
+export function checkResolutionTransition(workflow: WorkflowDefinition, resolution: ResolutionItem, to: ResolutionItem['status']): WorkflowViolation[] {
+  return checkTransition(workflow.resolution, 'resolution', resolution.status, to, requirement => {
+    switch (requirement) {
+      case 'owner': return isUnassigned(resolution.owner);
+      case 'approvedBy': return isBlank(resolution.approvedBy);
+      case 'targetDate':
+      case 'implementedDate':
+      case 'verificationMethod':
+      case 'verificationResults':
+      case 'verifiedDate':
+        return isBlank(resolution[requirement]);
+      default: return false;
+    }
+  });
+}
@@ -0,0 +1,134 @@
+import { Project, SavedTreeV2 } from './types';
+import { flattenTree, isOverdue, isOverdueDate } from './treeUtils';
+import { parseDay, formatDay, addDays, today } from './timeline';
+
+// Workload: every action and corrective action across investigations, grouped by the
+// person responsible (assignee for actions, owner for corrective actions).
+
+export type WorkloadItemKind = 'action' | 'resolution';
+
+export type WorkloadStatusFilter = 'open' | 'overdue' | 'due-this-week' | 'done' | 'all';
+
+export interface WorkloadItem {
+  key: string;
+  kind: WorkloadItemKind;
+  id: string;
+  treeId: string;
+  treeName: string;
+  projectName: string;
+  title: string;
+  person: string;            // Trimmed; empty when unassigned
+  status: string;
+  dueDate: string;
+  causeId: string | null;    // First linked cause, for click-through
+  causeLabel: string;
+  isOverdue: boolean;
+  isDone: boolean;
+}
+
+export interface PersonWorkload {
+  person: string;
+  items: WorkloadItem[];
+  open: number;
+  overdue: number;
+  weeks: number[];           // Open items due in each week of the load grid
+  later: number;             // Open items due after the grid
+  undated: number;
+}
+
+export const WORKLOAD_WEEKS = 6;
+
+export function collectWorkloadItems(trees: SavedTreeV2[], projects: Project[]): WorkloadItem[] {
+  const projectNames = new Map(projects.map(p => [p.id, p.name]));
+  return trees.flatMap(tree => {
+    const labels = new Map(flattenTree(tree.treeData).map(n => [n.id, n.label]));
+    const base = { treeId: tree.id, treeName: tree.name, projectName: projectNames.get(tree.projectId) ?? '' };
+    return [
+      ...tree.actions.map((a): WorkloadItem => ({
+        ...base,
+        key: `${tree.id}:action:${a.id}`,
+        kind: 'action',
+        id: a.id,
+        title: a.action,
+        person: a.assignee.trim(),
+        status: a.status,
+        dueDate: a.dueDate,
+        causeId: a.causeId,
+        causeLabel: labels.get(a.causeId) ?? 'Unknown cause',
+        isOverdue: isOverdue(a.dueDate, a.status),
+        isDone: a.status === 'Complete' || a.status === 'Closed',
+      })),
+      ...(tree.resolutions ?? []).map((r): WorkloadItem => ({
+        ...base,
+        key: `${tree.id}:resolution:${r.id}`,
+        kind: 'resolution',
+        id: r.id,
+        title: r.title,
+        person: r.owner.trim(),
+        status: r.status,
+        dueDate: r.targetDate,
+        causeId: r.linkedCauseIds[0] ?? null,
+        causeLabel: r.linkedCauseIds.map(id => labels.get(id) ?? 'Unknown cause').join(', '),
+        isOverdue: isOverdueDate(r.targetDate, r.status),
+        isDone: r.status === 'Verified' || r.status === 'Closed',
+      })),
+    ];
+  });
+}
+
+// Monday of the current week followed by the next weeks of the grid
+export function workloadWeekStarts(count = WORKLOAD_WEEKS): string[] {
+  const now = parseDay(today());
+  const monday = formatDay(new Date(now.getFullYear(), now.getMonth(), now.getDate() - ((now.getDay() + 6) % 7)));
+  return Array.from({ length: count }, (_, i) => addDays(monday, i * 7));
+}
+
+export function matchesStatusFilter(item: WorkloadItem, filter: WorkloadStatusFilter): boolean {
+  switch (filter) {
+    case 'open': return !item.isDone;
+    case 'overdue': return item.isOverdue;
+    case 'due-this-week': {
+      const [thisWeek, nextWeek] = workloadWeekStarts(2);
+      return !item.isDone && !!item.dueDate && item.dueDate.slice(0, 10) >= thisWeek && item.dueDate.slice(0, 10) < nextWeek;
+    }
+    case 'done': return item.isDone;
+    default: return true;
+  }
+}
+
+// People sorted by overdue then open count; names are matched case-insensitively
+export function groupByPerson(items: WorkloadItem[], weekStarts: string[] = workloadWeekStarts()): PersonWorkload[] {
+  const groups = new Map<string, PersonWorkload>();
+  const gridEnd = addDays(weekStarts[weekStarts.length - 1], 7);
+
+  for (const item of items) {
+    const id = item.person.toLowerCase();
+    let group = groups.get(id);
+    if (!group) {
+      group = { person: item.person, items: [], open: 0, overdue: 0, weeks: weekStarts.map(() => 0), later: 0, undated: 0 };
+      groups.set(id, group);
+    }
+    group.items.push(item);
+    if (item.isDone) continue;
+    group.open++;
+    if (item.isOverdue) {
+      group.overdue++;
+      continue;
+    }
+    const due = item.dueDate.slice(0, 10);
+    if (!due) group.undated++;
+    else if (due >= gridEnd) group.later++;
+    else {
+      const week = weekStarts.findIndex((start, i) => due >= start && (i === weekStarts.length - 1 || due < weekStarts[i + 1]));
+      if (week >= 0) group.weeks[week]++;
+    }
+  }
+
+  return [...groups.values()].sort((a, b) =>
+    // Unassigned always last
+    (a.person ? 0 : 1) - (b.person ? 0 : 1) ||
+    b.overdue - a.overdue ||
+    b.open - a.open ||
+    a.person.localeCompare(b.person)
+  );
+}